@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider } from "@/hooks/use-auth";
+import { useRealtimeEvents } from "@/hooks/use-realtime";
 import { ProtectedRoute } from "./lib/protected-route";
 
 // Page Imports
@@ -55,12 +56,19 @@ function Router() {
   );
 }
 
+// Applies server pushes to the query cache for the logged-in user
+function RealtimeSync() {
+  useRealtimeEvents();
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
         <TooltipProvider>
           <Toaster />
+          <RealtimeSync />
           <Router />
         </TooltipProvider>
       </AuthProvider>
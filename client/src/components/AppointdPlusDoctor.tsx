@@ -1,14 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { CheckCircle, Star, TrendingUp, DollarSign, BrainCircuit, BarChart } from "lucide-react";
 
+interface PlanRate {
+  rate: number;
+  feeMode: "surcharge" | "deduction";
+}
+
+interface PlanPricing {
+  plan: "basic" | "plus";
+  current: PlanRate & { rateSource: "default" | "plan" | "doctor" };
+  plans: { basic: PlanRate; plus: PlanRate };
+}
+
 // Define the core benefits
-const plusBenefits = [
+const plusBenefits = (basicRate: string, plusRate: string) => [
   {
     icon: <DollarSign className="w-6 h-6 text-primary" />,
     title: "Reduced Commissions",
-    description: "Keep more of your earnings. Our 'Plus' plan drops your platform fee from 20% to just 10% on every consultation."
+    description: `Keep more of your earnings. Our 'Plus' plan drops your platform fee from ${basicRate} to just ${plusRate} on every consultation.`
   },
   {
     icon: <TrendingUp className="w-6 h-6 text-primary" />,
@@ -38,6 +50,12 @@ const plusBenefits = [
 ];
 
 export function AppointdPlusDoctor() {
+  // Rates come from the admin pricing, so what is advertised is what is charged
+  const { data: pricing } = useQuery<PlanPricing>({ queryKey: ["/api/pricing/plans"] });
+  const basicRate = pricing ? `${pricing.plans.basic.rate}%` : "…";
+  const plusRate = pricing ? `${pricing.plans.plus.rate}%` : "…";
+  const onPlus = pricing?.plan === "plus";
+
   return (
     <div className="space-y-12">
       {/* 1. The Header */}
@@ -49,11 +67,16 @@ export function AppointdPlusDoctor() {
           Upgrade to Appoint'd Plus to reduce commissions, get priority placement,
           and access powerful AI tools that save you time.
         </p>
+        {pricing?.current.rateSource === "doctor" && (
+          <p className="text-sm text-muted-foreground mt-2">
+            You have an agreed commission of {pricing.current.rate}% on every consultation.
+          </p>
+        )}
       </div>
 
       {/* 2. The Benefits Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-        {plusBenefits.map((benefit) => (
+        {plusBenefits(basicRate, plusRate).map((benefit) => (
           <div key={benefit.title} className="flex items-start gap-4">
             <div className="bg-primary/10 w-12 h-12 rounded-lg flex items-center justify-center flex-shrink-0 mt-1">
               {benefit.icon}
@@ -88,7 +111,7 @@ export function AppointdPlusDoctor() {
               </li>
               <li className="flex items-center gap-2 text-sm">
                 <CheckCircle className="w-4 h-4 text-muted-foreground" />
-                <span>20% Consultation Commission</span>
+                <span>{basicRate} Consultation Commission</span>
               </li>
               <li className="flex items-center gap-2 text-sm">
                 <CheckCircle className="w-4 h-4 text-muted-foreground" />
@@ -98,7 +121,7 @@ export function AppointdPlusDoctor() {
           </CardContent>
           <CardFooter>
             <Button variant="outline" className="w-full" disabled>
-              Your Current Plan
+              {onPlus ? "Basic Plan" : "Your Current Plan"}
             </Button>
           </CardFooter>
         </Card>
@@ -124,7 +147,7 @@ export function AppointdPlusDoctor() {
             <ul className="space-y-2">
               <li className="flex items-center gap-2 text-sm font-semibold">
                 <CheckCircle className="w-4 h-4 text-primary" />
-                <span>Reduced 10% Commission</span>
+                <span>Reduced {plusRate} Commission</span>
               </li>
               <li className="flex items-center gap-2 text-sm">
                 <CheckCircle className="w-4 h-4 text-primary" />
@@ -145,8 +168,8 @@ export function AppointdPlusDoctor() {
             </ul>
           </CardContent>
           <CardFooter>
-            <Button className="w-full">
-              Upgrade to Plus
+            <Button className="w-full" disabled={onPlus}>
+              {onPlus ? "Your Current Plan" : "Upgrade to Plus"}
             </Button>
           </CardFooter>
         </Card>
@@ -0,0 +1,379 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Megaphone, Send, Users, XCircle } from "lucide-react";
+
+type Audience =
+  | { kind: "all" }
+  | { kind: "role"; role: "patient" | "doctor" }
+  | { kind: "specialization"; specialization: string }
+  | { kind: "upcoming_patients"; withinDays?: number };
+
+interface BroadcastReport {
+  _id: string;
+  title: string;
+  message: string;
+  audienceLabel: string;
+  channels: ("email" | "inapp")[];
+  status: "scheduled" | "sending" | "sent" | "cancelled";
+  scheduledFor: string;
+  sentAt?: string;
+  recipientCount: number;
+  lastError?: string;
+  stats: {
+    read: number;
+    emailQueued: number;
+    emailDelivered: number;
+    emailFailed: number;
+    readRate: number;
+    emailDeliveryRate: number;
+  };
+}
+
+const BROADCASTS_QUERY_KEY = ["/api/admin/broadcasts"];
+
+const STATUS_BADGES: Record<BroadcastReport["status"], string> = {
+  scheduled: "bg-blue-500/10 text-blue-600 border-blue-500/20",
+  sending: "bg-amber-500/10 text-amber-600 border-amber-500/20",
+  sent: "bg-green-500/10 text-green-600 border-green-500/20",
+  cancelled: "bg-muted text-muted-foreground",
+};
+
+// apiRequest errors look like "400: {json body}"
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+  } catch {
+    return error.message;
+  }
+};
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+// Compose announcements for a group of users and follow how they were received
+export default function AdminBroadcasts({ specializations }: { specializations: string[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [title, setTitle] = useState("");
+  const [message, setMessage] = useState("");
+  const [audienceKind, setAudienceKind] = useState<Audience["kind"]>("all");
+  const [role, setRole] = useState<"patient" | "doctor">("patient");
+  const [specialization, setSpecialization] = useState("");
+  const [withinDays, setWithinDays] = useState("");
+  const [sendEmail, setSendEmail] = useState(true);
+  const [scheduled, setScheduled] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState("");
+
+  const audience: Audience =
+    audienceKind === "role"
+      ? { kind: "role", role }
+      : audienceKind === "specialization"
+        ? { kind: "specialization", specialization }
+        : audienceKind === "upcoming_patients"
+          ? { kind: "upcoming_patients", ...(withinDays && { withinDays: Number(withinDays) }) }
+          : { kind: "all" };
+  const audienceComplete = audience.kind !== "specialization" || !!audience.specialization;
+
+  const { data: broadcasts = [], isLoading } = useQuery<BroadcastReport[]>({
+    queryKey: BROADCASTS_QUERY_KEY,
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/broadcasts");
+      return res.json();
+    },
+    // Rates move as emails go out and recipients read
+    refetchInterval: 30000,
+  });
+
+  const { data: reach } = useQuery<{ count: number; label: string }>({
+    queryKey: ["/api/admin/broadcasts/audience", audience],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/broadcasts/audience", audience);
+      return res.json();
+    },
+    enabled: audienceComplete,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/broadcasts", {
+        title,
+        message,
+        audience,
+        channels: sendEmail ? ["inapp", "email"] : ["inapp"],
+        // datetime-local is the admin's local time
+        ...(scheduled && scheduledFor && { scheduledFor: new Date(scheduledFor).toISOString() }),
+      });
+      return res.json() as Promise<BroadcastReport>;
+    },
+    onSuccess: (broadcast) => {
+      queryClient.invalidateQueries({ queryKey: BROADCASTS_QUERY_KEY });
+      setTitle("");
+      setMessage("");
+      setScheduled(false);
+      setScheduledFor("");
+      toast({
+        title: broadcast.status === "scheduled" ? "Broadcast Scheduled" : "Broadcast Sent",
+        description:
+          broadcast.status === "scheduled"
+            ? `It will go out on ${new Date(broadcast.scheduledFor).toLocaleString()}.`
+            : `Delivered to ${broadcast.recipientCount} user(s).`,
+      });
+    },
+    onError: (error: Error) =>
+      toast({ title: "Could not send broadcast", description: errorMessage(error), variant: "destructive" }),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/broadcasts/${id}/cancel`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: BROADCASTS_QUERY_KEY });
+      toast({ title: "Broadcast Cancelled", description: "Nobody will receive it." });
+    },
+    onError: (error: Error) =>
+      toast({ title: "Could not cancel broadcast", description: errorMessage(error), variant: "destructive" }),
+  });
+
+  const canSend =
+    title.trim() && message.trim() && audienceComplete && (!scheduled || scheduledFor) && !sendMutation.isPending;
+
+  return (
+    <div className="space-y-6" data-testid="admin-broadcasts">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Megaphone className="w-5 h-5" />
+            New Announcement
+          </CardTitle>
+          <CardDescription>
+            Shown in every recipient's notification inbox, and emailed unless they turned announcements off.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="broadcast-title">Title</Label>
+            <Input
+              id="broadcast-title"
+              value={title}
+              maxLength={120}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Planned maintenance on Sunday"
+              data-testid="input-broadcast-title"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="broadcast-message">Message</Label>
+            <Textarea
+              id="broadcast-message"
+              value={message}
+              maxLength={2000}
+              rows={5}
+              onChange={(e) => setMessage(e.target.value)}
+              data-testid="input-broadcast-message"
+            />
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2">
+              <Label>Audience</Label>
+              <Select value={audienceKind} onValueChange={(value) => setAudienceKind(value as Audience["kind"])}>
+                <SelectTrigger className="w-64" data-testid="select-broadcast-audience">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  <SelectItem value="role">Everyone with a role</SelectItem>
+                  <SelectItem value="specialization">Doctors of a specialization</SelectItem>
+                  <SelectItem value="upcoming_patients">Patients with upcoming appointments</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {audienceKind === "role" && (
+              <Select value={role} onValueChange={(value) => setRole(value as "patient" | "doctor")}>
+                <SelectTrigger className="w-40" data-testid="select-broadcast-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="patient">Patients</SelectItem>
+                  <SelectItem value="doctor">Doctors</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            {audienceKind === "specialization" && (
+              <Select value={specialization} onValueChange={setSpecialization}>
+                <SelectTrigger className="w-56" data-testid="select-broadcast-specialization">
+                  <SelectValue placeholder="Choose a specialization" />
+                </SelectTrigger>
+                <SelectContent>
+                  {specializations.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {audienceKind === "upcoming_patients" && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">within</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={365}
+                  className="w-24"
+                  value={withinDays}
+                  onChange={(e) => setWithinDays(e.target.value)}
+                  placeholder="any"
+                  data-testid="input-broadcast-within-days"
+                />
+                <span className="text-sm text-muted-foreground">days</span>
+              </div>
+            )}
+
+            {reach && audienceComplete && (
+              <p className="flex items-center gap-1 text-sm text-muted-foreground pb-2">
+                <Users className="w-4 h-4" />
+                Reaches {reach.count} user{reach.count !== 1 ? "s" : ""} right now
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="broadcast-email"
+                checked={sendEmail}
+                onCheckedChange={(checked) => setSendEmail(checked === true)}
+                data-testid="checkbox-broadcast-email"
+              />
+              <Label htmlFor="broadcast-email">Also send by email</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="broadcast-schedule"
+                checked={scheduled}
+                onCheckedChange={setScheduled}
+                data-testid="switch-broadcast-schedule"
+              />
+              <Label htmlFor="broadcast-schedule">Schedule for later</Label>
+            </div>
+            {scheduled && (
+              <Input
+                type="datetime-local"
+                className="w-56"
+                value={scheduledFor}
+                onChange={(e) => setScheduledFor(e.target.value)}
+                data-testid="input-broadcast-scheduled-for"
+              />
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={() => sendMutation.mutate()} disabled={!canSend} data-testid="button-send-broadcast">
+              <Send className="w-4 h-4 mr-2" />
+              {sendMutation.isPending ? "Sending..." : scheduled ? "Schedule" : "Send Now"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Broadcast History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading broadcasts...</p>
+          ) : broadcasts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No broadcasts yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {broadcasts.map((broadcast) => (
+                <div
+                  key={broadcast._id}
+                  className="p-4 border border-border rounded-lg"
+                  data-testid={`broadcast-${broadcast._id}`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-semibold truncate">{broadcast.title}</h4>
+                        <Badge className={STATUS_BADGES[broadcast.status]}>{broadcast.status}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {broadcast.audienceLabel} •{" "}
+                        {broadcast.sentAt
+                          ? `sent ${new Date(broadcast.sentAt).toLocaleString()}`
+                          : `scheduled for ${new Date(broadcast.scheduledFor).toLocaleString()}`}
+                      </p>
+                      {broadcast.lastError && broadcast.status === "sending" && (
+                        <p className="text-xs text-destructive mt-1">Retrying: {broadcast.lastError}</p>
+                      )}
+                    </div>
+                    {broadcast.status === "scheduled" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => cancelMutation.mutate(broadcast._id)}
+                        disabled={cancelMutation.isPending}
+                        data-testid={`button-cancel-broadcast-${broadcast._id}`}
+                      >
+                        <XCircle className="w-4 h-4 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+
+                  {broadcast.status === "sent" && (
+                    <div className="grid grid-cols-3 gap-4 mt-3 text-sm">
+                      <div>
+                        <p className="text-muted-foreground text-xs">Recipients</p>
+                        <p className="font-medium">{broadcast.recipientCount}</p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground text-xs">Read</p>
+                        <p className="font-medium">
+                          {broadcast.stats.read} ({percent(broadcast.stats.readRate)})
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground text-xs">Emails delivered</p>
+                        <p className="font-medium">
+                          {broadcast.channels.includes("email")
+                            ? `${broadcast.stats.emailDelivered} / ${broadcast.stats.emailQueued} (${percent(
+                                broadcast.stats.emailDeliveryRate
+                              )})${broadcast.stats.emailFailed ? `, ${broadcast.stats.emailFailed} failed` : ""}`
+                            : "Not emailed"}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
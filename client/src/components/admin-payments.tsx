@@ -0,0 +1,439 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, CreditCard, RotateCcw } from "lucide-react";
+
+type PaymentStatus = "completed" | "partially_refunded" | "refunded";
+
+type RefundReasonCode =
+  | "patient_cancellation"
+  | "doctor_cancellation"
+  | "no_show"
+  | "late_payment"
+  | "service_issue"
+  | "duplicate_payment"
+  | "dispute"
+  | "goodwill"
+  | "other";
+
+interface PaymentRefund {
+  razorpayRefundId: string;
+  amount: number;
+  reasonCode: RefundReasonCode;
+  note?: string;
+  disputeId?: string;
+  source: "admin" | "system" | "razorpay";
+  createdAt: string;
+}
+
+interface AdminPayment {
+  _id: string;
+  appointmentId: string;
+  seriesId?: string;
+  patientName: string;
+  doctorName: string;
+  amount: number;
+  status: PaymentStatus;
+  refundedAmount?: number;
+  razorpayPaymentId?: string;
+  createdAt: string;
+  refunds: PaymentRefund[];
+}
+
+interface PendingRefund {
+  appointmentId: string;
+  appointmentDate: string;
+  patientName: string;
+  doctorName: string;
+  pendingRefund: {
+    amount: number;
+    reasonCode: RefundReasonCode;
+    status: "retrying" | "failed";
+    attempts: number;
+    lastError: string;
+    lastAttemptAt: string;
+  };
+}
+
+interface Dispute {
+  _id: string;
+  appointmentId: string;
+  reason: string;
+  status: "open" | "in_progress" | "resolved" | "closed";
+}
+
+const PAYMENTS_QUERY_KEY = ["/api/admin/payments"];
+const DISPUTES_QUERY_KEY = ["/api/disputes"];
+const PENDING_REFUNDS_QUERY_KEY = ["/api/admin/refunds/pending"];
+
+const REFUND_REASON_LABELS: Record<RefundReasonCode, string> = {
+  patient_cancellation: "Cancelled by patient",
+  doctor_cancellation: "Cancelled by doctor",
+  no_show: "Missed appointment",
+  late_payment: "Paid after cancellation",
+  service_issue: "Problem with the consultation",
+  duplicate_payment: "Duplicate payment",
+  dispute: "Dispute resolution",
+  goodwill: "Goodwill gesture",
+  other: "Other",
+};
+
+const REFUND_SOURCE_LABELS: Record<PaymentRefund["source"], string> = {
+  admin: "Admin",
+  system: "Automatic",
+  razorpay: "Razorpay dashboard",
+};
+
+const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  completed: "Paid",
+  partially_refunded: "Partly refunded",
+  refunded: "Refunded",
+};
+
+// apiRequest errors look like "400: {json body}"
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+  } catch {
+    return error.message;
+  }
+};
+
+const rupees = (amount: number) => `₹${amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+const refundableOf = (payment: AdminPayment) =>
+  Math.round((payment.amount - (payment.refundedAmount || 0)) * 100) / 100;
+
+function RefundDialog({
+  payment,
+  disputes,
+  onOpenChange,
+}: {
+  payment: AdminPayment;
+  disputes: Dispute[];
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const refundable = refundableOf(payment);
+  const [amount, setAmount] = useState(String(refundable));
+  const [reasonCode, setReasonCode] = useState<RefundReasonCode>("service_issue");
+  const [note, setNote] = useState("");
+  const [disputeId, setDisputeId] = useState("none");
+  const [resolveDispute, setResolveDispute] = useState(true);
+
+  const linkableDisputes = disputes.filter(
+    (dispute) =>
+      dispute.appointmentId === payment.appointmentId && ["open", "in_progress"].includes(dispute.status)
+  );
+  const linked = disputeId !== "none";
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/payments/${payment._id}/refund`, {
+        amount: Number(amount),
+        reasonCode,
+        ...(note.trim() && { note: note.trim() }),
+        ...(linked && { disputeId, resolveDispute }),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PAYMENTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: DISPUTES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payouts/balances"] });
+      toast({
+        title: "Refund Issued",
+        description: `${rupees(Number(amount))} is on its way back to ${payment.patientName}.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) =>
+      toast({ title: "Could not refund", description: errorMessage(error), variant: "destructive" }),
+  });
+
+  const amountValid = Number(amount) > 0 && Number(amount) <= refundable;
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Refund Payment</DialogTitle>
+          <DialogDescription>
+            {payment.patientName} paid {rupees(payment.amount)} for a consultation with {payment.doctorName}.{" "}
+            {rupees(refundable)} can still be refunded. The doctor's share of the refund comes off their payouts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="refund-amount">Amount (₹)</Label>
+            <Input
+              id="refund-amount"
+              type="number"
+              min={0}
+              max={refundable}
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-refund-amount"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reasonCode} onValueChange={(value) => setReasonCode(value as RefundReasonCode)}>
+              <SelectTrigger data-testid="select-refund-reason">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REFUND_REASON_LABELS) as RefundReasonCode[]).map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {REFUND_REASON_LABELS[code]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Dispute</Label>
+            <Select value={disputeId} onValueChange={setDisputeId}>
+              <SelectTrigger data-testid="select-refund-dispute">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not linked to a dispute</SelectItem>
+                {linkableDisputes.map((dispute) => (
+                  <SelectItem key={dispute._id} value={dispute._id}>
+                    {dispute.reason}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {linked && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="refund-resolve-dispute"
+                  checked={resolveDispute}
+                  onCheckedChange={(checked) => setResolveDispute(checked === true)}
+                  data-testid="checkbox-resolve-dispute"
+                />
+                <Label htmlFor="refund-resolve-dispute">Mark the dispute resolved</Label>
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="refund-note">Note</Label>
+            <Textarea
+              id="refund-note"
+              placeholder="For the payment's refund history (optional)"
+              maxLength={500}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              data-testid="input-refund-note"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => refundMutation.mutate()}
+            disabled={
+              !amountValid || (reasonCode === "dispute" && !linked) || refundMutation.isPending
+            }
+            data-testid="button-confirm-refund"
+          >
+            {refundMutation.isPending ? "Refunding..." : `Refund ${amountValid ? rupees(Number(amount)) : ""}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Cancellation and no-show refunds Razorpay did not take. They are retried
+// automatically until they fail too often; either way an admin can retry now.
+function PendingRefunds() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: refunds = [] } = useQuery<PendingRefund[]>({ queryKey: PENDING_REFUNDS_QUERY_KEY });
+
+  const retryMutation = useMutation({
+    mutationFn: async (appointmentId: string) => {
+      const res = await apiRequest("POST", `/api/admin/appointments/${appointmentId}/refund/retry`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PENDING_REFUNDS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: PAYMENTS_QUERY_KEY });
+      toast({ title: "Refund Issued", description: "The patient has been notified." });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: PENDING_REFUNDS_QUERY_KEY });
+      toast({ title: "Refund failed again", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (refunds.length === 0) return null;
+
+  return (
+    <Card className="border-destructive/50" data-testid="admin-pending-refunds">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-destructive" />
+          Refunds Needing Attention
+        </CardTitle>
+        <CardDescription>
+          These patients are owed a refund Razorpay has not accepted yet.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {refunds.map((refund) => (
+          <div
+            key={refund.appointmentId}
+            className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3 text-sm"
+            data-testid={`pending-refund-${refund.appointmentId}`}
+          >
+            <div>
+              <p className="font-medium">
+                {rupees(refund.pendingRefund.amount)} to {refund.patientName}
+              </p>
+              <p className="text-muted-foreground">
+                {REFUND_REASON_LABELS[refund.pendingRefund.reasonCode]} · {refund.doctorName} ·{" "}
+                {new Date(refund.appointmentDate).toLocaleDateString()}
+              </p>
+              <p className="text-destructive">
+                {refund.pendingRefund.attempts} attempt(s), last {new Date(refund.pendingRefund.lastAttemptAt).toLocaleString()}:{" "}
+                {refund.pendingRefund.lastError}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant={refund.pendingRefund.status === "failed" ? "destructive" : "outline"}>
+                {refund.pendingRefund.status === "failed" ? "Gave up" : "Retrying"}
+              </Badge>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={retryMutation.isPending}
+                onClick={() => retryMutation.mutate(refund.appointmentId)}
+                data-testid={`button-retry-refund-${refund.appointmentId}`}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Retry now
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Recent payments with their refund history; full or partial refunds can be
+// issued from here and linked to a dispute.
+export default function AdminPayments() {
+  const [refunding, setRefunding] = useState<AdminPayment | null>(null);
+
+  const { data: payments = [], isLoading } = useQuery<AdminPayment[]>({ queryKey: PAYMENTS_QUERY_KEY });
+  const { data: disputes = [] } = useQuery<Dispute[]>({ queryKey: DISPUTES_QUERY_KEY });
+
+  return (
+    <div className="space-y-6">
+      <PendingRefunds />
+      <Card data-testid="admin-payments">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CreditCard className="w-5 h-5" />
+            Recent Payments
+          </CardTitle>
+          <CardDescription>
+            Refunds go back through Razorpay to the patient's original payment method.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading payments...</p>}
+          {!isLoading && payments.length === 0 && (
+            <p className="text-sm text-muted-foreground">No payments yet.</p>
+          )}
+          {payments.map((payment) => (
+            <div key={payment._id} className="rounded-lg border p-3 space-y-2 text-sm" data-testid={`payment-${payment._id}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium">
+                    {payment.patientName} → {payment.doctorName}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {new Date(payment.createdAt).toLocaleString()}
+                    {payment.seriesId && " · Follow-up plan"}
+                    {payment.razorpayPaymentId && ` · ${payment.razorpayPaymentId}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{rupees(payment.amount)}</span>
+                  <Badge variant={payment.status === "completed" ? "default" : "secondary"}>
+                    {PAYMENT_STATUS_LABELS[payment.status]}
+                  </Badge>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={refundableOf(payment) <= 0}
+                    onClick={() => setRefunding(payment)}
+                    data-testid={`button-refund-${payment._id}`}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Refund
+                  </Button>
+                </div>
+              </div>
+              {payment.refunds.length > 0 && (
+                <div className="space-y-1 border-t pt-2">
+                  {payment.refunds.map((refund) => (
+                    <div key={refund.razorpayRefundId} className="flex flex-wrap justify-between gap-2 text-muted-foreground">
+                      <span>
+                        {new Date(refund.createdAt).toLocaleDateString()} · {REFUND_REASON_LABELS[refund.reasonCode]}
+                        {refund.note && ` · ${refund.note}`}
+                        {refund.disputeId && " · Dispute"}
+                        {` · ${REFUND_SOURCE_LABELS[refund.source]}`}
+                      </span>
+                      <span className="font-medium text-foreground">−{rupees(refund.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+
+        {refunding && (
+          <RefundDialog payment={refunding} disputes={disputes} onOpenChange={(open) => !open && setRefunding(null)} />
+        )}
+      </Card>
+    </div>
+  );
+}
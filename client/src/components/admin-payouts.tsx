@@ -0,0 +1,392 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, Landmark, Layers, Send, Wallet } from "lucide-react";
+
+type BatchStatus = "open" | "exported" | "submitted" | "closed";
+type PayoutStatus = "pending" | "processing" | "processed" | "failed";
+
+interface DoctorBalance {
+  doctorId: string;
+  name: string;
+  email: string;
+  fundAccountId?: string;
+  earned: number;
+  clawedBack: number;
+  pending: number;
+  inSettlement: number;
+  settled: number;
+}
+
+interface SettlementBatch {
+  _id: string;
+  periodStart: string;
+  periodEnd: string;
+  status: BatchStatus;
+  payoutCount: number;
+  totalAmount: number;
+  provider?: string;
+  exportedAt?: string;
+  submittedAt?: string;
+  createdAt: string;
+}
+
+interface BatchPayout {
+  _id: string;
+  doctorName: string;
+  doctorEmail?: string;
+  amount: number;
+  entryCount: number;
+  fundAccountId?: string;
+  status: PayoutStatus;
+  reference?: string;
+  failureReason?: string;
+}
+
+const BALANCES_QUERY_KEY = ["/api/admin/payouts/balances"];
+const BATCHES_QUERY_KEY = ["/api/admin/payouts/batches"];
+
+const PAYOUT_STATUS_VARIANTS: Record<PayoutStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  pending: "outline",
+  processing: "secondary",
+  processed: "default",
+  failed: "destructive",
+};
+
+// apiRequest errors look like "400: {json body}"
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+  } catch {
+    return error.message;
+  }
+};
+
+const rupees = (amount: number) => `₹${amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+function BatchDetails({ batchId }: { batchId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [references, setReferences] = useState<Record<string, string>>({});
+
+  const detailsKey = [`/api/admin/payouts/batches/${batchId}`];
+  const { data: batch, isLoading } = useQuery<SettlementBatch & { payouts: BatchPayout[] }>({
+    queryKey: detailsKey,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: detailsKey });
+    queryClient.invalidateQueries({ queryKey: BATCHES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: BALANCES_QUERY_KEY });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/payouts/batches/${batchId}/submit`);
+      return res.json();
+    },
+    onSuccess: (counts) => {
+      refresh();
+      toast({
+        title: "Batch Submitted",
+        description: `${counts.processed} paid, ${counts.sent} in progress, ${counts.failed} failed, ${counts.retry} to retry, ${counts.noFundAccount} without a fund account.`,
+      });
+    },
+    onError: (error: Error) =>
+      toast({ title: "Could not submit batch", description: errorMessage(error), variant: "destructive" }),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ payoutId, status }: { payoutId: string; status: "processed" | "failed" }) => {
+      const note = references[payoutId]?.trim();
+      const res = await apiRequest("POST", `/api/admin/payouts/${payoutId}/status`, {
+        status,
+        ...(note && (status === "processed" ? { reference: note } : { reason: note })),
+      });
+      return res.json();
+    },
+    onSuccess: (_payout, { status }) => {
+      refresh();
+      toast({
+        title: status === "processed" ? "Payout Processed" : "Payout Failed",
+        description:
+          status === "processed"
+            ? "The doctor's balance has been settled."
+            : "The amount goes back to the doctor's pending balance for the next batch.",
+      });
+    },
+    onError: (error: Error) =>
+      toast({ title: "Could not update payout", description: errorMessage(error), variant: "destructive" }),
+  });
+
+  if (isLoading || !batch) {
+    return <p className="text-sm text-muted-foreground">Loading batch...</p>;
+  }
+
+  const hasPending = batch.payouts.some((payout) => payout.status === "pending");
+
+  return (
+    <div className="space-y-3 border-t pt-3" data-testid={`batch-details-${batchId}`}>
+      {/* A batch is paid by bank upload or through the provider, not both */}
+      <div className="flex flex-wrap gap-2">
+        {!batch.submittedAt && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/admin/payouts/batches/${batchId}/export`} data-testid={`button-export-batch-${batchId}`}>
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+        )}
+        <Button
+          size="sm"
+          disabled={!hasPending || !!batch.exportedAt || submitMutation.isPending}
+          onClick={() => submitMutation.mutate()}
+          data-testid={`button-submit-batch-${batchId}`}
+        >
+          <Send className="w-4 h-4 mr-2" />
+          {submitMutation.isPending ? "Submitting..." : "Pay via Provider"}
+        </Button>
+      </div>
+
+      {batch.payouts.map((payout) => {
+        const open = payout.status === "pending" || payout.status === "processing";
+        return (
+          <div key={payout._id} className="rounded-lg border p-3 text-sm space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="font-medium">{payout.doctorName}</p>
+                <p className="text-muted-foreground">
+                  {payout.entryCount} ledger entr{payout.entryCount === 1 ? "y" : "ies"}
+                  {payout.fundAccountId ? ` · ${payout.fundAccountId}` : " · no fund account"}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">{rupees(payout.amount)}</span>
+                <Badge variant={PAYOUT_STATUS_VARIANTS[payout.status]}>{payout.status}</Badge>
+              </div>
+            </div>
+            {payout.reference && <p className="text-muted-foreground">Reference: {payout.reference}</p>}
+            {payout.failureReason && <p className="text-destructive">{payout.failureReason}</p>}
+            {open && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  className="w-64"
+                  placeholder="Bank reference or failure reason"
+                  value={references[payout._id] ?? ""}
+                  onChange={(e) => setReferences((current) => ({ ...current, [payout._id]: e.target.value }))}
+                  data-testid={`input-payout-reference-${payout._id}`}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!references[payout._id]?.trim() || statusMutation.isPending}
+                  onClick={() => statusMutation.mutate({ payoutId: payout._id, status: "processed" })}
+                  data-testid={`button-payout-processed-${payout._id}`}
+                >
+                  Mark Processed
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={statusMutation.isPending}
+                  onClick={() => statusMutation.mutate({ payoutId: payout._id, status: "failed" })}
+                  data-testid={`button-payout-failed-${payout._id}`}
+                >
+                  Mark Failed
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Doctor balances and settlement batches: create a batch for a period, then
+// export it for the bank or pay it through the payout provider.
+export default function AdminPayouts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [periodStart, setPeriodStart] = useState("");
+  const [periodEnd, setPeriodEnd] = useState("");
+  const [openBatchId, setOpenBatchId] = useState<string | null>(null);
+
+  const { data: balances = [], isLoading: balancesLoading } = useQuery<DoctorBalance[]>({
+    queryKey: BALANCES_QUERY_KEY,
+  });
+  const { data: batches = [] } = useQuery<SettlementBatch[]>({ queryKey: BATCHES_QUERY_KEY });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      // The end date is inclusive
+      const end = new Date(periodEnd);
+      end.setDate(end.getDate() + 1);
+      const res = await apiRequest("POST", "/api/admin/payouts/batches", {
+        periodStart: new Date(periodStart).toISOString(),
+        periodEnd: new Date(Math.min(end.getTime(), Date.now())).toISOString(),
+      });
+      return res.json() as Promise<SettlementBatch>;
+    },
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: BATCHES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: BALANCES_QUERY_KEY });
+      setOpenBatchId(batch._id);
+      toast({
+        title: "Settlement Batch Created",
+        description: `${batch.payoutCount} payout(s) totalling ${rupees(batch.totalAmount)}.`,
+      });
+    },
+    onError: (error: Error) =>
+      toast({ title: "Could not create batch", description: errorMessage(error), variant: "destructive" }),
+  });
+
+  const totalPending = balances.reduce((sum, balance) => sum + balance.pending, 0);
+
+  return (
+    <div className="space-y-6" data-testid="admin-payouts">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Doctor Balances
+          </CardTitle>
+          <CardDescription>
+            {rupees(totalPending)} earned and not yet in a settlement batch. Refunds claw back the doctor's share.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {balancesLoading ? (
+            <p className="text-sm text-muted-foreground">Loading balances...</p>
+          ) : balances.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No doctor has earned anything yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Doctor</th>
+                    <th className="py-2 pr-4 font-medium text-right">Earned</th>
+                    <th className="py-2 pr-4 font-medium text-right">Clawed back</th>
+                    <th className="py-2 pr-4 font-medium text-right">Pending</th>
+                    <th className="py-2 pr-4 font-medium text-right">In settlement</th>
+                    <th className="py-2 font-medium text-right">Settled</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {balances.map((balance) => (
+                    <tr key={balance.doctorId} className="border-b last:border-0" data-testid={`balance-${balance.doctorId}`}>
+                      <td className="py-2 pr-4">
+                        <p className="font-medium">{balance.name}</p>
+                        {!balance.fundAccountId && (
+                          <p className="text-xs text-muted-foreground">No fund account</p>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right">{rupees(balance.earned)}</td>
+                      <td className="py-2 pr-4 text-right">{rupees(balance.clawedBack)}</td>
+                      <td className="py-2 pr-4 text-right font-semibold">{rupees(balance.pending)}</td>
+                      <td className="py-2 pr-4 text-right">{rupees(balance.inSettlement)}</td>
+                      <td className="py-2 text-right">{rupees(balance.settled)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5" />
+            New Settlement Batch
+          </CardTitle>
+          <CardDescription>
+            Groups each doctor's unsettled earnings and refunds from the period into one payout.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="period-start">From</Label>
+            <Input
+              id="period-start"
+              type="date"
+              value={periodStart}
+              onChange={(e) => setPeriodStart(e.target.value)}
+              data-testid="input-period-start"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="period-end">To</Label>
+            <Input
+              id="period-end"
+              type="date"
+              value={periodEnd}
+              onChange={(e) => setPeriodEnd(e.target.value)}
+              data-testid="input-period-end"
+            />
+          </div>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!periodStart || !periodEnd || createMutation.isPending}
+            data-testid="button-create-batch"
+          >
+            {createMutation.isPending ? "Creating..." : "Create Batch"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Landmark className="w-5 h-5" />
+            Settlement Batches
+          </CardTitle>
+          <CardDescription>
+            Export a batch for a bank upload and mark each payout with the bank's reference, or pay it through the
+            payout provider. Failed payouts go back into the doctor's pending balance.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {batches.length === 0 && <p className="text-sm text-muted-foreground">No settlement batches yet.</p>}
+          {batches.map((batch) => (
+            <div key={batch._id} className="rounded-lg border p-3 space-y-3" data-testid={`batch-${batch._id}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="text-sm">
+                  <p className="font-medium">
+                    {formatDate(batch.periodStart)} – {formatDate(batch.periodEnd)}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {batch.payoutCount} payout(s) · {rupees(batch.totalAmount)}
+                    {batch.provider && ` · via ${batch.provider}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={batch.status === "closed" ? "default" : "outline"}>{batch.status}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setOpenBatchId(openBatchId === batch._id ? null : batch._id)}
+                    data-testid={`button-toggle-batch-${batch._id}`}
+                  >
+                    {openBatchId === batch._id ? "Hide" : "Details"}
+                  </Button>
+                </div>
+              </div>
+              {openBatchId === batch._id && <BatchDetails batchId={batch._id} />}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,526 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { History, Percent, Plus, Receipt, Trash2, UserCog } from "lucide-react";
+
+type FeeMode = "surcharge" | "deduction";
+type DoctorPlan = "basic" | "plus";
+type TaxBase = "platform_fee" | "consultation_fee";
+
+interface PricingConfig {
+  _id?: string;
+  version: number;
+  defaultRate: number;
+  feeMode: FeeMode;
+  planRates: { plan: DoctorPlan; rate: number; feeMode?: FeeMode }[];
+  doctorRates: { doctorId: string; rate: number; feeMode?: FeeMode }[];
+  taxLines: { label: string; rate: number; base: TaxBase }[];
+  note?: string;
+  createdBy?: string;
+  createdAt?: string;
+}
+
+interface PricingDoctor {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  profile: { plan?: DoctorPlan } | null;
+}
+
+// Rates are edited as text so a field can be cleared while typing
+interface RateRow {
+  rate: string;
+  feeMode: FeeMode | "inherit";
+}
+
+const PRICING_QUERY_KEY = ["/api/admin/pricing"];
+const DOCTORS_QUERY_KEY = ["/api/admin/doctors"];
+
+const PLANS: { plan: DoctorPlan; label: string }[] = [
+  { plan: "basic", label: "Basic" },
+  { plan: "plus", label: "Plus" },
+];
+
+const FEE_MODE_LABELS: Record<FeeMode, string> = {
+  surcharge: "Added to the patient's bill",
+  deduction: "Deducted from the doctor's share",
+};
+
+const TAX_BASE_LABELS: Record<TaxBase, string> = {
+  platform_fee: "On the platform fee",
+  consultation_fee: "On the consultation fee",
+};
+
+// apiRequest errors look like "400: {json body}"
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+  } catch {
+    return error.message;
+  }
+};
+
+const toRow = (rule?: { rate: number; feeMode?: FeeMode }): RateRow => ({
+  rate: rule ? String(rule.rate) : "",
+  feeMode: rule?.feeMode ?? "inherit",
+});
+
+const fromRow = (row: RateRow) => ({
+  rate: Number(row.rate),
+  ...(row.feeMode !== "inherit" && { feeMode: row.feeMode }),
+});
+
+const describeRule = (rule: { rate: number; feeMode?: FeeMode }, fallback: FeeMode) =>
+  `${rule.rate}% ${(rule.feeMode ?? fallback) === "surcharge" ? "surcharge" : "deduction"}`;
+
+function FeeModeSelect({
+  value,
+  onChange,
+  allowInherit,
+  testId,
+}: {
+  value: FeeMode | "inherit";
+  onChange: (value: FeeMode | "inherit") => void;
+  allowInherit?: boolean;
+  testId: string;
+}) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as FeeMode | "inherit")}>
+      <SelectTrigger className="w-64" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {allowInherit && <SelectItem value="inherit">Same as default</SelectItem>}
+        <SelectItem value="surcharge">{FEE_MODE_LABELS.surcharge}</SelectItem>
+        <SelectItem value="deduction">{FEE_MODE_LABELS.deduction}</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Platform fee rates, plan and per-doctor overrides, taxes and doctor plans.
+// Saving creates a new pricing version that applies to new orders.
+export default function AdminPricing() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: doctors = [] } = useQuery<PricingDoctor[]>({
+    queryKey: DOCTORS_QUERY_KEY,
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/doctors");
+      return res.json();
+    },
+  });
+
+  const { data, isLoading } = useQuery<{ active: PricingConfig; history: PricingConfig[] }>({
+    queryKey: PRICING_QUERY_KEY,
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/pricing");
+      return res.json();
+    },
+  });
+
+  const [defaultRate, setDefaultRate] = useState("");
+  const [feeMode, setFeeMode] = useState<FeeMode>("surcharge");
+  const [planRates, setPlanRates] = useState<Record<DoctorPlan, RateRow>>({
+    basic: toRow(),
+    plus: toRow(),
+  });
+  const [doctorRates, setDoctorRates] = useState<(RateRow & { doctorId: string })[]>([]);
+  const [taxLines, setTaxLines] = useState<{ label: string; rate: string; base: TaxBase }[]>([]);
+  const [note, setNote] = useState("");
+  const [newDoctorId, setNewDoctorId] = useState("");
+
+  // Start the form from the pricing in force
+  useEffect(() => {
+    if (!data) return;
+    const { active } = data;
+    setDefaultRate(String(active.defaultRate));
+    setFeeMode(active.feeMode);
+    setPlanRates({
+      basic: toRow(active.planRates.find((entry) => entry.plan === "basic")),
+      plus: toRow(active.planRates.find((entry) => entry.plan === "plus")),
+    });
+    setDoctorRates(active.doctorRates.map((entry) => ({ doctorId: entry.doctorId, ...toRow(entry) })));
+    setTaxLines(active.taxLines.map((line) => ({ ...line, rate: String(line.rate) })));
+    setNote("");
+  }, [data]);
+
+  const doctorName = (doctorId: string) => {
+    const doctor = doctors.find((d) => d._id === doctorId);
+    return doctor ? `Dr. ${doctor.firstName} ${doctor.lastName}` : "Unknown doctor";
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/admin/pricing", {
+        defaultRate: Number(defaultRate),
+        feeMode,
+        // A plan without a rate uses the default
+        planRates: PLANS.filter(({ plan }) => planRates[plan].rate !== "").map(({ plan }) => ({
+          plan,
+          ...fromRow(planRates[plan]),
+        })),
+        doctorRates: doctorRates
+          .filter((row) => row.rate !== "")
+          .map((row) => ({ doctorId: row.doctorId, ...fromRow(row) })),
+        taxLines: taxLines.map((line) => ({ ...line, rate: Number(line.rate) })),
+        ...(note.trim() && { note: note.trim() }),
+      });
+      return res.json() as Promise<PricingConfig>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: PRICING_QUERY_KEY });
+      toast({
+        title: "Pricing Saved",
+        description: `Version ${saved.version} applies to payments started from now on.`,
+      });
+    },
+    onError: (error: Error) =>
+      toast({ title: "Could not save pricing", description: errorMessage(error), variant: "destructive" }),
+  });
+
+  const planMutation = useMutation({
+    mutationFn: async ({ doctorId, plan }: { doctorId: string; plan: DoctorPlan }) => {
+      const res = await apiRequest("PUT", `/api/admin/doctors/${doctorId}/plan`, { plan });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: DOCTORS_QUERY_KEY });
+      toast({ title: "Plan Updated", description: "The new plan applies to the doctor's next payments." });
+    },
+    onError: (error: Error) =>
+      toast({ title: "Could not change plan", description: errorMessage(error), variant: "destructive" }),
+  });
+
+  if (isLoading || !data) {
+    return <p className="text-sm text-muted-foreground">Loading pricing...</p>;
+  }
+
+  const availableDoctors = doctors.filter((doctor) => !doctorRates.some((row) => row.doctorId === doctor._id));
+
+  return (
+    <div className="space-y-6" data-testid="admin-pricing">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="w-5 h-5" />
+            Platform Fee
+          </CardTitle>
+          <CardDescription>
+            Version {data.active.version || "default"} is in force. A doctor's own rate wins over their plan's rate,
+            which wins over the default.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="default-rate">Default rate (%)</Label>
+              <Input
+                id="default-rate"
+                type="number"
+                min={0}
+                max={100}
+                step="0.5"
+                className="w-32"
+                value={defaultRate}
+                onChange={(e) => setDefaultRate(e.target.value)}
+                data-testid="input-default-rate"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Charged as</Label>
+              <FeeModeSelect
+                value={feeMode}
+                onChange={(value) => setFeeMode(value as FeeMode)}
+                testId="select-fee-mode"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Plan rates</Label>
+            {PLANS.map(({ plan, label }) => (
+              <div key={plan} className="flex flex-wrap items-center gap-4">
+                <span className="w-16 text-sm font-medium">{label}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.5"
+                  className="w-32"
+                  placeholder="Default"
+                  value={planRates[plan].rate}
+                  onChange={(e) =>
+                    setPlanRates((current) => ({ ...current, [plan]: { ...current[plan], rate: e.target.value } }))
+                  }
+                  data-testid={`input-plan-rate-${plan}`}
+                />
+                <FeeModeSelect
+                  allowInherit
+                  value={planRates[plan].feeMode}
+                  onChange={(value) =>
+                    setPlanRates((current) => ({ ...current, [plan]: { ...current[plan], feeMode: value } }))
+                  }
+                  testId={`select-plan-fee-mode-${plan}`}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <Label>Doctor rates</Label>
+            {doctorRates.length === 0 && (
+              <p className="text-sm text-muted-foreground">No doctor has a rate of their own.</p>
+            )}
+            {doctorRates.map((row, index) => (
+              <div key={row.doctorId} className="flex flex-wrap items-center gap-4">
+                <span className="w-48 text-sm font-medium truncate">{doctorName(row.doctorId)}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.5"
+                  className="w-32"
+                  value={row.rate}
+                  onChange={(e) =>
+                    setDoctorRates((rows) =>
+                      rows.map((r, i) => (i === index ? { ...r, rate: e.target.value } : r))
+                    )
+                  }
+                  data-testid={`input-doctor-rate-${row.doctorId}`}
+                />
+                <FeeModeSelect
+                  allowInherit
+                  value={row.feeMode}
+                  onChange={(value) =>
+                    setDoctorRates((rows) => rows.map((r, i) => (i === index ? { ...r, feeMode: value } : r)))
+                  }
+                  testId={`select-doctor-fee-mode-${row.doctorId}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDoctorRates((rows) => rows.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-doctor-rate-${row.doctorId}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <Select value={newDoctorId} onValueChange={setNewDoctorId}>
+                <SelectTrigger className="w-64" data-testid="select-new-doctor-rate">
+                  <SelectValue placeholder="Choose a doctor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableDoctors.map((doctor) => (
+                    <SelectItem key={doctor._id} value={doctor._id}>
+                      Dr. {doctor.firstName} {doctor.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                disabled={!newDoctorId}
+                onClick={() => {
+                  setDoctorRates((rows) => [...rows, { doctorId: newDoctorId, rate: defaultRate, feeMode: "inherit" }]);
+                  setNewDoctorId("");
+                }}
+                data-testid="button-add-doctor-rate"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add rate
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Receipt className="w-5 h-5" />
+            Taxes
+          </CardTitle>
+          <CardDescription>
+            Tax on the platform fee is paid by whoever pays the fee. Tax on the consultation fee is added to the
+            patient's bill.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {taxLines.map((line, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-4">
+              <Input
+                className="w-32"
+                placeholder="GST"
+                value={line.label}
+                onChange={(e) =>
+                  setTaxLines((lines) => lines.map((l, i) => (i === index ? { ...l, label: e.target.value } : l)))
+                }
+                data-testid={`input-tax-label-${index}`}
+              />
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step="0.5"
+                className="w-24"
+                value={line.rate}
+                onChange={(e) =>
+                  setTaxLines((lines) => lines.map((l, i) => (i === index ? { ...l, rate: e.target.value } : l)))
+                }
+                data-testid={`input-tax-rate-${index}`}
+              />
+              <Select
+                value={line.base}
+                onValueChange={(base) =>
+                  setTaxLines((lines) => lines.map((l, i) => (i === index ? { ...l, base: base as TaxBase } : l)))
+                }
+              >
+                <SelectTrigger className="w-56" data-testid={`select-tax-base-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="platform_fee">{TAX_BASE_LABELS.platform_fee}</SelectItem>
+                  <SelectItem value="consultation_fee">{TAX_BASE_LABELS.consultation_fee}</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setTaxLines((lines) => lines.filter((_, i) => i !== index))}
+                data-testid={`button-remove-tax-${index}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            disabled={taxLines.length >= 5}
+            onClick={() => setTaxLines((lines) => [...lines, { label: "GST", rate: "18", base: "platform_fee" }])}
+            data-testid="button-add-tax"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add tax line
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <Input
+          className="w-80"
+          placeholder="What changed (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          data-testid="input-pricing-note"
+        />
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || defaultRate === ""}
+          data-testid="button-save-pricing"
+        >
+          {saveMutation.isPending ? "Saving..." : "Save as New Version"}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserCog className="w-5 h-5" />
+            Doctor Plans
+          </CardTitle>
+          <CardDescription>Plan changes apply to the doctor's next payments.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {doctors.length === 0 && <p className="text-sm text-muted-foreground">No doctors yet.</p>}
+          {doctors.map((doctor) => (
+            <div key={doctor._id} className="flex items-center justify-between">
+              <span className="text-sm">
+                Dr. {doctor.firstName} {doctor.lastName}
+              </span>
+              <Select
+                value={doctor.profile?.plan ?? "basic"}
+                disabled={!doctor.profile || planMutation.isPending}
+                onValueChange={(plan) => planMutation.mutate({ doctorId: doctor._id, plan: plan as DoctorPlan })}
+              >
+                <SelectTrigger className="w-32" data-testid={`select-plan-${doctor._id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PLANS.map(({ plan, label }) => (
+                    <SelectItem key={plan} value={plan}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            History
+          </CardTitle>
+          <CardDescription>Every payment records the version it was priced with.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Pricing has not been configured yet; every payment uses the default rate.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {data.history.map((config) => (
+                <div key={config._id} className="border rounded-lg p-3 text-sm space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={config.version === data.active.version ? "default" : "outline"}>
+                      v{config.version}
+                    </Badge>
+                    <span className="text-muted-foreground">
+                      {config.createdAt && new Date(config.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <p>
+                    Default {describeRule({ rate: config.defaultRate }, config.feeMode)}
+                    {config.planRates.map(
+                      (entry) => `, ${entry.plan === "plus" ? "Plus" : "Basic"} ${describeRule(entry, config.feeMode)}`
+                    )}
+                    {config.doctorRates.length > 0 && `, ${config.doctorRates.length} doctor rate(s)`}
+                  </p>
+                  {config.taxLines.length > 0 && (
+                    <p className="text-muted-foreground">
+                      {config.taxLines
+                        .map((line) => `${line.label} ${line.rate}% ${TAX_BASE_LABELS[line.base].toLowerCase()}`)
+                        .join(", ")}
+                    </p>
+                  )}
+                  {config.note && <p className="italic text-muted-foreground">{config.note}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,12 +5,14 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea"; 
+import { Input } from "@/components/ui/input";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Clock, Video, User, CreditCard, Calendar as CalendarIcon } from "lucide-react";
-import { format, getISODay, addDays, startOfDay } from "date-fns"; 
+import { Clock, Video, User, CreditCard, Calendar as CalendarIcon, ListPlus } from "lucide-react";
+import { format, addDays, startOfDay } from "date-fns";
+import { localTimeZone } from "@shared/time-zone";
 
 interface Doctor {
   id: string;
@@ -29,20 +31,27 @@ interface AppointmentBookingModalProps {
   onOpenChange: (open: boolean) => void;
 }
 
-interface DoctorAvailability {
-    _id: string;
-    doctorId: string;
-    dayOfWeek: number;
-    startTime: string;
-    endTime: string;
-    isAvailable: boolean;
-    specificDate?: string;
+interface BookableSlot {
+  start: string;
+  end: string;
+  date: string;
+  time: string;
+}
+
+interface SlotsResponse {
+  doctorId: string;
+  timeZone: string; // Doctor's zone; slot.date/slot.time are expressed in it
+  from: string;
+  to: string;
+  durationMinutes: number;
+  slots: BookableSlot[];
 }
 
-const isSameDay = (date1: Date, date2: Date) => 
-  date1.getFullYear() === date2.getFullYear() &&
-  date1.getMonth() === date2.getMonth() &&
-  date1.getDate() === date2.getDate();
+// How far ahead patients can book
+const SLOT_HORIZON_DAYS = 90;
+
+// Slots arrive as UTC instants and are shown in the viewer's own zone
+const VIEWER_TIME_ZONE = localTimeZone();
 
 const isDoctorEligible = (doctor: Doctor | null) => {
   if (!doctor) {
@@ -72,6 +81,9 @@ export default function AppointmentBookingModal({ doctor, open, onOpenChange }:
   const [selectedTime, setSelectedTime] = useState("");
   const [appointmentType, setAppointmentType] = useState<"video" | "in-person">("video");
   const [notes, setNotes] = useState("");
+  const [showWaitlist, setShowWaitlist] = useState(false);
+  const [waitlistFrom, setWaitlistFrom] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [waitlistTo, setWaitlistTo] = useState(() => format(addDays(new Date(), 14), "yyyy-MM-dd"));
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
@@ -95,6 +107,7 @@ export default function AppointmentBookingModal({ doctor, open, onOpenChange }:
       setSelectedTime("");
       setAppointmentType("video");
       setNotes("");
+      setShowWaitlist(false);
     }
   }, [open]);
 
@@ -103,147 +116,39 @@ export default function AppointmentBookingModal({ doctor, open, onOpenChange }:
     appointmentDate: string;
     duration: number;
     type: "video" | "in-person";
-    consultationFee: number;
     notes: string;
   }
   
-  const { data: doctorAvailability = [], isLoading, error: availabilityError } = useQuery<DoctorAvailability[]>({
-    queryKey: ["/api/doctor/availability", doctorId, selectedDate], 
+  const { data: slotsData, isLoading } = useQuery<SlotsResponse>({
+    queryKey: ["/api/doctors", doctorId, "slots"],
     queryFn: async () => {
-      console.log("🔄 [FETCH AVAILABILITY - QUERY RUNNING]");
-      console.log("   isDoctorReady:", isDoctorReady);
-      console.log("   selectedDate:", selectedDate);
-      console.log("   doctorId:", doctorId);
-      
-      if (!isDoctorReady || !selectedDate) {
-        console.warn("⚠️  Early return - missing doctor or date");
-        return [];
-      }
-      
-      const dateKey = format(selectedDate, "yyyy-MM-dd");
-      const url = `/api/doctor/availability?doctorId=${doctorId}&date=${dateKey}`;
-      
-      console.log("📍 FULL URL:", url);
-      console.log("   Doctor ID value:", doctorId);
-      console.log("   Date:", format(selectedDate, "PPP"));
-      
-      try {
-        console.log("📡 Making API request to:", url);
-        const res = await apiRequest("GET", url);
-        
-        console.log("📥 Response received - Status:", res.status, res.statusText);
-        
-        if (!res.ok) {
-          console.error("❌ HTTP Error:", res.status);
-          const errorText = await res.text();
-          console.error("   Response body:", errorText);
-          throw new Error(`HTTP ${res.status}`);
-        }
-        
-        const data = await res.json();
-        console.log("✅ Raw response data:", data);
-        console.log("✅ Got slots:", data.length, "items");
-        
-        if (!Array.isArray(data)) {
-          console.warn("⚠️  Data is not an array:", typeof data);
-          return [];
-        }
-        
-        data.forEach((slot: DoctorAvailability, i: number) => {
-          console.log(`   [${i+1}] Day: ${slot.dayOfWeek}, Date: ${slot.specificDate ?? "recurring"}, Time: ${slot.startTime}-${slot.endTime}, Available: ${slot.isAvailable}`);
-        });
-        
-        return data;
-      } catch (err: any) {
-        console.error("❌ Fetch error:", err.message);
-        console.error("   Full error:", err);
-        throw err;
-      }
-    },
-    enabled: open && isDoctorReady && !!selectedDate, 
-  });
-  
-  useEffect(() => {
-    console.log("📊 useQuery state changed:");
-    console.log("   isLoading:", isLoading);
-    console.log("   data length:", doctorAvailability.length);
-    console.log("   error:", availabilityError);
-    console.log("   enabled:", open && isDoctorReady && !!selectedDate);
-  }, [isLoading, doctorAvailability, availabilityError, open, isDoctorReady, selectedDate]);
-
-  const { data: availabilitySummary = [] } = useQuery<DoctorAvailability[]>({
-    queryKey: ["/api/doctor/availability-summary", doctorId],
-    queryFn: async () => {
-      if (!isDoctorReady) return [];
-
-      const url = `/api/doctor/availability?doctorId=${doctorId}`;
-      try {
-        const res = await apiRequest("GET", url);
-        if (!res.ok) {
-          const errorText = await res.text();
-          throw new Error(errorText || "Failed to load availability");
-        }
-        const data = await res.json();
-        return Array.isArray(data) ? data : [];
-      } catch (error) {
-        console.error("❌ Failed to load availability summary", error);
-        return [];
-      }
+      const from = startOfDay(new Date());
+      const to = addDays(from, SLOT_HORIZON_DAYS);
+      const url = `/api/doctors/${doctorId}/slots?from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}`;
+
+      console.log("🔄 [FETCH BOOKABLE SLOTS]", url);
+      const res = await apiRequest("GET", url);
+      const data = await res.json();
+      console.log("✅ Got slots:", data.slots?.length ?? 0, "items");
+      return data;
     },
     enabled: open && isDoctorReady,
-    staleTime: 1000 * 60,
+    staleTime: 1000 * 30,
   });
 
-  const enabledDateKeySet = useMemo(() => {
-    const set = new Set<string>();
-    if (!availabilitySummary.length) return set;
-
-    const specificMap = new Map<string, { hasAvailable: boolean }>();
-    availabilitySummary
-      .filter((slot) => slot.specificDate)
-      .forEach((slot) => {
-        const key = slot.specificDate!;
-        const entry = specificMap.get(key) ?? { hasAvailable: false };
-        if (slot.isAvailable) {
-          entry.hasAvailable = true;
-        }
-        specificMap.set(key, entry);
-      });
-
-    const blockedSpecific = new Set<string>();
-    specificMap.forEach((value, key) => {
-      if (value.hasAvailable) {
-        set.add(key);
-      } else {
-        blockedSpecific.add(key);
-      }
+  // Bookable slots grouped by calendar day ("yyyy-MM-dd")
+  const slotsByDate = useMemo(() => {
+    const map = new Map<string, BookableSlot[]>();
+    (slotsData?.slots ?? []).forEach((slot) => {
+      const key = format(new Date(slot.start), "yyyy-MM-dd");
+      const list = map.get(key) ?? [];
+      list.push(slot);
+      map.set(key, list);
     });
+    return map;
+  }, [slotsData]);
 
-    const startDate = startOfDay(new Date());
-    const horizonDays = 90;
-    const recurringSlots = availabilitySummary.filter(
-      (slot) => !slot.specificDate && slot.isAvailable
-    );
-
-    for (let i = 0; i <= horizonDays; i++) {
-      const date = addDays(startDate, i);
-      const dateKey = format(date, "yyyy-MM-dd");
-      if (blockedSpecific.has(dateKey)) {
-        continue;
-      }
-
-      const isoDay = getISODay(date);
-      const hasRecurring = recurringSlots.some(
-        (slot) => slot.dayOfWeek === isoDay
-      );
-
-      if (hasRecurring) {
-        set.add(dateKey);
-      }
-    }
-
-    return set;
-  }, [availabilitySummary]);
+  const enabledDateKeySet = useMemo(() => new Set(slotsByDate.keys()), [slotsByDate]);
 
   const enabledDateObjects = useMemo(() => {
     return Array.from(enabledDateKeySet).map((key) => new Date(`${key}T00:00:00`));
@@ -260,50 +165,21 @@ export default function AppointmentBookingModal({ doctor, open, onOpenChange }:
       }
     }
   }, [open, enabledDateKeySet, selectedDate]);
-  
-  const timeSlots = useMemo(() => {
-    if (!selectedDate) return [];
-    if (!doctorAvailability.length) return [];
-
-    console.log("🔍 [FILTER TIME SLOTS]");
-    console.log("   Available slots:", doctorAvailability.length);
-
-    const activeSlots = doctorAvailability.filter((slot) => slot.isAvailable);
-
-    if (activeSlots.length === 0) {
-      console.warn("   ⚠️ No available slots for this day");
-      return [];
-    }
-
-    const generatedSlots: string[] = [];
-
-    const addSlotsFromRange = (start: string, end: string) => {
-      const [startHour, startMinute] = start.split(":").map(Number);
-      const [endHour, endMinute] = end.split(":").map(Number);
-
-      const startTotal = startHour * 60 + startMinute;
-      const endTotal = endHour * 60 + endMinute;
-
-      for (let minutes = startTotal; minutes < endTotal; minutes += 30) {
-        const hour = Math.floor(minutes / 60);
-        const minute = minutes % 60;
-        generatedSlots.push(`${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`);
-      }
-    };
-
-    activeSlots.forEach((slot) => addSlotsFromRange(slot.startTime, slot.endTime));
 
-    const deduped = Array.from(new Set(generatedSlots)).sort();
+  const slotsForSelectedDate = useMemo(() => {
+    if (!selectedDate) return [];
+    return slotsByDate.get(format(selectedDate, "yyyy-MM-dd")) ?? [];
+  }, [selectedDate, slotsByDate]);
 
-    if (isSameDay(selectedDate, new Date())) {
-      const currentTime = format(new Date(), "HH:mm");
-      const filtered = deduped.filter((time) => time > currentTime);
-      console.log("   Filtered past times (current:", currentTime + "), kept:", filtered.length);
-      return filtered;
-    }
+  const timeSlots = useMemo(
+    () => slotsForSelectedDate.map((slot) => format(new Date(slot.start), "HH:mm")),
+    [slotsForSelectedDate]
+  );
 
-    return deduped;
-  }, [selectedDate, doctorAvailability]);
+  const doctorTimeZone = slotsData?.timeZone;
+  const selectedSlot = slotsForSelectedDate.find(
+    (s) => format(new Date(s.start), "HH:mm") === selectedTime
+  );
   
   useEffect(() => {
     if (timeSlots.length > 0 && selectedTime === "") {
@@ -337,27 +213,12 @@ export default function AppointmentBookingModal({ doctor, open, onOpenChange }:
       const result = await res.json();
       console.log("✅ Booking successful!");
       
-      console.log("📢 [SENDING NOTIFICATION TO DOCTOR]");
-      try {
-        await apiRequest("POST", "/api/notifications", {
-          recipientId: appointmentData.doctorId,
-          type: "appointment_booked",
-          title: "New Appointment Booked",
-          message: `A new appointment has been scheduled for ${format(new Date(appointmentData.appointmentDate), "PPP 'at' p")}`,
-          appointmentId: result.id,
-          appointmentDate: appointmentData.appointmentDate,
-          appointmentType: appointmentData.type,
-        });
-        console.log("✅ Notification sent to doctor!");
-      } catch (notificationError) {
-        console.error("⚠️  Failed to send notification:", notificationError);
-      }
-      
       return result;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/doctors", doctorId, "slots"] });
       toast({
         title: "Appointment Booked",
         description: "Your appointment has been scheduled successfully.",
@@ -365,6 +226,31 @@ export default function AppointmentBookingModal({ doctor, open, onOpenChange }:
       onOpenChange(false);
     },
     onError: (error: Error) => {
+      // 409: someone else took the slot; refresh and suggest the next free times
+      if (error.message.startsWith("409")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/doctors", doctorId, "slots"] });
+        setSelectedTime("");
+
+        let alternatives: BookableSlot[] = [];
+        try {
+          alternatives = JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).alternatives ?? [];
+        } catch (e) {
+          console.warn("⚠️  Could not parse conflict alternatives");
+        }
+
+        toast({
+          title: "Slot No Longer Available",
+          description: alternatives.length
+            ? `Next available: ${alternatives
+                .slice(0, 3)
+                .map((slot) => format(new Date(slot.start), "PPP 'at' p"))
+                .join(", ")}`
+            : "Please pick another time.",
+          variant: "destructive",
+        });
+        return;
+      }
+
       toast({
         title: "Booking Failed",
         description: error.message,
@@ -373,6 +259,38 @@ export default function AppointmentBookingModal({ doctor, open, onOpenChange }:
     },
   });
 
+  // Fully booked doctors: queue for the next cancelled slot in a date range
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/waitlist", {
+        doctorId,
+        from: waitlistFrom,
+        to: waitlistTo,
+        notes,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+      toast({
+        title: "Added to Waitlist",
+        description: "We'll hold the next slot that opens up in your dates and notify you.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      let description = error.message;
+      try {
+        description = JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+      } catch {
+        // keep the raw message
+      }
+      toast({ title: "Could not join waitlist", description, variant: "destructive" });
+    },
+  });
+
+  const isFullyBooked = !isLoading && !!slotsData && enabledDateKeySet.size === 0;
+
   useEffect(() => {
     console.log("📋 [QUERY ENABLED STATE]");
     console.log("   open:", open);
@@ -413,16 +331,21 @@ export default function AppointmentBookingModal({ doctor, open, onOpenChange }:
       return;
     }
 
-    const appointmentDateTime = new Date(selectedDate);
-    const [hours, minutes] = selectedTime.split(':').map(Number);
-    appointmentDateTime.setHours(hours, minutes, 0, 0);
+    const slot = selectedSlot;
+    if (!slot) {
+      toast({
+        title: "Slot Unavailable",
+        description: "That time is no longer available. Please pick another slot.",
+        variant: "destructive",
+      });
+      return;
+    }
 
     const appointmentData: AppointmentData = {
       doctorId: doctorId!,
-      appointmentDate: appointmentDateTime.toISOString(),
+      appointmentDate: slot.start,
       duration: 30,
       type: appointmentType,
-      consultationFee: doctor.profile.consultationFee,
       notes: notes,
     };
 
@@ -517,9 +440,70 @@ export default function AppointmentBookingModal({ doctor, open, onOpenChange }:
                   )}
                 </SelectContent>
               </Select>
+              <p className="mt-1 text-xs text-muted-foreground">
+                Times shown in your time zone ({VIEWER_TIME_ZONE})
+                {doctorTimeZone && doctorTimeZone !== VIEWER_TIME_ZONE && selectedSlot
+                  ? ` · ${selectedSlot.time} for the doctor (${doctorTimeZone})`
+                  : ""}
+              </p>
             </div>
           </div>
 
+          {/* Waitlist */}
+          {isFullyBooked || showWaitlist ? (
+            <div className="p-4 rounded-lg border border-dashed space-y-3">
+              <div>
+                <p className="font-medium flex items-center">
+                  <ListPlus className="w-4 h-4 mr-2" />
+                  {isFullyBooked ? "No free slots right now" : "Join the waitlist"}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  If a booking between these dates is cancelled, the slot is held for you for a short time.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="waitlist-from">From</Label>
+                  <Input
+                    id="waitlist-from"
+                    type="date"
+                    value={waitlistFrom}
+                    min={format(new Date(), "yyyy-MM-dd")}
+                    onChange={(e) => setWaitlistFrom(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="waitlist-to">To</Label>
+                  <Input
+                    id="waitlist-to"
+                    type="date"
+                    value={waitlistTo}
+                    min={waitlistFrom}
+                    onChange={(e) => setWaitlistTo(e.target.value)}
+                  />
+                </div>
+              </div>
+              <Button
+                variant="secondary"
+                className="w-full"
+                onClick={() => joinWaitlistMutation.mutate()}
+                disabled={joinWaitlistMutation.isPending || !waitlistFrom || !waitlistTo}
+              >
+                {joinWaitlistMutation.isPending ? "Joining..." : "Join Waitlist"}
+              </Button>
+            </div>
+          ) : (
+            !isLoading && (
+              <button
+                type="button"
+                className="text-sm text-primary underline-offset-4 hover:underline"
+                onClick={() => setShowWaitlist(true)}
+              >
+                None of these times work? Join the waitlist
+              </button>
+            )
+          )}
+
           <div>
             <Label htmlFor="type">Appointment Type</Label>
             <Select value={appointmentType} onValueChange={(value: "video" | "in-person") => setAppointmentType(value)}>
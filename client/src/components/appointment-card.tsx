@@ -18,6 +18,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"; // 🖼️ Added Avatar Imports
+import type { Appointment } from "@/types/appointment";
 
 // ⭐ NEW INTERFACE: Structure for the enriched doctor data passed from the API
 interface DoctorDetails {
@@ -40,6 +41,9 @@ interface AppointmentCardProps {
     consultationFee: number;
     notes?: string;
     createdAt: string;
+    noShow?: Appointment["noShow"];
+    pendingRefund?: Appointment["pendingRefund"];
+    seriesIndex?: number;
   };
   userRole: "patient" | "doctor" | "admin";
   doctorName: string;
@@ -188,6 +192,9 @@ export default function AppointmentCard({
                 <Badge className={getStatusColor(appointment.status)}>
                   {appointment.status}
                 </Badge>
+                {appointment.seriesIndex && (
+                  <Badge variant="outline">Follow-up {appointment.seriesIndex}</Badge>
+                )}
               </div>
             </div>
           </div>
@@ -276,6 +283,30 @@ export default function AppointmentCard({
           </div>
         </div>
 
+        {appointment.status === "no-show" && appointment.noShow && (
+          <div
+            className="mt-4 p-3 rounded-lg border border-orange-500/20 bg-orange-500/10"
+            data-testid={`appointment-no-show-${appointment.id}`}
+          >
+            <p className="text-sm">
+              {appointment.noShow.absentParty === "patient"
+                ? userRole === "patient"
+                  ? "You didn't join this appointment."
+                  : "The patient didn't join this appointment."
+                : appointment.noShow.absentParty === "doctor"
+                  ? userRole === "doctor"
+                    ? "You didn't join this appointment."
+                    : "The doctor didn't join this appointment."
+                  : "Neither side joined this appointment."}{" "}
+              {appointment.pendingRefund
+                ? `Refund of ₹${appointment.pendingRefund.amount} is still being processed.`
+                : appointment.noShow.refundAmount > 0
+                ? `₹${appointment.noShow.refundAmount} refunded to the patient.`
+                : "No refund was issued."}
+            </p>
+          </div>
+        )}
+
         {appointment.notes && (
           <div className="mt-4 p-3 bg-muted/20 rounded-lg">
             <p
@@ -8,6 +8,8 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { DoctorScheduleButton } from "@/components/doctor-schedule-system";
+import { RescheduleAppointmentModal } from "@/components/reschedule-appointment-modal";
+import FollowUpPlanModal from "@/components/follow-up-plan-modal";
 import {
     Calendar,
     CheckCircle,
@@ -20,6 +22,8 @@ import {
     X as XIcon,
     Edit,
     Bell,
+    CalendarClock,
+    CalendarPlus,
 } from "lucide-react";
 import { format, isBefore, isAfter, subMinutes, addMinutes } from "date-fns";
 import { useState } from "react";
@@ -90,6 +94,8 @@ function AppointmentStatusManager({
     onJoinCall,
 }: AppointmentStatusManagerProps) {
     const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+    const [isRescheduleOpen, setIsRescheduleOpen] = useState(false);
+    const [isFollowUpOpen, setIsFollowUpOpen] = useState(false);
 
     const initialStatus = (appointment.status || "scheduled") as StatusKey;
     const [selectedStatus, setSelectedStatus] = useState<StatusKey>(initialStatus);
@@ -243,6 +249,9 @@ function AppointmentStatusManager({
 
     const isActionable = (appointment.status === "scheduled" || appointment.status === "confirmed");
 
+    // Follow-ups are planned from a visit that went ahead or is still coming up
+    const canPlanFollowUps = isActionable || appointment.status === "completed";
+
     const editableStatuses = (["scheduled", "completed", "cancelled", "no-show"] as StatusKey[]);
 
     // ✅ UPDATED: Handle Join Call with roomName
@@ -356,6 +365,11 @@ function AppointmentStatusManager({
                                 <Badge className={`${statusConfig[selectedStatus].color} border`}>
                                     {statusConfig[selectedStatus].label}
                                 </Badge>
+                                {appointment.seriesIndex && (
+                                    <Badge variant="outline" className="ml-1">
+                                        Follow-up {appointment.seriesIndex}
+                                    </Badge>
+                                )}
                             </div>
                         </div>
 
@@ -370,6 +384,26 @@ function AppointmentStatusManager({
                         </div>
                     </div>
 
+                    {appointment.status === "no-show" && appointment.noShow && (
+                        <div className="mb-4 p-3 rounded-lg border border-orange-500/20 bg-orange-500/10">
+                            <p className="text-xs font-semibold text-orange-600 mb-1">
+                                No-Show Outcome
+                            </p>
+                            <p className="text-sm">
+                                {appointment.noShow.absentParty === "patient"
+                                    ? "Patient did not join."
+                                    : appointment.noShow.absentParty === "doctor"
+                                      ? "You did not join."
+                                      : "Neither side joined."}{" "}
+                                {appointment.pendingRefund
+                                    ? `Refund of ₹${appointment.pendingRefund.amount} to the patient is still being processed.`
+                                    : appointment.noShow.refundAmount > 0
+                                    ? `₹${appointment.noShow.refundAmount} refunded to the patient.`
+                                    : "Fee retained, no refund issued."}
+                            </p>
+                        </div>
+                    )}
+
                     {appointment.notes && (
                         <div className="mb-4 p-3 bg-muted/50 rounded-lg border border-border">
                             <p className="text-xs font-semibold text-muted-foreground mb-1">
@@ -404,6 +438,30 @@ function AppointmentStatusManager({
                             />
                         )}
 
+                        {/* PROPOSE A NEW TIME TO THE PATIENT */}
+                        {userRole === "doctor" && isActionable && (
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setIsRescheduleOpen(true)}
+                            >
+                                <CalendarClock className="w-4 h-4 mr-2" />
+                                Reschedule
+                            </Button>
+                        )}
+
+                        {/* BOOK A SERIES OF FOLLOW-UP VISITS */}
+                        {userRole === "doctor" && canPlanFollowUps && (
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setIsFollowUpOpen(true)}
+                            >
+                                <CalendarPlus className="w-4 h-4 mr-2" />
+                                Plan Follow-ups
+                            </Button>
+                        )}
+
                         {/* MANAGE STATUS BUTTON */}
                         {userRole === "doctor" && (
                             <Button
@@ -422,6 +480,26 @@ function AppointmentStatusManager({
                 </CardContent>
             </Card>
 
+            {userRole === "doctor" && isActionable && (
+                <RescheduleAppointmentModal
+                    open={isRescheduleOpen}
+                    onOpenChange={setIsRescheduleOpen}
+                    appointmentId={appointment._id || appointment.id || ""}
+                    doctorId={appointment.doctorId || ""}
+                    currentDate={appointment.appointmentDate || ""}
+                />
+            )}
+
+            {userRole === "doctor" && canPlanFollowUps && (
+                <FollowUpPlanModal
+                    open={isFollowUpOpen}
+                    onOpenChange={setIsFollowUpOpen}
+                    appointmentId={appointment._id || appointment.id || ""}
+                    appointmentDate={appointment.appointmentDate || ""}
+                    type={appointment.type}
+                />
+            )}
+
             {/* EDIT DIALOG */}
             <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
                 <DialogContent className="max-w-2xl">
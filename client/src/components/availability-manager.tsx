@@ -13,6 +13,13 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Calendar as DayPickerCalendar } from "@/components/ui/calendar";
 import { Badge } from "@/components/ui/badge";
 import { eachDayOfInterval, endOfMonth, format, getISODay, isSameMonth, startOfDay, startOfMonth } from "date-fns";
+import {
+  addDaysToDateKey,
+  dayOfWeekForDateKey,
+  localTimeZone,
+  zonedDateKey,
+  zonedTimeToUtc,
+} from "@shared/time-zone";
 
 interface Availability {
   _id: string;
@@ -22,6 +29,7 @@ interface Availability {
   endTime: string;
   isAvailable: boolean;
   specificDate?: string;
+  timeZone?: string; // Doctor's zone; startTime/endTime are wall-clock in it
 }
 
 type CreateAvailabilityPayload = {
@@ -47,6 +55,32 @@ const getDayName = (dayIndex: number): string => {
   return day ? day.name : `Day ${dayIndex}`;
 };
 
+const VIEWER_TIME_ZONE = localTimeZone();
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Next calendar day (in the doctor's zone) a slot applies to
+const nextOccurrenceKey = (slot: Availability, timeZone: string) => {
+  if (slot.specificDate) return slot.specificDate;
+  const jsDay = slot.dayOfWeek % 7;
+  let key = zonedDateKey(new Date(), timeZone);
+  while (dayOfWeekForDateKey(key) !== jsDay) {
+    key = addDaysToDateKey(key, 1);
+  }
+  return key;
+};
+
+// "Tue 3:30 PM – 5:00 PM" in the viewer's zone for a slot written in the doctor's zone
+const viewerTimeLabel = (slot: Availability, timeZone: string) => {
+  const dateKey = nextOccurrenceKey(slot, timeZone);
+  const start = zonedTimeToUtc(dateKey, minutesOf(slot.startTime), timeZone);
+  const end = zonedTimeToUtc(dateKey, minutesOf(slot.endTime), timeZone);
+  return `${format(start, "EEE p")} – ${format(end, "p")}`;
+};
+
 export default function AvailabilityManager() {
   const [newAvailability, setNewAvailability] = useState({
     dayOfWeek: 1,
@@ -238,6 +272,31 @@ export default function AvailabilityManager() {
     updateAvailabilityMutation.mutate({ id, data: { [field]: value } });
   };
 
+  const doctorTimeZone = availability[0]?.timeZone;
+  const showViewerTimes = !!doctorTimeZone && doctorTimeZone !== VIEWER_TIME_ZONE;
+
+  const updateTimeZoneMutation = useMutation({
+    mutationFn: async (timeZone: string) => {
+      const res = await apiRequest("PUT", "/api/doctor/profile", { timeZone });
+      return res.json();
+    },
+    onSuccess: (_, timeZone) => {
+      queryClient.invalidateQueries({ queryKey: ALL_AVAILABILITY_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/doctor/profile"] });
+      toast({
+        title: "Time Zone Updated",
+        description: `Your availability is now read in ${timeZone}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
 const todayStart = startOfDay(new Date());
 
 const specificAvailabilityForMonth = useMemo(() => {
@@ -510,6 +569,24 @@ const monthOverview = useMemo(() => {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
+          {doctorTimeZone && (
+            <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border/60 bg-muted/20 p-3 text-sm">
+              <span className="text-muted-foreground">
+                Times are set in <span className="font-medium text-foreground">{doctorTimeZone}</span>
+                {showViewerTimes && <> · shown alongside your current zone ({VIEWER_TIME_ZONE})</>}
+              </span>
+              {showViewerTimes && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateTimeZoneMutation.mutate(VIEWER_TIME_ZONE)}
+                  disabled={updateTimeZoneMutation.isPending}
+                >
+                  Use {VIEWER_TIME_ZONE}
+                </Button>
+              )}
+            </div>
+          )}
           {availability.length === 0 ? (
             <div className="text-center py-12 text-muted-foreground">
               <Clock className="w-12 h-12 mx-auto mb-4 opacity-50" />
@@ -542,6 +619,11 @@ const monthOverview = useMemo(() => {
                               </Badge>
                               <span className="font-semibold text-sm">{displayDate}</span>
                               <span className="text-xs text-muted-foreground">One-time slot</span>
+                              {showViewerTimes && (
+                                <span className="text-xs text-muted-foreground">
+                                  Your time: {viewerTimeLabel(slot, doctorTimeZone!)}
+                                </span>
+                              )}
                             </div>
                             <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
                               <div className="flex items-center gap-2">
@@ -605,6 +687,11 @@ const monthOverview = useMemo(() => {
                           <div className="flex items-center gap-3">
                             <Badge variant="outline">{getDayName(slot.dayOfWeek)}</Badge>
                             <span className="text-xs text-muted-foreground">Repeats every week</span>
+                            {showViewerTimes && (
+                              <span className="text-xs text-muted-foreground">
+                                Your time: {viewerTimeLabel(slot, doctorTimeZone!)}
+                              </span>
+                            )}
                           </div>
                           <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
                             <div className="flex items-center gap-2">
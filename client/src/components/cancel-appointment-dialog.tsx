@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+interface CancellationPreview {
+  paid: boolean;
+  paidAmount: number;
+  refundAmount: number;
+  refundPercent: number;
+  rule: string;
+  tiers: { minHoursBefore: number; refundPercent: number }[];
+}
+
+interface CancelAppointmentDialogProps {
+  appointmentId: string | null;
+  // The appointment is a visit in a follow-up plan, so later visits can be cancelled too
+  inSeries?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (appointmentId: string, cancelSeries: boolean) => void;
+  isPending?: boolean;
+}
+
+// Confirms a cancellation after showing what the refund policy would return
+export default function CancelAppointmentDialog({
+  appointmentId,
+  inSeries,
+  onOpenChange,
+  onConfirm,
+  isPending,
+}: CancelAppointmentDialogProps) {
+  const [cancelSeries, setCancelSeries] = useState(false);
+
+  useEffect(() => {
+    setCancelSeries(false);
+  }, [appointmentId]);
+
+  const { data: preview, isLoading } = useQuery<CancellationPreview>({
+    queryKey: [`/api/appointments/${appointmentId}/cancellation-preview`],
+    enabled: !!appointmentId,
+    // The refund depends on how close the appointment is, so never reuse an old answer
+    staleTime: 0,
+  });
+
+  return (
+    <AlertDialog open={!!appointmentId} onOpenChange={onOpenChange}>
+      <AlertDialogContent data-testid="cancel-appointment-dialog">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel this appointment?</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-3">
+              {isLoading || !preview ? (
+                <p className="flex items-center">
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Checking the refund policy...
+                </p>
+              ) : preview.paid ? (
+                <>
+                  <p className="text-foreground font-medium" data-testid="text-refund-amount">
+                    {preview.refundAmount > 0
+                      ? `You will be refunded ₹${preview.refundAmount} of ₹${preview.paidAmount} (${preview.refundPercent}%).`
+                      : `The ₹${preview.paidAmount} you paid is not refundable.`}
+                  </p>
+                  <p>{preview.rule}.</p>
+                  <ul className="text-xs list-disc pl-4">
+                    {preview.tiers.map((tier) => (
+                      <li key={tier.minHoursBefore}>
+                        {tier.minHoursBefore > 0
+                          ? `${tier.minHoursBefore}h or more before: ${tier.refundPercent}% refund`
+                          : `Before the start: ${tier.refundPercent}% refund`}
+                      </li>
+                    ))}
+                    <li>After the start: no refund</li>
+                  </ul>
+                </>
+              ) : (
+                <p>{preview.rule}, so there is nothing to refund.</p>
+              )}
+              {inSeries && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="cancel-series"
+                    checked={cancelSeries}
+                    onCheckedChange={(checked) => setCancelSeries(checked === true)}
+                  />
+                  <Label htmlFor="cancel-series" className="text-foreground">
+                    Also cancel the later visits in this follow-up plan
+                  </Label>
+                </div>
+              )}
+              <p>This action cannot be undone.</p>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Keep Appointment</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={isPending || isLoading}
+            onClick={(event) => {
+              // Stay open until the cancellation goes through
+              event.preventDefault();
+              if (appointmentId) onConfirm(appointmentId, cancelSeries);
+            }}
+            data-testid="button-confirm-cancel"
+          >
+            {isPending ? "Cancelling..." : "Cancel Appointment"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
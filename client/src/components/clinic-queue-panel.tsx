@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CheckCircle, QrCode, UserCheck, Users } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface QueueVisit {
+  _id: string;
+  patientName: string;
+  appointmentDate: string;
+  checkedInAt?: string;
+  checkInMethod?: "qr" | "staff";
+  servingStartedAt?: string;
+}
+
+interface ClinicQueue {
+  timeZone: string;
+  averageConsultMinutes: number | null;
+  completedCount: number;
+  nowServing: QueueVisit | null;
+  waiting: (QueueVisit & { position: number; estimatedWaitMinutes: number })[];
+  expected: QueueVisit[];
+}
+
+const CLINIC_QUEUE_QUERY_KEY = ["/api/doctor/clinic-queue"];
+
+// apiRequest errors look like "409: {json body}"
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+  } catch {
+    return error.message;
+  }
+};
+
+// Doctor's view of today's in-person visits: now serving, next up and still to arrive
+export default function ClinicQueuePanel() {
+  const [passToken, setPassToken] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: queue } = useQuery<ClinicQueue>({
+    queryKey: CLINIC_QUEUE_QUERY_KEY,
+    refetchInterval: 30 * 1000,
+  });
+
+  const timeLabel = (instant: string) =>
+    new Date(instant).toLocaleTimeString("en-US", {
+      timeZone: queue?.timeZone,
+      timeStyle: "short",
+    });
+
+  const onError = (error: Error) =>
+    toast({ title: "Queue update failed", description: errorMessage(error), variant: "destructive" });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: CLINIC_QUEUE_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+  };
+
+  // A front-desk QR scanner types the pass token into the input and presses Enter
+  const scanMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const res = await apiRequest("POST", "/api/check-in", { token });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setPassToken("");
+      refresh();
+      toast({ title: "Checked In", description: `${data.patientName} is now in the queue.` });
+    },
+    onError,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async (appointmentId: string) => {
+      const res = await apiRequest("POST", `/api/appointments/${appointmentId}/check-in`);
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const queueMutation = useMutation({
+    mutationFn: async ({ appointmentId, action }: { appointmentId: string; action: "start" | "complete" }) => {
+      const res = await apiRequest("POST", `/api/doctor/clinic-queue/${appointmentId}/${action}`);
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const isBusy = checkInMutation.isPending || queueMutation.isPending;
+
+  return (
+    <div className="space-y-6" data-testid="clinic-queue-panel">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <QrCode className="w-5 h-5" />
+            Scan Check-in Pass
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (passToken.trim()) scanMutation.mutate(passToken.trim());
+            }}
+          >
+            <Input
+              value={passToken}
+              onChange={(e) => setPassToken(e.target.value)}
+              placeholder="Scan or paste the patient's pass"
+              data-testid="input-check-in-pass"
+            />
+            <Button type="submit" disabled={scanMutation.isPending || !passToken.trim()}>
+              Check In
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Today's Queue
+            </span>
+            <span className="text-sm font-normal text-muted-foreground">
+              {queue?.completedCount ?? 0} seen
+              {queue?.averageConsultMinutes ? ` · avg ${queue.averageConsultMinutes} min` : ""}
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div>
+            <p className="text-xs font-semibold text-muted-foreground mb-2">NOW SERVING</p>
+            {queue?.nowServing ? (
+              <div className="flex items-center justify-between rounded-lg border border-green-200 bg-green-50 p-3">
+                <div>
+                  <p className="font-medium">{queue.nowServing.patientName}</p>
+                  {queue.nowServing.servingStartedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      Started {formatDistanceToNow(new Date(queue.nowServing.servingStartedAt))} ago
+                    </p>
+                  )}
+                </div>
+                <Button
+                  size="sm"
+                  disabled={isBusy}
+                  onClick={() =>
+                    queueMutation.mutate({ appointmentId: queue.nowServing!._id, action: "complete" })
+                  }
+                >
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Finish Visit
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Nobody is being seen right now.</p>
+            )}
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold text-muted-foreground mb-2">NEXT UP</p>
+            {queue?.waiting.length ? (
+              <div className="space-y-2">
+                {queue.waiting.map((visit) => (
+                  <div key={visit._id} className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <p className="font-medium">
+                        {visit.position}. {visit.patientName}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Booked {timeLabel(visit.appointmentDate)} · arrived {timeLabel(visit.checkedInAt!)}
+                        {" · "}~{visit.estimatedWaitMinutes} min wait
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant={visit.position === 1 ? "default" : "outline"}
+                      disabled={isBusy || !!queue.nowServing}
+                      onClick={() => queueMutation.mutate({ appointmentId: visit._id, action: "start" })}
+                    >
+                      Call In
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No patients waiting.</p>
+            )}
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold text-muted-foreground mb-2">NOT ARRIVED</p>
+            {queue?.expected.length ? (
+              <div className="space-y-2">
+                {queue.expected.map((visit) => (
+                  <div key={visit._id} className="flex items-center justify-between rounded-lg border p-3">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{visit.patientName}</p>
+                      <Badge variant="secondary">{timeLabel(visit.appointmentDate)}</Badge>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isBusy}
+                      onClick={() => checkInMutation.mutate(visit._id)}
+                    >
+                      <UserCheck className="w-4 h-4 mr-2" />
+                      Check In
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Everyone booked for today has arrived.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Building2, Clock, MapPin } from "lucide-react";
+import { formatInTimeZone } from "@shared/time-zone";
+
+interface ClinicVisit {
+  _id: string;
+  doctorName: string;
+  clinicAddress?: string;
+  appointmentDate: string;
+  timeZone: string;
+  status: string;
+  checkedInAt?: string;
+  checkInOpensAt: string;
+  checkInToken?: string;
+  queue: { beingServed: boolean; position: number; estimatedWaitMinutes: number } | null;
+}
+
+// Patient's in-person visits for the coming day: check-in pass, then place in the queue
+export default function ClinicVisitPanel() {
+  const { data: visits = [] } = useQuery<ClinicVisit[]>({
+    queryKey: ["/api/patient/clinic-visits"],
+    // Queue position changes as the doctor works through it
+    refetchInterval: 30 * 1000,
+  });
+
+  if (visits.length === 0) return null;
+
+  return (
+    <Card data-testid="clinic-visit-panel">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="w-5 h-5" />
+          Clinic Visits
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {visits.map((visit) => (
+          <div key={visit._id} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">{visit.doctorName}</p>
+              <Badge variant={visit.checkedInAt ? "default" : "secondary"}>
+                {visit.queue?.beingServed ? "Your turn" : visit.checkedInAt ? "Checked in" : "Upcoming"}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground flex items-center">
+              <Clock className="w-3 h-3 mr-1" />
+              {formatInTimeZone(new Date(visit.appointmentDate), visit.timeZone)}
+            </p>
+            {visit.clinicAddress && (
+              <p className="text-xs text-muted-foreground flex items-center">
+                <MapPin className="w-3 h-3 mr-1" />
+                {visit.clinicAddress}
+              </p>
+            )}
+
+            {visit.queue?.beingServed ? (
+              <p className="text-sm font-medium text-green-700">The doctor is ready to see you.</p>
+            ) : visit.queue ? (
+              <p className="text-sm" data-testid={`queue-estimate-${visit._id}`}>
+                #{visit.queue.position} in the queue · about {visit.queue.estimatedWaitMinutes} min wait
+              </p>
+            ) : visit.checkInToken ? (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  Show this check-in pass at the front desk. Check-in opens at{" "}
+                  {new Date(visit.checkInOpensAt).toLocaleTimeString("en-US", {
+                    timeZone: visit.timeZone,
+                    timeStyle: "short",
+                  })}
+                  .
+                </p>
+                <p
+                  className="font-mono text-xs break-all rounded bg-muted p-2 select-all"
+                  data-testid={`check-in-pass-${visit._id}`}
+                >
+                  {visit.checkInToken}
+                </p>
+              </div>
+            ) : null}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
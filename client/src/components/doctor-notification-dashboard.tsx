@@ -13,6 +13,7 @@ import {
   ArrowLeft, 
   AlertCircle, 
   Loader2,
+  Megaphone,
   Trash2 // Updated to Trash2
 } from "lucide-react"; 
 import { useToast } from "@/hooks/use-toast";
@@ -398,16 +399,89 @@ const NotificationList = ({
   );
 };
 
+/* ------------------------------------------
+  Announcements from the platform admins
+-------------------------------------------*/
+interface Announcement {
+  _id: string;
+  title: string;
+  message: string;
+  read: boolean;
+  createdAt: string;
+}
+
+const AnnouncementList = ({ announcements }: { announcements: Announcement[] }) => {
+  const queryClient = useQueryClient();
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/notifications/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ read: true }),
+      });
+      if (!res.ok) throw new Error("Failed to mark announcement as read");
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/notifications"] }),
+  });
+
+  if (announcements.length === 0) {
+    return (
+      <div className="text-center p-8 bg-slate-900 rounded-lg border border-slate-700">
+        <Megaphone className="w-12 h-12 mx-auto mb-4 opacity-50 text-slate-500" />
+        <p className="text-slate-400">No announcements.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {announcements.map((announcement) => (
+        <div
+          key={announcement._id}
+          onClick={() => !announcement.read && markReadMutation.mutate(announcement._id)}
+          className={`p-4 rounded-lg border transition-all bg-slate-900 ${
+            announcement.read ? "border-slate-700 opacity-75" : "border-blue-500/40 cursor-pointer hover:bg-slate-800"
+          }`}
+        >
+          <div className="flex items-start space-x-3">
+            <Megaphone className="w-5 h-5 mt-1 flex-shrink-0 text-blue-400" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-semibold text-white">{announcement.title}</p>
+                <p className="text-xs text-slate-500">{new Date(announcement.createdAt).toLocaleDateString()}</p>
+              </div>
+              <p className="text-sm text-slate-300 mt-1 whitespace-pre-line">{announcement.message}</p>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 /* ------------------------------------------
   Main Component
 -------------------------------------------*/
 export const DoctorNotificationDashboard = () => {
   const queryClient = useQueryClient();
   const { toast } = useToast();
-  const [activeTab, setActiveTab] = useState<"requests" | "awaitingPayment">("requests");
+  const [activeTab, setActiveTab] = useState<"requests" | "awaitingPayment" | "announcements">("requests");
   const [selectedItem, setSelectedItem] = useState<AppointmentRequest | AwaitingPaymentAppointment | null>(null);
   const [selectedType, setSelectedType] = useState<"request" | "payment" | null>(null);
 
+  // Admin announcements land in the regular notification inbox
+  const { data: announcementPage } = useQuery<{ notifications: Announcement[] }>({
+    queryKey: ["/api/notifications", "announcements"],
+    queryFn: async () => {
+      const res = await fetch("/api/notifications?type=announcement&limit=20");
+      if (!res.ok) throw new Error("Failed to fetch announcements");
+      return res.json();
+    },
+  });
+  const announcements = announcementPage?.notifications ?? [];
+  const unreadAnnouncements = announcements.filter((announcement) => !announcement.read).length;
+
   // Fetch appointment requests (status: 'pending')
   const { data: appointmentRequests = [], isLoading: requestsLoading } = useQuery({
     queryKey: ["/api/doctor/appointment-requests"],
@@ -416,7 +490,6 @@ export const DoctorNotificationDashboard = () => {
       if (!res.ok) throw new Error("Failed to fetch requests");
       return res.json();
     },
-    refetchInterval: 10000, 
   });
 
   // Fetch awaiting payment appointments (status: 'awaiting_payment')
@@ -427,7 +500,6 @@ export const DoctorNotificationDashboard = () => {
       if (!res.ok) throw new Error("Failed to fetch awaiting payment");
       return res.json();
     },
-    refetchInterval: 10000, 
   });
 
   // Accept request mutation (Changes status from 'pending' to 'awaiting_payment')
@@ -588,6 +660,23 @@ export const DoctorNotificationDashboard = () => {
             </span>
           )}
         </button>
+
+        <button
+          onClick={() => setActiveTab("announcements")}
+          className={`px-4 py-2 rounded-md flex items-center gap-2 text-sm font-medium ${
+            activeTab === "announcements"
+              ? "bg-slate-700 text-white"
+              : "text-slate-400 hover:text-slate-300"
+          }`}
+        >
+          <Megaphone className="w-4 h-4" />
+          Announcements
+          {unreadAnnouncements > 0 && (
+            <span className="ml-1 bg-blue-500 text-white text-xs rounded-full px-2 py-0.5 font-semibold">
+              {unreadAnnouncements}
+            </span>
+          )}
+        </button>
       </div>
 
       {isLoading && !appointmentRequests.length && !awaitingPaymentAppointments.length && (
@@ -626,6 +715,8 @@ export const DoctorNotificationDashboard = () => {
           type="payment"
         />
       )}
+
+      {activeTab === "announcements" && <AnnouncementList announcements={announcements} />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDownLeft, ArrowUpRight, Landmark, Wallet } from "lucide-react";
+
+type PayoutStatus = "pending" | "processing" | "processed" | "failed";
+
+interface PayoutStatement {
+  balances: {
+    earned: number;
+    clawedBack: number;
+    pending: number;
+    inSettlement: number;
+    settled: number;
+  };
+  entries: {
+    _id: string;
+    type: "earning" | "clawback";
+    amount: number;
+    description?: string;
+    payoutId?: string;
+    createdAt: string;
+  }[];
+  payouts: {
+    _id: string;
+    amount: number;
+    status: PayoutStatus;
+    reference?: string;
+    failureReason?: string;
+    processedAt?: string;
+    createdAt: string;
+  }[];
+}
+
+const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  pending: "Scheduled",
+  processing: "On its way",
+  processed: "Paid",
+  failed: "Failed",
+};
+
+const rupees = (amount: number) => `₹${amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+// Doctor's view of what they have earned, what refunds took back and what has been paid out
+export default function DoctorPayoutStatement() {
+  const { data: statement, isLoading } = useQuery<PayoutStatement>({
+    queryKey: ["/api/doctor/payouts"],
+  });
+
+  if (isLoading || !statement) {
+    return <p className="text-sm text-muted-foreground">Loading statement...</p>;
+  }
+
+  const { balances } = statement;
+  const tiles = [
+    { label: "Earned", value: balances.earned },
+    { label: "Refunded to patients", value: balances.clawedBack },
+    { label: "Awaiting settlement", value: balances.pending },
+    { label: "Being paid out", value: balances.inSettlement },
+    { label: "Paid out", value: balances.settled },
+  ];
+
+  return (
+    <div className="space-y-6" data-testid="doctor-payout-statement">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {tiles.map((tile) => (
+          <Card key={tile.label}>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">{tile.label}</p>
+              <p className="text-xl font-bold">{rupees(tile.value)}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Landmark className="w-5 h-5" />
+            Payouts
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {statement.payouts.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nothing has been paid out yet.</p>
+          )}
+          {statement.payouts.map((payout) => (
+            <div
+              key={payout._id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3 text-sm"
+              data-testid={`payout-${payout._id}`}
+            >
+              <div>
+                <p className="font-medium">{rupees(payout.amount)}</p>
+                <p className="text-muted-foreground">
+                  {new Date(payout.processedAt ?? payout.createdAt).toLocaleDateString()}
+                  {payout.reference && ` · Ref ${payout.reference}`}
+                </p>
+                {payout.status === "failed" && (
+                  <p className="text-destructive">This amount will be included in your next payout.</p>
+                )}
+              </div>
+              <Badge variant={payout.status === "failed" ? "destructive" : payout.status === "processed" ? "default" : "outline"}>
+                {PAYOUT_STATUS_LABELS[payout.status]}
+              </Badge>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Ledger
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {statement.entries.length === 0 && (
+            <p className="text-sm text-muted-foreground">Your share of each paid consultation will show up here.</p>
+          )}
+          {statement.entries.map((entry) => (
+            <div key={entry._id} className="flex items-center justify-between border-b pb-2 text-sm last:border-0">
+              <div className="flex items-center gap-2">
+                {entry.type === "earning" ? (
+                  <ArrowDownLeft className="w-4 h-4 text-green-600" />
+                ) : (
+                  <ArrowUpRight className="w-4 h-4 text-red-600" />
+                )}
+                <div>
+                  <p>{entry.description}</p>
+                  <p className="text-muted-foreground">{new Date(entry.createdAt).toLocaleDateString()}</p>
+                </div>
+              </div>
+              <span className={entry.type === "earning" ? "font-medium" : "font-medium text-red-600"}>
+                {entry.type === "earning" ? "+" : "−"}
+                {rupees(entry.amount)}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
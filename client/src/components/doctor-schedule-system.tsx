@@ -31,7 +31,7 @@ interface Notification {
   appointmentDate?: string;
   consultationFee?: number;
   doctorId?: string;
-  notificationChannels: ('email' | 'inapp')[];
+  notificationChannels: ('email' | 'inapp' | 'sms' | 'whatsapp')[];
   read: boolean;
   createdAt: string;
 }
@@ -82,28 +82,7 @@ export function DoctorScheduleButton({
       console.log('   appointmentId:', appointmentId);
       console.log('   patientId:', patientId);
 
-      // Create notification for patient
-      const notificationRes = await fetch('/api/notifications', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          recipientId: patientId,
-          type: 'payment_pending',
-          title: 'Appointment Scheduled - Payment Required',
-          message: `Your appointment has been scheduled for ${new Date(appointmentDate).toLocaleString()}. Please complete the payment to confirm.`,
-          appointmentId: appointmentId,
-          appointmentDate: appointmentDate,
-          consultationFee: consultationFee,
-          doctorId: doctorId,
-          notificationChannels: ['email', 'inapp'], // EMAIL + IN-APP
-        }),
-      });
-
-      if (!notificationRes.ok) {
-        throw new Error('Failed to send notification');
-      }
-
-      // Update appointment status to "awaiting_payment"
+      // The server notifies the patient and asks them to pay
       const updateRes = await fetch(`/api/appointments/${appointmentId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
@@ -196,19 +175,16 @@ export function DoctorScheduleButton({
 export function PatientNotificationCenter() {
   const { toast } = useToast();
 
-  const { data: notifications = [], isLoading } = useQuery({
-    queryKey: ['/api/notifications'],
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/notifications', 'pending-payments'],
     queryFn: async () => {
-      const res = await fetch('/api/notifications');
+      const res = await fetch('/api/notifications?type=payment_pending&read=false&limit=100');
       if (!res.ok) throw new Error('Failed to fetch notifications');
       return res.json();
     },
-    refetchInterval: 5000, // Poll every 5 seconds
   });
 
-  const pendingPaymentNotifications = notifications.filter(
-    (n: any) => n.type === 'payment_pending' && !n.read
-  );
+  const pendingPaymentNotifications = data?.notifications ?? [];
 
   if (isLoading) return <p className="text-sm text-muted-foreground">Loading notifications...</p>;
 
@@ -312,7 +288,7 @@ function NotificationCard({ notification }: { notification: Notification }) {
 // ============================================
 // 4. PATIENT PAYMENT MODAL (Razorpay)
 // ============================================
-export function PatientPaymentModal({ appointmentId, amount, doctorId, onSuccess }: PaymentModalProps) {
+export function PatientPaymentModal({ appointmentId, amount, onSuccess }: PaymentModalProps) {
   const [open, setOpen] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const { toast } = useToast();
@@ -328,15 +304,12 @@ export function PatientPaymentModal({ appointmentId, amount, doctorId, onSuccess
       const res = await fetch('/api/create-order', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          amount: amount,
-          appointmentId: appointmentId,
-          doctorId: doctorId,
-        }),
+        // The server prices the order from the appointment
+        body: JSON.stringify({ appointmentId }),
       });
 
       if (!res.ok) throw new Error('Failed to create order');
-      const { orderId, key } = await res.json();
+      const { orderId, key, amount: amountInPaise } = await res.json();
 
       // Initialize Razorpay
       const script = document.createElement('script');
@@ -347,7 +320,7 @@ export function PatientPaymentModal({ appointmentId, amount, doctorId, onSuccess
         const options = {
           key: key,
           order_id: orderId,
-          amount: amount * 100,
+          amount: amountInPaise,
           currency: 'INR',
           name: 'Appointment Payment',
           description: `Consultation Fee - Appointment ${appointmentId}`,
@@ -404,20 +377,6 @@ export function PatientPaymentModal({ appointmentId, amount, doctorId, onSuccess
 
       if (!updateRes.ok) throw new Error('Failed to confirm appointment');
 
-      // Send confirmation notification to doctor
-      await fetch('/api/notifications', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          recipientId: doctorId,
-          type: 'appointment_confirmed',
-          title: 'Appointment Confirmed',
-          message: `Patient has completed payment for appointment ${appointmentId}`,
-          appointmentId: appointmentId,
-          notificationChannels: ['email', 'inapp'],
-        }),
-      });
-
       toast({
         title: '✅ Payment Successful',
         description: 'Your appointment is confirmed!',
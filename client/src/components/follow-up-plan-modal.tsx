@@ -0,0 +1,312 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, X as XIcon } from "lucide-react";
+import { addMonths, addWeeks, format, setHours, setMinutes } from "date-fns";
+
+interface FollowUpPlanModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  appointmentId: string;
+  appointmentDate: string;
+  type: "video" | "in-person";
+}
+
+interface BookableSlot {
+  start: string;
+  date: string;
+  time: string;
+}
+
+interface VisitProblem {
+  index: number;
+  message: string;
+  alternatives: BookableSlot[];
+}
+
+type PaymentMode = "per_visit" | "upfront";
+
+// Same limit as the server
+const MAX_VISITS = 12;
+
+// <input type="datetime-local"> works in local wall time without seconds
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+// "First follow-up after N weeks, then monthly", keeping the original time of day
+const buildSchedule = (from: Date, firstAfterWeeks: number, monthlyVisits: number) => {
+  const first = addWeeks(from, firstAfterWeeks);
+  return [first, ...Array.from({ length: monthlyVisits }, (_, i) => addMonths(first, i + 1))].map(
+    (date) => toInputValue(setMinutes(setHours(date, from.getHours()), from.getMinutes()))
+  );
+};
+
+// apiRequest errors look like "409: {json body}"
+const parseApiError = (
+  error: Error
+): { message?: string; problems?: VisitProblem[]; alternatives?: BookableSlot[] } => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+  } catch {
+    return { message: error.message };
+  }
+};
+
+// Doctor-side form for booking a linked series of follow-up visits
+export default function FollowUpPlanModal({
+  open,
+  onOpenChange,
+  appointmentId,
+  appointmentDate,
+  type,
+}: FollowUpPlanModalProps) {
+  const [firstAfterWeeks, setFirstAfterWeeks] = useState(2);
+  const [monthlyVisits, setMonthlyVisits] = useState(3);
+  const [visits, setVisits] = useState<string[]>([]);
+  const [visitType, setVisitType] = useState(type);
+  const [paymentMode, setPaymentMode] = useState<PaymentMode>("per_visit");
+  const [notes, setNotes] = useState("");
+  const [problems, setProblems] = useState<VisitProblem[]>([]);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) {
+      setVisits(buildSchedule(new Date(appointmentDate), 2, 3));
+      setFirstAfterWeeks(2);
+      setMonthlyVisits(3);
+      setVisitType(type);
+      setPaymentMode("per_visit");
+      setNotes("");
+      setProblems([]);
+    }
+  }, [open, appointmentDate, type]);
+
+  const updateVisit = (index: number, value: string) => {
+    setVisits((prev) => prev.map((visit, i) => (i === index ? value : visit)));
+    setProblems((prev) => prev.filter((problem) => problem.index !== index));
+  };
+
+  const removeVisit = (index: number) => {
+    setVisits((prev) => prev.filter((_, i) => i !== index));
+    setProblems([]);
+  };
+
+  const createPlanMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/appointments/${appointmentId}/follow-up-series`, {
+        // The server sorts visits; send them in the same order so problem indexes line up
+        visits: [...visits]
+          .sort()
+          .map((visit) => new Date(visit).toISOString()),
+        paymentMode,
+        type: visitType,
+        notes: notes.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title: "Follow-up Plan Created",
+        description: `${data.appointments.length} visits booked. The patient has been asked to pay ${
+          paymentMode === "upfront" ? "for the whole plan" : "for each visit"
+        }.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      const parsed = parseApiError(error);
+      if (parsed.problems) {
+        setVisits((prev) => [...prev].sort());
+        setProblems(parsed.problems);
+      }
+      toast({
+        title: "Could not create the plan",
+        description: parsed.message || error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Plan Follow-ups</DialogTitle>
+          <DialogDescription>
+            Book a series of linked follow-up visits. Each time is checked against your availability.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+            <div>
+              <Label htmlFor="first-after-weeks">First visit after (weeks)</Label>
+              <Input
+                id="first-after-weeks"
+                type="number"
+                min={1}
+                value={firstAfterWeeks}
+                onChange={(e) => setFirstAfterWeeks(Math.max(1, Number(e.target.value)))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="monthly-visits">Then monthly visits</Label>
+              <Input
+                id="monthly-visits"
+                type="number"
+                min={0}
+                max={MAX_VISITS - 1}
+                value={monthlyVisits}
+                onChange={(e) =>
+                  setMonthlyVisits(Math.min(MAX_VISITS - 1, Math.max(0, Number(e.target.value))))
+                }
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setVisits(buildSchedule(new Date(appointmentDate), firstAfterWeeks, monthlyVisits));
+                setProblems([]);
+              }}
+            >
+              Generate
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Visits</Label>
+            {visits.map((visit, index) => {
+              const problem = problems.find((p) => p.index === index);
+              return (
+                <div key={index} className="space-y-1" data-testid={`follow-up-visit-${index}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground w-6">{index + 1}.</span>
+                    <Input
+                      type="datetime-local"
+                      value={visit}
+                      onChange={(e) => updateVisit(index, e.target.value)}
+                      className={problem ? "border-destructive" : undefined}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      disabled={visits.length === 1}
+                      onClick={() => removeVisit(index)}
+                    >
+                      <XIcon className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {problem && (
+                    <div className="pl-8 space-y-1">
+                      <p className="text-xs text-destructive">{problem.message}</p>
+                      {problem.alternatives.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {problem.alternatives.map((slot) => (
+                            <Button
+                              key={slot.start}
+                              size="sm"
+                              variant="outline"
+                              className="h-7 text-xs"
+                              onClick={() => updateVisit(index, toInputValue(new Date(slot.start)))}
+                            >
+                              {format(new Date(slot.start), "MMM d, p")}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={visits.length >= MAX_VISITS}
+              onClick={() =>
+                setVisits((prev) => [
+                  ...prev,
+                  toInputValue(addMonths(new Date(prev[prev.length - 1] ?? appointmentDate), 1)),
+                ])
+              }
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Visit
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label>Visit type</Label>
+              <Select value={visitType} onValueChange={(value) => setVisitType(value as typeof type)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="video">Video</SelectItem>
+                  <SelectItem value="in-person">In-person</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Payment</Label>
+              <Select value={paymentMode} onValueChange={(value) => setPaymentMode(value as PaymentMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="per_visit">Pay per visit</SelectItem>
+                  <SelectItem value="upfront">Pay upfront for all</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="follow-up-notes">Notes for the patient (optional)</Label>
+            <Textarea
+              id="follow-up-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={createPlanMutation.isPending || visits.some((visit) => !visit)}
+              onClick={() => createPlanMutation.mutate()}
+              data-testid="button-create-follow-up-plan"
+            >
+              {createPlanMutation.isPending ? "Booking..." : `Book ${visits.length} Visit(s)`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
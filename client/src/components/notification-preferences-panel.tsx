@@ -0,0 +1,300 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { BellRing, Moon, Smartphone } from "lucide-react";
+import { localTimeZone } from "@shared/time-zone";
+
+type DeliveryChannel = "email" | "sms" | "whatsapp";
+
+interface TypeChannels {
+  type: string;
+  channels: DeliveryChannel[];
+}
+
+interface NotificationPreferences {
+  channels: TypeChannels[];
+  quietHours: { enabled: boolean; start: string; end: string };
+  timeZone: string;
+  digestMode: "immediate" | "daily";
+  digestTime: string;
+  timeSensitiveTypes: string[];
+  textMessageTypes: string[];
+  messaging: { phone: string; smsOptIn: boolean; whatsappOptIn: boolean };
+}
+
+const PREFERENCES_QUERY_KEY = ["/api/user/notification-preferences"];
+
+const CHANNELS: { channel: DeliveryChannel; label: string }[] = [
+  { channel: "email", label: "Email" },
+  { channel: "sms", label: "SMS" },
+  { channel: "whatsapp", label: "WhatsApp" },
+];
+
+// What each role receives, in the order shown
+const NOTIFICATION_TYPES: { type: string; label: string; roles: ("patient" | "doctor")[] }[] = [
+  { type: "appointment_scheduled", label: "New appointments", roles: ["doctor"] },
+  { type: "payment_pending", label: "Payment requests", roles: ["patient"] },
+  { type: "appointment_confirmed", label: "Appointment confirmed", roles: ["patient", "doctor"] },
+  { type: "appointment_reminder", label: "Appointment reminders", roles: ["patient", "doctor"] },
+  { type: "appointment_rescheduled", label: "Appointment rescheduled", roles: ["patient", "doctor"] },
+  { type: "reschedule_requested", label: "Reschedule requests", roles: ["patient", "doctor"] },
+  { type: "reschedule_declined", label: "Reschedule declined", roles: ["patient", "doctor"] },
+  { type: "appointment_cancelled", label: "Appointment cancelled", roles: ["patient", "doctor"] },
+  { type: "appointment_rejected", label: "Request declined", roles: ["patient"] },
+  { type: "waitlist_slot_offered", label: "Waitlist slot offers", roles: ["patient"] },
+  { type: "appointment_no_show", label: "Missed appointments", roles: ["patient", "doctor"] },
+  { type: "consultation_completed", label: "Consultation completed", roles: ["patient", "doctor"] },
+  { type: "payment_refunded", label: "Refunds", roles: ["patient"] },
+  { type: "announcement", label: "Announcements", roles: ["patient", "doctor"] },
+];
+
+// apiRequest errors look like "400: {json body}"
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+  } catch {
+    return error.message;
+  }
+};
+
+// Per-type channels, quiet hours, digest mode and SMS/WhatsApp consent
+export default function NotificationPreferencesPanel({ role }: { role: "patient" | "doctor" }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: saved, isLoading } = useQuery<NotificationPreferences>({
+    queryKey: PREFERENCES_QUERY_KEY,
+  });
+
+  const [channels, setChannels] = useState<TypeChannels[]>([]);
+  const [quietHours, setQuietHours] = useState({ enabled: false, start: "22:00", end: "07:00" });
+  const [digestMode, setDigestMode] = useState<"immediate" | "daily">("immediate");
+  const [digestTime, setDigestTime] = useState("08:00");
+
+  useEffect(() => {
+    if (!saved) return;
+    setChannels(saved.channels);
+    setQuietHours(saved.quietHours);
+    setDigestMode(saved.digestMode);
+    setDigestTime(saved.digestTime);
+  }, [saved]);
+
+  const optedIn: Record<DeliveryChannel, boolean> = {
+    email: true,
+    sms: !!saved?.messaging.smsOptIn,
+    whatsapp: !!saved?.messaging.whatsappOptIn,
+  };
+
+  // Types the user has not customised show what they get by default
+  const channelsFor = (type: string): DeliveryChannel[] =>
+    channels.find((entry) => entry.type === type)?.channels ??
+    (saved?.textMessageTypes.includes(type) ? ["email", "sms", "whatsapp"] : ["email"]);
+
+  const toggleChannel = (type: string, channel: DeliveryChannel, on: boolean) => {
+    const current = channelsFor(type);
+    const next = on ? [...current, channel] : current.filter((c) => c !== channel);
+    setChannels((entries) => [...entries.filter((entry) => entry.type !== type), { type, channels: next }]);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/user/notification-preferences", {
+        channels,
+        quietHours,
+        // Quiet hours and the digest time are read on this device's clock
+        timeZone: localTimeZone(),
+        digestMode,
+        digestTime,
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(PREFERENCES_QUERY_KEY, data);
+      toast({ title: "Preferences Saved", description: "Your notification settings have been updated." });
+    },
+    onError: (error: Error) =>
+      toast({ title: "Could not save preferences", description: errorMessage(error), variant: "destructive" }),
+  });
+
+  const optInMutation = useMutation({
+    mutationFn: async (updates: { smsOptIn?: boolean; whatsappOptIn?: boolean }) => {
+      const res = await apiRequest("PUT", "/api/user/messaging-opt-in", updates);
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PREFERENCES_QUERY_KEY }),
+    onError: (error: Error) =>
+      toast({ title: "Could not update text messages", description: errorMessage(error), variant: "destructive" }),
+  });
+
+  if (isLoading || !saved) {
+    return <p className="text-sm text-muted-foreground">Loading notification settings...</p>;
+  }
+
+  const visibleTypes = NOTIFICATION_TYPES.filter((entry) => entry.roles.includes(role));
+
+  return (
+    <div className="space-y-6" data-testid="notification-preferences-panel">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Smartphone className="w-5 h-5" />
+            Text Messages
+          </CardTitle>
+          <CardDescription>
+            {saved.messaging.phone
+              ? `Messages are sent to ${saved.messaging.phone}.`
+              : "Add a phone number to your profile to receive text messages."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {(["sms", "whatsapp"] as const).map((channel) => (
+            <div key={channel} className="flex items-center justify-between">
+              <Label htmlFor={`opt-in-${channel}`}>
+                {channel === "sms" ? "Receive SMS notifications" : "Receive WhatsApp notifications"}
+              </Label>
+              <Switch
+                id={`opt-in-${channel}`}
+                checked={optedIn[channel]}
+                disabled={optInMutation.isPending}
+                onCheckedChange={(checked) =>
+                  optInMutation.mutate(channel === "sms" ? { smsOptIn: checked } : { whatsappOptIn: checked })
+                }
+                data-testid={`switch-opt-in-${channel}`}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="w-5 h-5" />
+            Channels
+          </CardTitle>
+          <CardDescription>
+            Every notification also appears in your inbox here. Choose where else it should reach you.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-[1fr_repeat(3,5rem)] gap-y-3 items-center text-sm">
+            <span />
+            {CHANNELS.map(({ channel, label }) => (
+              <span key={channel} className="text-center text-xs font-semibold text-muted-foreground">
+                {label}
+              </span>
+            ))}
+            {visibleTypes.map(({ type, label }) => (
+              <div key={type} className="contents">
+                <span>{label}</span>
+                {CHANNELS.map(({ channel }) => (
+                  <div key={channel} className="flex justify-center">
+                    <Checkbox
+                      checked={optedIn[channel] && channelsFor(type).includes(channel)}
+                      disabled={!optedIn[channel]}
+                      onCheckedChange={(checked) => toggleChannel(type, channel, checked === true)}
+                      data-testid={`checkbox-${type}-${channel}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Moon className="w-5 h-5" />
+            Quiet Hours &amp; Digest
+          </CardTitle>
+          <CardDescription>Times are in your local time zone ({localTimeZone()}).</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="quiet-hours">Hold emails and texts during quiet hours</Label>
+              <Switch
+                id="quiet-hours"
+                checked={quietHours.enabled}
+                onCheckedChange={(enabled) => setQuietHours((current) => ({ ...current, enabled }))}
+                data-testid="switch-quiet-hours"
+              />
+            </div>
+            {quietHours.enabled && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  className="w-32"
+                  value={quietHours.start}
+                  onChange={(e) => setQuietHours((current) => ({ ...current, start: e.target.value }))}
+                  data-testid="input-quiet-start"
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  className="w-32"
+                  value={quietHours.end}
+                  onChange={(e) => setQuietHours((current) => ({ ...current, end: e.target.value }))}
+                  data-testid="input-quiet-end"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <Label>Email delivery</Label>
+            <div className="flex items-center gap-2">
+              <Select value={digestMode} onValueChange={(value) => setDigestMode(value as "immediate" | "daily")}>
+                <SelectTrigger className="w-56" data-testid="select-digest-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="immediate">Send each email right away</SelectItem>
+                  <SelectItem value="daily">One daily summary</SelectItem>
+                </SelectContent>
+              </Select>
+              {digestMode === "daily" && (
+                <Input
+                  type="time"
+                  className="w-32"
+                  value={digestTime}
+                  onChange={(e) => setDigestTime(e.target.value)}
+                  data-testid="input-digest-time"
+                />
+              )}
+            </div>
+            {digestMode === "daily" && (
+              <p className="text-xs text-muted-foreground">
+                {NOTIFICATION_TYPES.filter((entry) => saved.timeSensitiveTypes.includes(entry.type))
+                  .map((entry) => entry.label)
+                  .join(", ")}{" "}
+                are always sent right away.
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-preferences">
+          {saveMutation.isPending ? "Saving..." : "Save Preferences"}
+        </Button>
+      </div>
+    </div>
+  );
+}
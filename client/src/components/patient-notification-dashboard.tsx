@@ -1,27 +1,63 @@
 import { useEffect, useState } from 'react';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Bell, Mail, CheckCircle2, AlertCircle, Loader2, Trash2, User, CreditCard } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Bell, Mail, CheckCircle2, AlertCircle, Loader2, Trash2, User, CreditCard, Clock, Megaphone } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 // Interface definitions (as provided)
 interface Notification {
   _id: string;
   recipientId: string;
-  type: 'payment_pending' | 'appointment_confirmed' | 'appointment_scheduled' | 'appointment_cancelled';
+  type: 'payment_pending' | 'appointment_confirmed' | 'appointment_scheduled' | 'appointment_cancelled' | 'appointment_rescheduled' | 'reschedule_requested' | 'reschedule_declined' | 'waitlist_slot_offered' | 'appointment_no_show' | 'appointment_reminder' | 'announcement' | 'payment_refunded';
   title: string;
   message: string;
   appointmentId?: string;
   appointmentDate?: string;
   consultationFee?: number;
   doctorId?: string;
-  notificationChannels: ('email' | 'inapp')[];
+  notificationChannels: ('email' | 'inapp' | 'sms' | 'whatsapp')[];
   read: boolean;
   createdAt: string;
 }
 
+interface NotificationPage {
+  notifications: Notification[];
+  nextCursor: string | null;
+}
+
+type BulkAction = 'mark_read' | 'mark_unread' | 'delete';
+
+// Types a patient receives, for the filter
+const TYPE_FILTERS: { value: Notification['type']; label: string }[] = [
+  { value: 'payment_pending', label: 'Payment requests' },
+  { value: 'appointment_confirmed', label: 'Confirmed' },
+  { value: 'appointment_reminder', label: 'Reminders' },
+  { value: 'appointment_rescheduled', label: 'Rescheduled' },
+  { value: 'reschedule_requested', label: 'Reschedule requests' },
+  { value: 'reschedule_declined', label: 'Reschedule declined' },
+  { value: 'appointment_cancelled', label: 'Cancelled' },
+  { value: 'waitlist_slot_offered', label: 'Waitlist offers' },
+  { value: 'appointment_no_show', label: 'Missed appointments' },
+  { value: 'payment_refunded', label: 'Refunds' },
+  { value: 'announcement', label: 'Announcements' },
+];
+
+const fetchJson = async <T,>(url: string): Promise<T> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error('Failed to fetch notifications');
+  return res.json();
+};
+
 interface Doctor {
   _id: string;
   firstName: string;
@@ -34,18 +70,47 @@ export function PatientNotificationDashboard() {
   const [selectedNotification, setSelectedNotification] = useState<Notification | null>(null);
   const [doctorsMap, setDoctorsMap] = useState<Map<string, Doctor>>(new Map());
   const [processingPayment, setProcessingPayment] = useState<string | null>(null);
-
-  // 🔄 Fetch notifications (unchanged)
-  const { data: notifications = [], isLoading, error } = useQuery({
-    queryKey: ['/api/notifications'],
-    queryFn: async () => {
-      const res = await fetch('/api/notifications');
-      if (!res.ok) throw new Error('Failed to fetch notifications');
-      return res.json() as Promise<Notification[]>;
+  const [typeFilter, setTypeFilter] = useState<'all' | Notification['type']>('all');
+  const [readFilter, setReadFilter] = useState<'all' | 'unread' | 'read'>('all');
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  const [bulkPending, setBulkPending] = useState(false);
+
+  // 🔄 Fetch notifications a page at a time, newest first
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/notifications', 'inbox', { type: typeFilter, read: readFilter }],
+    queryFn: ({ pageParam }) => {
+      const params = new URLSearchParams();
+      if (typeFilter !== 'all') params.set('type', typeFilter);
+      if (readFilter !== 'all') params.set('read', String(readFilter === 'read'));
+      if (pageParam) params.set('cursor', pageParam);
+      return fetchJson<NotificationPage>(`/api/notifications?${params.toString()}`);
     },
-    refetchInterval: 5000,
-    refetchIntervalInBackground: true,
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
+  const notifications = data?.pages.flatMap((page) => page.notifications) ?? [];
+
+  const { data: unread } = useQuery({
+    queryKey: ['/api/notifications', 'unread-count'],
+    queryFn: () => fetchJson<{ count: number }>('/api/notifications/unread-count'),
+  });
+
+  const { data: pendingPaymentPage } = useQuery({
+    queryKey: ['/api/notifications', 'pending-payments'],
+    queryFn: () => fetchJson<NotificationPage>('/api/notifications?type=payment_pending&read=false&limit=100'),
+  });
+
+  // A selection only makes sense within the list it was made in
+  useEffect(() => {
+    setCheckedIds(new Set());
+  }, [typeFilter, readFilter]);
 
   // 🔄 Fetch doctors (unchanged)
   const { data: doctors = [] } = useQuery({
@@ -72,9 +137,54 @@ export function PatientNotificationDashboard() {
     setDoctorsMap(newMap);
   }, [doctors]);
 
-  // 📊 Calculate stats (unchanged)
-  const unreadCount = notifications.filter((n) => !n.read).length;
-  const pendingPayments = notifications.filter((n) => n.type === 'payment_pending' && !n.read);
+  // 📊 Stats come from the server, not the pages loaded so far
+  const unreadCount = unread?.count ?? 0;
+  const pendingPayments = pendingPaymentPage?.notifications ?? [];
+
+  const toggleChecked = (notificationId: string, checked: boolean) => {
+    setCheckedIds((current) => {
+      const next = new Set(current);
+      if (checked) next.add(notificationId);
+      else next.delete(notificationId);
+      return next;
+    });
+  };
+
+  const allLoadedChecked = notifications.length > 0 && notifications.every((n) => checkedIds.has(n._id));
+
+  // 📦 Mark read/unread or delete many at once; `all` marks the whole inbox
+  const runBulkAction = async (action: BulkAction, target: { ids: string[] } | { all: true }) => {
+    setBulkPending(true);
+    try {
+      const res = await fetch('/api/notifications/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ...target }),
+      });
+
+      if (!res.ok) throw new Error('Bulk update failed');
+      const result: { affected: number } = await res.json();
+
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+      setCheckedIds(new Set());
+      if (action === 'delete') setSelectedNotification(null);
+      toast({
+        title: action === 'delete' ? '✅ Deleted' : '✅ Updated',
+        description: `${result.affected} notification${result.affected !== 1 ? 's' : ''} ${
+          action === 'delete' ? 'removed' : action === 'mark_read' ? 'marked as read' : 'marked as unread'
+        }`,
+      });
+    } catch (err) {
+      console.error('Error in bulk action:', err);
+      toast({
+        title: '❌ Error',
+        description: 'Failed to update notifications',
+        variant: 'destructive',
+      });
+    } finally {
+      setBulkPending(false);
+    }
+  };
 
   // ✅ Mark as read (unchanged)
   const markAsRead = async (notificationId: string) => {
@@ -150,11 +260,8 @@ export function PatientNotificationDashboard() {
       const orderRes = await fetch('/api/create-order', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          amount: notification.consultationFee,
-          appointmentId: notification.appointmentId,
-          doctorId: notification.doctorId,
-        }),
+        // The server prices the order from the appointment
+        body: JSON.stringify({ appointmentId: notification.appointmentId }),
       });
 
       if (!orderRes.ok) {
@@ -309,6 +416,70 @@ export function PatientNotificationDashboard() {
           badgeVariant: 'destructive' as const,
           badgeText: 'Cancelled',
         };
+      case 'appointment_rescheduled':
+        return {
+          cardClass: 'bg-amber-500/10 border-amber-500/20',
+          icon: <Bell className="w-5 h-5 text-amber-600" />,
+          iconColor: 'text-amber-600',
+          badgeVariant: 'secondary' as const,
+          badgeText: 'Rescheduled',
+        };
+      case 'reschedule_requested':
+        return {
+          cardClass: 'bg-amber-500/10 border-amber-500/20',
+          icon: <Bell className="w-5 h-5 text-amber-600" />,
+          iconColor: 'text-amber-600',
+          badgeVariant: 'outline' as const,
+          badgeText: 'New Time Proposed',
+        };
+      case 'reschedule_declined':
+        return {
+          cardClass: 'bg-muted/50 border-border',
+          icon: <Bell className="w-5 h-5 text-muted-foreground" />,
+          iconColor: 'text-muted-foreground',
+          badgeVariant: 'secondary' as const,
+          badgeText: 'Reschedule Declined',
+        };
+      case 'waitlist_slot_offered':
+        return {
+          cardClass: 'bg-green-500/10 border-green-500/20',
+          icon: <Bell className="w-5 h-5 text-green-600" />,
+          iconColor: 'text-green-600',
+          badgeVariant: 'default' as const,
+          badgeText: 'Slot Held',
+        };
+      case 'appointment_no_show':
+        return {
+          cardClass: 'bg-orange-500/10 border-orange-500/20',
+          icon: <Bell className="w-5 h-5 text-orange-600" />,
+          iconColor: 'text-orange-600',
+          badgeVariant: 'secondary' as const,
+          badgeText: 'No-Show',
+        };
+      case 'appointment_reminder':
+        return {
+          cardClass: 'bg-blue-500/10 border-blue-500/20',
+          icon: <Clock className="w-5 h-5 text-blue-600" />,
+          iconColor: 'text-blue-600',
+          badgeVariant: 'outline' as const,
+          badgeText: 'Reminder',
+        };
+      case 'payment_refunded':
+        return {
+          cardClass: 'bg-green-500/10 border-green-500/20',
+          icon: <CreditCard className="w-5 h-5 text-green-600" />,
+          iconColor: 'text-green-600',
+          badgeVariant: 'secondary' as const,
+          badgeText: 'Refund',
+        };
+      case 'announcement':
+        return {
+          cardClass: 'bg-primary/10 border-primary/20',
+          icon: <Megaphone className="w-5 h-5 text-primary" />,
+          iconColor: 'text-primary',
+          badgeVariant: 'default' as const,
+          badgeText: 'Announcement',
+        };
       default:
         return {
           cardClass: 'bg-card/80 border-border',
@@ -372,6 +543,93 @@ export function PatientNotificationDashboard() {
         )}
       </div>
 
+      {/* Filters and bulk actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Checkbox
+          checked={allLoadedChecked}
+          disabled={notifications.length === 0}
+          onCheckedChange={(checked) =>
+            setCheckedIds(checked === true ? new Set(notifications.map((n) => n._id)) : new Set())
+          }
+          aria-label="Select all loaded notifications"
+          data-testid="checkbox-select-all-notifications"
+        />
+        <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as typeof typeFilter)}>
+          <SelectTrigger className="w-48" data-testid="select-notification-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All types</SelectItem>
+            {TYPE_FILTERS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={readFilter} onValueChange={(value) => setReadFilter(value as typeof readFilter)}>
+          <SelectTrigger className="w-32" data-testid="select-notification-read">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            <SelectItem value="unread">Unread</SelectItem>
+            <SelectItem value="read">Read</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="ml-auto flex flex-wrap gap-2">
+          {checkedIds.size > 0 ? (
+            <>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={bulkPending}
+                onClick={() => runBulkAction('mark_read', { ids: Array.from(checkedIds) })}
+                data-testid="button-bulk-mark-read"
+              >
+                <CheckCircle2 className="w-4 h-4 mr-1" />
+                Mark {checkedIds.size} read
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={bulkPending}
+                onClick={() => runBulkAction('mark_unread', { ids: Array.from(checkedIds) })}
+                data-testid="button-bulk-mark-unread"
+              >
+                <Mail className="w-4 h-4 mr-1" />
+                Mark unread
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                disabled={bulkPending}
+                onClick={() => runBulkAction('delete', { ids: Array.from(checkedIds) })}
+                data-testid="button-bulk-delete"
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                Delete {checkedIds.size}
+              </Button>
+            </>
+          ) : (
+            unreadCount > 0 && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={bulkPending}
+                onClick={() => runBulkAction('mark_read', { all: true })}
+                data-testid="button-mark-all-read"
+              >
+                <CheckCircle2 className="w-4 h-4 mr-1" />
+                Mark all read
+              </Button>
+            )
+          )}
+        </div>
+      </div>
+
       {/* 🎨 === ALERT FIX: Using theme colors === */}
       {pendingPayments.length > 0 && (
         <Card className="border-destructive/20 bg-destructive/10">
@@ -403,7 +661,11 @@ export function PatientNotificationDashboard() {
           <Card>
             <CardContent className="pt-6 text-center text-muted-foreground py-8">
               <Bell className="w-12 h-12 mx-auto mb-3 opacity-50" />
-              <p>No notifications yet</p>
+              <p>
+                {typeFilter === 'all' && readFilter === 'all'
+                  ? 'No notifications yet'
+                  : 'No notifications match these filters'}
+              </p>
             </CardContent>
           </Card>
         ) : (
@@ -424,6 +686,15 @@ export function PatientNotificationDashboard() {
               >
                 <CardContent className="pt-6">
                   <div className="flex gap-4">
+                    <div className="flex-shrink-0 mt-1" onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        checked={checkedIds.has(notification._id)}
+                        onCheckedChange={(checked) => toggleChecked(notification._id, checked === true)}
+                        aria-label={`Select ${notification.title}`}
+                        data-testid={`checkbox-notification-${notification._id}`}
+                      />
+                    </div>
+
                     {/* Icon */}
                     <div className={`flex-shrink-0 mt-1 ${style.iconColor}`}>{style.icon}</div>
 
@@ -436,13 +707,15 @@ export function PatientNotificationDashboard() {
                               {notification.title}
                             </h3>
                           </div>
-                          {/* 👨‍⚕️ Doctor Name */}
-                          <div className="flex items-center gap-1 mb-2">
-                            <User className="w-3 h-3 text-muted-foreground" />
-                            <p className="text-xs font-medium text-muted-foreground">
-                              {doctorName}
-                            </p>
-                          </div>
+                          {/* 👨‍⚕️ Doctor Name (announcements come from the platform) */}
+                          {notification.doctorId && (
+                            <div className="flex items-center gap-1 mb-2">
+                              <User className="w-3 h-3 text-muted-foreground" />
+                              <p className="text-xs font-medium text-muted-foreground">
+                                {doctorName}
+                              </p>
+                            </div>
+                          )}
                           <p className="text-sm text-muted-foreground line-clamp-2">
                             {notification.message}
                           </p>
@@ -502,12 +775,16 @@ export function PatientNotificationDashboard() {
                             </div>
                           )}
 
-                          <div>
-                            <p className="text-xs font-semibold text-muted-foreground">Doctor</p>
-                            <p className="text-sm font-medium text-foreground">
-                              {doctorName}
-                            </p>
-                          </div>
+                          {notification.doctorId ? (
+                            <div>
+                              <p className="text-xs font-semibold text-muted-foreground">Doctor</p>
+                              <p className="text-sm font-medium text-foreground">
+                                {doctorName}
+                              </p>
+                            </div>
+                          ) : (
+                            <p className="text-sm text-foreground whitespace-pre-line">{notification.message}</p>
+                          )}
 
                           {/* Actions */}
                           <div className="flex gap-2 pt-2 flex-wrap">
@@ -569,6 +846,26 @@ export function PatientNotificationDashboard() {
             );
           })
         )}
+
+        {hasNextPage && (
+          <div className="flex justify-center pt-2">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              data-testid="button-load-more-notifications"
+            >
+              {isFetchingNextPage ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  Loading...
+                </>
+              ) : (
+                'Load more'
+              )}
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,103 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CreditCard, RotateCcw } from "lucide-react";
+
+type PaymentStatus = "completed" | "partially_refunded" | "refunded";
+
+interface PatientPayment {
+  _id: string;
+  seriesId?: string;
+  doctorName: string;
+  amount: number;
+  status: PaymentStatus;
+  refundedAmount: number;
+  createdAt: string;
+  refunds: { amount: number; reasonCode: string; createdAt: string }[];
+}
+
+const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  completed: "Paid",
+  partially_refunded: "Partly refunded",
+  refunded: "Refunded",
+};
+
+// How a refund reason reads to the patient
+const REFUND_REASON_LABELS: Record<string, string> = {
+  patient_cancellation: "You cancelled the appointment",
+  doctor_cancellation: "The appointment was cancelled",
+  no_show: "Missed appointment",
+  late_payment: "Payment arrived after cancellation",
+  service_issue: "Problem with the consultation",
+  duplicate_payment: "Duplicate payment",
+  dispute: "Dispute resolved",
+  goodwill: "Goodwill refund",
+};
+
+const rupees = (amount: number) => `₹${amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+// Patient's payments and every refund made on them
+export default function PatientPaymentHistory() {
+  const { data: payments = [], isLoading } = useQuery<PatientPayment[]>({
+    queryKey: ["/api/patient/payments"],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading payments...</p>;
+  }
+
+  if (payments.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <CreditCard className="w-16 h-16 mx-auto mb-4 opacity-50" />
+          <h3 className="text-lg font-semibold mb-2">No Payments Yet</h3>
+          <p className="text-muted-foreground">Payments for your consultations will appear here.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4" data-testid="patient-payment-history">
+      {payments.map((payment) => (
+        <Card key={payment._id} data-testid={`payment-${payment._id}`}>
+          <CardContent className="p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="font-medium">
+                  {payment.doctorName}
+                  {payment.seriesId && " · Follow-up plan"}
+                </p>
+                <p className="text-sm text-muted-foreground">{new Date(payment.createdAt).toLocaleDateString()}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">{rupees(payment.amount)}</span>
+                <Badge variant={payment.status === "completed" ? "default" : "secondary"}>
+                  {PAYMENT_STATUS_LABELS[payment.status]}
+                </Badge>
+              </div>
+            </div>
+            {payment.refunds.length > 0 && (
+              <div className="space-y-1 border-t pt-3 text-sm">
+                {payment.refunds.map((refund, index) => (
+                  <div key={index} className="flex items-center justify-between gap-2 text-muted-foreground">
+                    <span className="flex items-center gap-2">
+                      <RotateCcw className="w-4 h-4" />
+                      {new Date(refund.createdAt).toLocaleDateString()} ·{" "}
+                      {REFUND_REASON_LABELS[refund.reasonCode] ?? "Refund"}
+                    </span>
+                    <span className="font-medium text-green-600">+{rupees(refund.amount)}</span>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Refunds reach your original payment method within 5-7 working days.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -47,7 +47,7 @@ interface RazorpayResponse {
   razorpay_signature: string;
 }
 
-export function RazorpayPayment({ amount, appointmentId, doctorId, onSuccess, onError }: RazorpayPaymentProps) {
+export function RazorpayPayment({ amount, appointmentId, onSuccess, onError }: RazorpayPaymentProps) {
   const [loading, setLoading] = useState(false);
   const [orderData, setOrderData] = useState<{
     key: string;
@@ -77,11 +77,7 @@ export function RazorpayPayment({ amount, appointmentId, doctorId, onSuccess, on
           'Content-Type': 'application/json',
         },
         credentials: 'include',
-        body: JSON.stringify({
-          amount,
-          appointmentId,
-          doctorId,
-        }),
+        body: JSON.stringify({ appointmentId }),
       });
 
       if (!response.ok) {
@@ -1,5 +1,5 @@
 import { useState, useMemo } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -9,134 +9,165 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
   SelectItem,
   SelectTrigger,
   SelectValue,
-} from "@/components/ui/select"; // <-- Added Select imports
-import { Calendar } from "@/components/ui/calendar"; // <-- Added Calendar import
+} from "@/components/ui/select";
+import { Calendar } from "@/components/ui/calendar";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
-} from "@/components/ui/popover"; // <-- Added Popover imports
+} from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Calendar as CalendarIcon, Clock } from "lucide-react"; // <-- Added CalendarIcon import
-import { format } from "date-fns"; // <-- Added format import
+import { Calendar as CalendarIcon } from "lucide-react";
+import { addDays, format, startOfDay } from "date-fns";
 
 interface RescheduleModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   appointmentId: string;
+  doctorId: string;
   currentDate: string;
+  // When set, the chosen time is sent as a counter-proposal to this request
+  counterRequestId?: string;
 }
 
-// 💡 NOTE: In a real application, the availability logic below would come from a query,
-// similar to your AppointmentBookingModal, but for now, we use a mock.
-
-const mockTimeSlots = [
-  "09:00",
-  "09:30",
-  "10:00",
-  "10:30",
-  "11:00",
-  "11:30",
-  "14:00",
-  "14:30",
-  "15:00",
-  "15:30",
-  "16:00",
-];
-
-// Helper to disable past dates
-const isPastDate = (date: Date) =>
-  date < new Date() && !isSameDay(date, new Date());
-const isSameDay = (date1: Date, date2: Date) =>
-  date1.getFullYear() === date2.getFullYear() &&
-  date1.getMonth() === date2.getMonth() &&
-  date1.getDate() === date2.getDate();
+interface BookableSlot {
+  start: string;
+  end: string;
+  date: string;
+  time: string;
+}
+
+interface SlotsResponse {
+  timeZone: string;
+  slots: BookableSlot[];
+}
+
+// How far ahead a new time can be proposed
+const SLOT_HORIZON_DAYS = 60;
+
+// apiRequest errors look like "409: {json body}"
+const parseApiError = (error: Error): { message?: string; alternatives?: BookableSlot[] } => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+  } catch {
+    return { message: error.message };
+  }
+};
 
 export function RescheduleAppointmentModal({
   open,
   onOpenChange,
   appointmentId,
+  doctorId,
   currentDate,
+  counterRequestId,
 }: RescheduleModalProps) {
-  // State now stores Date object for the calendar
   const [newDate, setNewDate] = useState<Date | undefined>(undefined);
   const [newTime, setNewTime] = useState("");
+  const [message, setMessage] = useState("");
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Use a unique key for the Popover to manage its open/close state
-  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const { data: slotsData, isLoading } = useQuery<SlotsResponse>({
+    queryKey: ["/api/doctors", doctorId, "slots"],
+    queryFn: async () => {
+      const from = startOfDay(new Date());
+      const to = addDays(from, SLOT_HORIZON_DAYS);
+      const res = await apiRequest(
+        "GET",
+        `/api/doctors/${doctorId}/slots?from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}`
+      );
+      return res.json();
+    },
+    enabled: open && !!doctorId,
+    staleTime: 1000 * 30,
+  });
+
+  // Free slots grouped by calendar day in the viewer's zone
+  const slotsByDate = useMemo(() => {
+    const map = new Map<string, BookableSlot[]>();
+    (slotsData?.slots ?? []).forEach((slot) => {
+      const key = format(new Date(slot.start), "yyyy-MM-dd");
+      map.set(key, [...(map.get(key) ?? []), slot]);
+    });
+    return map;
+  }, [slotsData]);
+
+  const slotsForSelectedDate = newDate
+    ? slotsByDate.get(format(newDate, "yyyy-MM-dd")) ?? []
+    : [];
+
+  const resetAndClose = () => {
+    setNewDate(undefined);
+    setNewTime("");
+    setMessage("");
+    onOpenChange(false);
+  };
 
   const rescheduleMutation = useMutation({
     mutationFn: async () => {
-      if (!newDate || !newTime) {
+      if (!newTime) {
         throw new Error("Please select both date and time");
       }
 
-      // Combine Date object and time string
-      const appointmentDateTime = new Date(newDate);
-      const [hours, minutes] = newTime.split(":").map(Number);
-      appointmentDateTime.setHours(hours, minutes, 0, 0);
-
-      const res = await apiRequest(
-        "PUT",
-        `/api/appointments/${appointmentId}`,
-        {
-          appointmentDate: appointmentDateTime.toISOString(),
-          status: "pending", // Reset status to pending for doctor review
-        }
-      );
-
-      if (!res.ok) {
-        const error = await res.json();
-        throw new Error(error.message || "Failed to reschedule appointment");
-      }
-
+      const body = { proposedStart: newTime, message: message.trim() || undefined };
+      const res = counterRequestId
+        ? await apiRequest(
+            "POST",
+            `/api/appointments/${appointmentId}/reschedule-requests/${counterRequestId}/respond`,
+            { ...body, action: "counter" }
+          )
+        : await apiRequest("POST", `/api/appointments/${appointmentId}/reschedule-requests`, body);
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reschedule-requests/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments", appointmentId, "reschedule-requests"] });
       toast({
-        title: "Appointment Rescheduled",
-        description: "Your appointment has been successfully rescheduled.",
+        title: counterRequestId ? "New Time Proposed" : "Reschedule Requested",
+        description: "The appointment will move once the other side accepts the new time.",
       });
-      setNewDate(undefined);
-      setNewTime("");
-      onOpenChange(false);
+      resetAndClose();
     },
     onError: (error: Error) => {
+      const { message: reason, alternatives = [] } = parseApiError(error);
+      queryClient.invalidateQueries({ queryKey: ["/api/doctors", doctorId, "slots"] });
+      setNewTime("");
       toast({
         title: "Reschedule Failed",
-        description: error.message,
+        description: alternatives.length
+          ? `${reason}. Next available: ${alternatives
+              .slice(0, 3)
+              .map((slot) => format(new Date(slot.start), "PPP 'at' p"))
+              .join(", ")}`
+          : reason,
         variant: "destructive",
       });
     },
   });
 
-  const handleReschedule = () => {
-    rescheduleMutation.mutate();
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent>
         <DialogHeader>
-          <DialogTitle>Reschedule Appointment</DialogTitle>
+          <DialogTitle>{counterRequestId ? "Propose Another Time" : "Reschedule Appointment"}</DialogTitle>
           <DialogDescription>
             Current appointment: {new Date(currentDate).toLocaleString()}
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-6 py-4">
-          {/* 📅 DATE SELECTION (Using Popover & Calendar) */}
+          {/* 📅 DATE SELECTION */}
           <div className="space-y-2">
             <Label htmlFor="date">Select New Date</Label>
             <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
@@ -159,49 +190,62 @@ export function RescheduleAppointmentModal({
                   selected={newDate}
                   onSelect={(date) => {
                     setNewDate(date);
-                    setIsCalendarOpen(false); // Close calendar upon selection
+                    setNewTime("");
+                    setIsCalendarOpen(false);
                   }}
-                  // Disable dates in the past (optional, but good practice)
-                  disabled={isPastDate}
+                  // Only days with at least one free slot can be picked
+                  disabled={(date) => !slotsByDate.has(format(date, "yyyy-MM-dd"))}
                   initialFocus
                 />
               </PopoverContent>
             </Popover>
           </div>
 
-          {/* ⏰ TIME SELECTION (Using Select) */}
+          {/* ⏰ TIME SELECTION */}
           <div className="space-y-2">
             <Label htmlFor="time">Select New Time</Label>
-            <Select
-              value={newTime}
-              onValueChange={setNewTime}
-              disabled={!newDate} // Disable if no date is selected
-            >
+            <Select value={newTime} onValueChange={setNewTime} disabled={!newDate}>
               <SelectTrigger>
                 <SelectValue
-                  placeholder={!newDate ? "Select a date first" : "Select time"}
+                  placeholder={
+                    isLoading
+                      ? "Loading slots..."
+                      : !newDate
+                        ? "Select a date first"
+                        : "Select time"
+                  }
                 />
               </SelectTrigger>
               <SelectContent className="max-h-[200px] overflow-y-auto">
-                {/* 💡 MOCK DATA: In a real scenario, this would be the timeSlots array from an availability query */}
-                {mockTimeSlots.map((time) => (
-                  <SelectItem key={time} value={time}>
-                    {time}
+                {slotsForSelectedDate.map((slot) => (
+                  <SelectItem key={slot.start} value={slot.start}>
+                    {format(new Date(slot.start), "p")}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="reschedule-message">Message (optional)</Label>
+            <Textarea
+              id="reschedule-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Let them know why you need a new time"
+              rows={2}
+            />
+          </div>
+
           <div className="flex gap-3 justify-end">
             <Button variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
             <Button
-              onClick={handleReschedule}
-              disabled={rescheduleMutation.isPending || !newDate || !newTime}
+              onClick={() => rescheduleMutation.mutate()}
+              disabled={rescheduleMutation.isPending || !newTime}
             >
-              {rescheduleMutation.isPending ? "Rescheduling..." : "Reschedule"}
+              {rescheduleMutation.isPending ? "Sending..." : "Send Proposal"}
             </Button>
           </div>
         </div>
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { RescheduleAppointmentModal } from "@/components/reschedule-appointment-modal";
+import { CalendarClock, ArrowRight } from "lucide-react";
+import { format } from "date-fns";
+
+interface PendingRescheduleRequest {
+  _id: string;
+  appointmentId: string;
+  requestedByRole: "patient" | "doctor";
+  requesterName: string;
+  proposedStart: string;
+  previousStart: string;
+  message?: string;
+  counterOf?: string;
+  awaitingMe: boolean;
+  doctorId: string;
+  timeZone: string;
+}
+
+type RespondAction = "accept" | "decline" | "withdraw";
+
+const PENDING_QUERY_KEY = ["/api/reschedule-requests/pending"];
+
+// Open reschedule proposals on the user's appointments, both incoming and sent
+export default function RescheduleRequestsPanel() {
+  const [counterTarget, setCounterTarget] = useState<PendingRescheduleRequest | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: requests = [] } = useQuery<PendingRescheduleRequest[]>({
+    queryKey: PENDING_QUERY_KEY,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ request, action }: { request: PendingRescheduleRequest; action: RespondAction }) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/appointments/${request.appointmentId}/reschedule-requests/${request._id}/respond`,
+        { action }
+      );
+      return res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: PENDING_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/doctors"] });
+      toast({
+        title:
+          action === "accept"
+            ? "Appointment Rescheduled"
+            : action === "decline"
+              ? "Request Declined"
+              : "Request Withdrawn",
+        description:
+          action === "accept"
+            ? "The appointment has moved to the new time."
+            : "The appointment keeps its current time.",
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: PENDING_QUERY_KEY });
+      let description = error.message;
+      try {
+        description = JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+      } catch {
+        // keep the raw message
+      }
+      toast({ title: "Could not update request", description, variant: "destructive" });
+    },
+  });
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Card data-testid="reschedule-requests-panel">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5" />
+          Reschedule Requests
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.map((request) => (
+          <div key={request._id} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">
+                {request.awaitingMe ? `${request.requesterName} proposed a new time` : "Your proposal"}
+              </p>
+              {request.counterOf && <Badge variant="secondary">Counter-proposal</Badge>}
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <span className="line-through">{format(new Date(request.previousStart), "PPP p")}</span>
+              <ArrowRight className="w-4 h-4" />
+              <span className="text-foreground font-medium">
+                {format(new Date(request.proposedStart), "PPP p")}
+              </span>
+            </div>
+            {request.message && <p className="text-sm italic">“{request.message}”</p>}
+
+            {request.awaitingMe ? (
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  disabled={respondMutation.isPending}
+                  onClick={() => respondMutation.mutate({ request, action: "accept" })}
+                >
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={respondMutation.isPending}
+                  onClick={() => setCounterTarget(request)}
+                >
+                  Suggest Another Time
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={respondMutation.isPending}
+                  onClick={() => respondMutation.mutate({ request, action: "decline" })}
+                >
+                  Decline
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">Waiting for a response</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={respondMutation.isPending}
+                  onClick={() => respondMutation.mutate({ request, action: "withdraw" })}
+                >
+                  Withdraw
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+
+      {counterTarget && (
+        <RescheduleAppointmentModal
+          open={!!counterTarget}
+          onOpenChange={(open) => !open && setCounterTarget(null)}
+          appointmentId={counterTarget.appointmentId}
+          doctorId={counterTarget.doctorId}
+          currentDate={counterTarget.previousStart}
+          counterRequestId={counterTarget._id}
+        />
+      )}
+    </Card>
+  );
+}
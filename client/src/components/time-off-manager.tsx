@@ -0,0 +1,387 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar as DayPickerCalendar } from "@/components/ui/calendar";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CalendarOff, Calendar as CalendarIcon, Trash2, AlertTriangle } from "lucide-react";
+import { format, startOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+
+interface TimeOff {
+  _id: string;
+  startsAt: string;
+  endsAt: string;
+  allDay: boolean;
+  reason?: string;
+  timeZone: string;
+}
+
+interface TimeOffConflict {
+  _id: string;
+  patientName: string;
+  appointmentDate: string;
+  duration: number;
+  type: "video" | "in-person";
+  status: string;
+}
+
+interface ResolveResult {
+  cancelled: string[];
+  rescheduled: { appointmentId: string; from: string; to: string }[];
+  failed: { appointmentId: string; message: string }[];
+}
+
+const TIME_OFF_QUERY_KEY = ["/api/doctor/time-off"];
+
+// Rendered in the viewer's zone; all-day entries end at midnight, so show the last full day
+const describeRange = (entry: TimeOff) => {
+  const start = new Date(entry.startsAt);
+  const end = new Date(entry.endsAt);
+  if (entry.allDay) {
+    const lastDay = new Date(end.getTime() - 1);
+    return format(start, "PP") === format(lastDay, "PP")
+      ? format(start, "PPP")
+      : `${format(start, "PP")} – ${format(lastDay, "PP")}`;
+  }
+  return `${format(start, "PPP p")} – ${format(end, "p")}`;
+};
+
+export default function TimeOffManager() {
+  const [allDay, setAllDay] = useState(true);
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [blockDate, setBlockDate] = useState<Date | undefined>();
+  const [startTime, setStartTime] = useState("14:00");
+  const [endTime, setEndTime] = useState("15:00");
+  const [reason, setReason] = useState("");
+  const [conflictDialog, setConflictDialog] = useState<{ timeOffId: string; conflicts: TimeOffConflict[] } | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: timeOff = [], isLoading } = useQuery<TimeOff[]>({
+    queryKey: TIME_OFF_QUERY_KEY,
+  });
+
+  const invalidateSchedule = () => {
+    queryClient.invalidateQueries({ queryKey: TIME_OFF_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/doctors"] });
+  };
+
+  const createTimeOffMutation = useMutation({
+    mutationFn: async (payload: Record<string, unknown>) => {
+      const res = await apiRequest("POST", "/api/doctor/time-off", payload);
+      return (await res.json()) as { timeOff: TimeOff; conflicts: TimeOffConflict[] };
+    },
+    onSuccess: ({ timeOff: created, conflicts }) => {
+      invalidateSchedule();
+      setRange(undefined);
+      setBlockDate(undefined);
+      setReason("");
+      toast({
+        title: "Time Off Added",
+        description: conflicts.length
+          ? `${conflicts.length} booked appointment(s) fall inside this time.`
+          : "Patients can no longer book during this time.",
+      });
+      if (conflicts.length) {
+        setConflictDialog({ timeOffId: created._id, conflicts });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTimeOffMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/doctor/time-off/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateSchedule();
+      toast({
+        title: "Time Off Removed",
+        description: "Those hours are bookable again.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resolveConflictsMutation = useMutation({
+    mutationFn: async ({ timeOffId, action }: { timeOffId: string; action: "cancel" | "reschedule" }) => {
+      const res = await apiRequest("POST", `/api/doctor/time-off/${timeOffId}/resolve`, { action });
+      return (await res.json()) as ResolveResult;
+    },
+    onSuccess: (result) => {
+      invalidateSchedule();
+      setConflictDialog(null);
+      const handled = result.cancelled.length + result.rescheduled.length;
+      toast({
+        title: result.failed.length ? "Some Appointments Need Attention" : "Patients Notified",
+        description: result.failed.length
+          ? `${handled} handled, ${result.failed.length} could not be changed: ${result.failed[0].message}`
+          : result.cancelled.length
+            ? `${result.cancelled.length} appointment(s) cancelled.`
+            : `${result.rescheduled.length} appointment(s) moved to your next free slots.`,
+        variant: result.failed.length ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const showConflicts = async (timeOffId: string) => {
+    try {
+      const res = await apiRequest("GET", `/api/doctor/time-off/${timeOffId}/conflicts`);
+      const conflicts: TimeOffConflict[] = await res.json();
+      if (!conflicts.length) {
+        toast({ title: "No Conflicts", description: "No booked appointments fall inside this time off." });
+        return;
+      }
+      setConflictDialog({ timeOffId, conflicts });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleAddTimeOff = () => {
+    if (allDay) {
+      if (!range?.from) {
+        toast({
+          title: "Select dates",
+          description: "Choose the first and last day you are away.",
+          variant: "destructive",
+        });
+        return;
+      }
+      createTimeOffMutation.mutate({
+        allDay: true,
+        startDate: format(range.from, "yyyy-MM-dd"),
+        endDate: format(range.to ?? range.from, "yyyy-MM-dd"),
+        reason: reason || undefined,
+      });
+      return;
+    }
+
+    if (!blockDate || !startTime || !endTime || startTime >= endTime) {
+      toast({
+        title: "Check the time range",
+        description: "Pick a date and an end time after the start time.",
+        variant: "destructive",
+      });
+      return;
+    }
+    createTimeOffMutation.mutate({
+      date: format(blockDate, "yyyy-MM-dd"),
+      startTime,
+      endTime,
+      reason: reason || undefined,
+    });
+  };
+
+  const todayStart = startOfDay(new Date());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarOff className="w-5 h-5 mr-2" />
+          Time Off
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="flex items-center justify-between rounded-lg border border-border/60 bg-muted/20 p-4">
+            <div>
+              <p className="text-sm font-semibold">Whole days</p>
+              <p className="text-xs text-muted-foreground">Turn off to block a few hours on one day.</p>
+            </div>
+            <Switch checked={allDay} onCheckedChange={setAllDay} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="timeOffReason" className="text-sm font-medium">Reason (optional)</Label>
+            <Input
+              id="timeOffReason"
+              placeholder="e.g. Vacation, conference"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">{allDay ? "Dates" : "Date"}</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full justify-start gap-2">
+                  <CalendarIcon className="h-4 w-4" />
+                  {allDay
+                    ? range?.from
+                      ? `${format(range.from, "PP")}${range.to ? ` – ${format(range.to, "PP")}` : ""}`
+                      : "Pick a date range"
+                    : blockDate
+                      ? format(blockDate, "PPP")
+                      : "Pick a date"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start" sideOffset={12}>
+                {allDay ? (
+                  <DayPickerCalendar
+                    mode="range"
+                    selected={range}
+                    onSelect={setRange}
+                    disabled={(date) => date < todayStart}
+                  />
+                ) : (
+                  <DayPickerCalendar
+                    mode="single"
+                    selected={blockDate}
+                    onSelect={setBlockDate}
+                    disabled={(date) => date < todayStart}
+                  />
+                )}
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          {!allDay && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="timeOffStart" className="text-sm font-medium">From</Label>
+                <Input id="timeOffStart" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="timeOffEnd" className="text-sm font-medium">Until</Label>
+                <Input id="timeOffEnd" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleAddTimeOff} disabled={createTimeOffMutation.isPending} className="min-w-[160px]">
+            {createTimeOffMutation.isPending ? "Saving..." : "Block time"}
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">Upcoming time off</h3>
+          {isLoading ? (
+            <div className="h-12 bg-muted rounded animate-pulse" />
+          ) : timeOff.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No time off scheduled.</p>
+          ) : (
+            timeOff.map((entry) => (
+              <div
+                key={entry._id}
+                className="flex flex-col gap-3 rounded-lg border border-border/60 bg-card/80 p-4 shadow-sm md:flex-row md:items-center md:justify-between"
+              >
+                <div className="flex flex-wrap items-center gap-3">
+                  <Badge variant="secondary" className="bg-red-500/10 text-red-600">
+                    {entry.allDay ? "Away" : "Blocked"}
+                  </Badge>
+                  <span className="font-semibold text-sm">{describeRange(entry)}</span>
+                  {entry.reason && <span className="text-xs text-muted-foreground">{entry.reason}</span>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => showConflicts(entry._id)}>
+                    Check bookings
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => deleteTimeOffMutation.mutate(entry._id)}
+                    disabled={deleteTimeOffMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!conflictDialog} onOpenChange={(open) => !open && setConflictDialog(null)}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <AlertTriangle className="w-5 h-5 mr-2 text-amber-500" />
+              Appointments during your time off
+            </DialogTitle>
+            <DialogDescription>
+              These patients are booked while you are away. Cancel them (paid bookings are refunded) or move
+              each one to your next free slot. Patients are notified either way.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[280px] space-y-2 overflow-y-auto">
+            {conflictDialog?.conflicts.map((conflict) => (
+              <div key={conflict._id} className="flex items-center justify-between rounded-lg border border-border/60 p-3 text-sm">
+                <div>
+                  <p className="font-medium">{conflict.patientName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(conflict.appointmentDate), "PPP p")} · {conflict.duration} mins ·{" "}
+                    {conflict.type === "video" ? "Video" : "In-person"}
+                  </p>
+                </div>
+                <Badge variant="outline">{conflict.status.replace("_", " ")}</Badge>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button variant="ghost" onClick={() => setConflictDialog(null)}>
+              Keep for now
+            </Button>
+            <Button
+              variant="outline"
+              disabled={resolveConflictsMutation.isPending}
+              onClick={() =>
+                conflictDialog &&
+                resolveConflictsMutation.mutate({ timeOffId: conflictDialog.timeOffId, action: "reschedule" })
+              }
+            >
+              Reschedule all
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={resolveConflictsMutation.isPending}
+              onClick={() =>
+                conflictDialog &&
+                resolveConflictsMutation.mutate({ timeOffId: conflictDialog.timeOffId, action: "cancel" })
+              }
+            >
+              Cancel all
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ListOrdered, Timer } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+interface WaitlistEntry {
+  _id: string;
+  doctorId: string;
+  doctorName: string;
+  rangeStart: string;
+  rangeEnd: string;
+  status: "waiting" | "offered";
+  offeredStart?: string;
+  offeredDuration?: number;
+  holdExpiresAt?: string;
+}
+
+type WaitlistAction = "claim" | "decline" | "leave";
+
+const WAITLIST_QUERY_KEY = ["/api/waitlist"];
+
+// Patient's waitlist entries, with any slot currently held for them
+export default function WaitlistPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: entries = [] } = useQuery<WaitlistEntry[]>({
+    queryKey: WAITLIST_QUERY_KEY,
+    // Holds are short-lived, so keep offers fresh while the panel is open
+    refetchInterval: 60 * 1000,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ entry, action }: { entry: WaitlistEntry; action: WaitlistAction }) => {
+      const res =
+        action === "leave"
+          ? await apiRequest("DELETE", `/api/waitlist/${entry._id}`)
+          : await apiRequest("POST", `/api/waitlist/${entry._id}/${action}`);
+      return res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: WAITLIST_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title:
+          action === "claim"
+            ? "Appointment Requested"
+            : action === "decline"
+              ? "Slot Passed On"
+              : "Left Waitlist",
+        description:
+          action === "claim"
+            ? "The doctor will review your request shortly."
+            : action === "decline"
+              ? "You're still on the waitlist for other slots."
+              : "You will no longer be offered cancelled slots.",
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: WAITLIST_QUERY_KEY });
+      let description = error.message;
+      try {
+        description = JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+      } catch {
+        // keep the raw message
+      }
+      toast({ title: "Waitlist update failed", description, variant: "destructive" });
+    },
+  });
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Card data-testid="waitlist-panel">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="w-5 h-5" />
+          Waitlist
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {entries.map((entry) => (
+          <div key={entry._id} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">{entry.doctorName}</p>
+              <Badge variant={entry.status === "offered" ? "default" : "secondary"}>
+                {entry.status === "offered" ? "Slot held" : "Waiting"}
+              </Badge>
+            </div>
+
+            {entry.status === "offered" && entry.offeredStart && entry.holdExpiresAt ? (
+              <>
+                <p className="text-sm">{format(new Date(entry.offeredStart), "PPP 'at' p")}</p>
+                <p className="text-xs text-muted-foreground flex items-center">
+                  <Timer className="w-3 h-3 mr-1" />
+                  Held for you for {formatDistanceToNow(new Date(entry.holdExpiresAt))}
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={actionMutation.isPending}
+                    onClick={() => actionMutation.mutate({ entry, action: "claim" })}
+                  >
+                    Book This Slot
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={actionMutation.isPending}
+                    onClick={() => actionMutation.mutate({ entry, action: "decline" })}
+                  >
+                    Pass
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">
+                  {format(new Date(entry.rangeStart), "PP")} – {format(new Date(new Date(entry.rangeEnd).getTime() - 1), "PP")}
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={actionMutation.isPending}
+                  onClick={() => actionMutation.mutate({ entry, action: "leave" })}
+                >
+                  Leave
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
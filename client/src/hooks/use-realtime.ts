@@ -0,0 +1,97 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+
+type RealtimeEvent =
+  | { type: "notification.created"; notification: { _id: string } }
+  | { type: "appointment.status_changed"; appointmentId: string; from: string; to: string }
+  | {
+      type: "call.participant_joined";
+      appointmentId: string;
+      participant: "doctor" | "patient";
+      joinedAt: string;
+    };
+
+// Longest pause between reconnect attempts
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+// Every list that shows appointments in some form
+const APPOINTMENT_QUERY_KEYS = [
+  ["/api/appointments"],
+  ["/api/doctor/notifications"],
+  ["/api/doctor/appointment-requests"],
+  ["/api/doctor/awaiting-payment-appointments"],
+  ["/api/doctor/clinic-queue"],
+  ["/api/patient/clinic-visits"],
+  ["/api/reschedule-requests/pending"],
+];
+
+const applyEvent = (event: RealtimeEvent) => {
+  switch (event.type) {
+    case "notification.created":
+      // Inbox pages and the unread count all sit under this key
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      break;
+    case "appointment.status_changed":
+      APPOINTMENT_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${event.appointmentId}`] });
+      break;
+    case "call.participant_joined":
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${event.appointmentId}/call-status`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${event.appointmentId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      break;
+  }
+};
+
+/**
+ * Keeps the React Query cache in sync with server pushes while a user is
+ * logged in, reconnecting with backoff when the socket drops.
+ */
+export function useRealtimeEvents() {
+  const { user } = useAuth();
+  const userId = user?._id?.toString();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        // Anything pushed while disconnected was missed, so refetch once
+        if (attempts > 0) {
+          queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+          APPOINTMENT_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+        }
+        attempts = 0;
+      };
+      socket.onmessage = (message) => {
+        try {
+          applyEvent(JSON.parse(message.data));
+        } catch (error) {
+          console.error("Ignoring malformed realtime event", error);
+        }
+      };
+      socket.onclose = () => {
+        if (stopped) return;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [userId]);
+}
@@ -9,6 +9,10 @@ import { useToast } from "@/hooks/use-toast";
 // FIX: Using explicit relative path to resolve import error
 import { apiRequest } from "../lib/queryClient"; 
 import { Textarea } from "@/components/ui/textarea";
+import AdminBroadcasts from "@/components/admin-broadcasts";
+import AdminPricing from "@/components/admin-pricing";
+import AdminPayouts from "@/components/admin-payouts";
+import AdminPayments from "@/components/admin-payments";
 import { 
   Users, 
   UserCheck, 
@@ -29,7 +33,11 @@ import {
   TrendingUp, 
   DollarSign, 
   Calendar, 
-  ShieldCheck
+  ShieldCheck,
+  Megaphone,
+  Percent,
+  Wallet,
+  CreditCard
 } from "lucide-react";
 
 // --- START TYPES (Must match backend schemas) ---
@@ -399,6 +407,9 @@ const verifyProfileMutation = useMutation({
   const pendingDoctors = doctors.filter(doctor => !doctor.profile?.isApproved);
   const verifiedDoctors = doctors.filter(doctor => doctor.profile?.isApproved);
   const unverifiedPatients = patients.filter(patient => !patient.isVerified);
+  const specializations = Array.from(
+    new Set(verifiedDoctors.map(doctor => doctor.profile?.specialization).filter((name): name is string => !!name))
+  ).sort();
 
     // Function to open modal with selected doctor
     const openDoctorModal = (doctor: User) => {
@@ -516,6 +527,38 @@ const verifyProfileMutation = useMutation({
                 <BarChart3 className="w-4 h-4 mr-3" />
                 Analytics
               </Button>
+              <Button
+                variant={activeTab === "broadcasts" ? "default" : "ghost"}
+                className="w-full justify-start"
+                onClick={() => setActiveTab("broadcasts")}
+              >
+                <Megaphone className="w-4 h-4 mr-3" />
+                Announcements
+              </Button>
+              <Button
+                variant={activeTab === "pricing" ? "default" : "ghost"}
+                className="w-full justify-start"
+                onClick={() => setActiveTab("pricing")}
+              >
+                <Percent className="w-4 h-4 mr-3" />
+                Pricing
+              </Button>
+              <Button
+                variant={activeTab === "payouts" ? "default" : "ghost"}
+                className="w-full justify-start"
+                onClick={() => setActiveTab("payouts")}
+              >
+                <Wallet className="w-4 h-4 mr-3" />
+                Payouts
+              </Button>
+              <Button
+                variant={activeTab === "payments" ? "default" : "ghost"}
+                className="w-full justify-start"
+                onClick={() => setActiveTab("payments")}
+              >
+                <CreditCard className="w-4 h-4 mr-3" />
+                Payments
+              </Button>
             </nav>
           </div>
         </div>
@@ -1028,6 +1071,46 @@ const verifyProfileMutation = useMutation({
               </div>
             </div>
           )}
+
+          {activeTab === "broadcasts" && (
+            <div>
+              <div className="mb-8">
+                <h1 className="text-3xl font-bold mb-2">Announcements</h1>
+                <p className="text-muted-foreground">Message users about downtime, policy changes or holiday schedules</p>
+              </div>
+              <AdminBroadcasts specializations={specializations} />
+            </div>
+          )}
+
+          {activeTab === "pricing" && (
+            <div>
+              <div className="mb-8">
+                <h1 className="text-3xl font-bold mb-2">Pricing</h1>
+                <p className="text-muted-foreground">Platform fees, commission tiers and taxes on consultations</p>
+              </div>
+              <AdminPricing />
+            </div>
+          )}
+
+          {activeTab === "payouts" && (
+            <div>
+              <div className="mb-8">
+                <h1 className="text-3xl font-bold mb-2">Payouts</h1>
+                <p className="text-muted-foreground">Doctor balances, settlement batches and payout status</p>
+              </div>
+              <AdminPayouts />
+            </div>
+          )}
+
+          {activeTab === "payments" && (
+            <div>
+              <div className="mb-8">
+                <h1 className="text-3xl font-bold mb-2">Payments</h1>
+                <p className="text-muted-foreground">Payments, refunds and dispute settlements</p>
+              </div>
+              <AdminPayments />
+            </div>
+          )}
         </div>
       </div>
 
@@ -21,7 +21,12 @@ import { apiRequest } from "@/lib/queryClient";
 import Navigation from "@/components/navigation";
 import AppointmentStatusManager from "@/components/appointment-status-manager";
 import AvailabilityManager from "@/components/availability-manager";
+import TimeOffManager from "@/components/time-off-manager";
+import RescheduleRequestsPanel from "@/components/reschedule-requests-panel";
+import ClinicQueuePanel from "@/components/clinic-queue-panel";
+import NotificationPreferencesPanel from "@/components/notification-preferences-panel";
 import DocumentUpload from "@/components/document-upload";
+import DoctorPayoutStatement from "@/components/doctor-payout-statement";
 import { DoctorNotificationDashboard } from "@/components/doctor-notification-dashboard";
 import {
     Users,
@@ -40,11 +45,15 @@ import {
     MapPin,
     Loader2,
     Plus,
-    Zap
+    Zap,
+    ListOrdered,
+    Settings,
+    Wallet
 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertDoctorProfileSchema } from "@shared/mongodb-schema";
+import { localTimeZone } from "@shared/time-zone";
 import { z } from "zod";
 import { useLocation } from "wouter"; 
 
@@ -66,6 +75,7 @@ interface DoctorProfile {
     totalReviews: number;
     profilePicture?: string;
     gender?: 'male' | 'female' | 'other';
+    timeZone?: string;
     clinicAddress?: {
         fullAddress: string;
         city: string;
@@ -150,8 +160,6 @@ export default function DoctorPortal() {
             if (!res.ok) throw new Error("Failed to fetch doctor notifications");
             return res.json();
         },
-        refetchInterval: 5000,
-        refetchIntervalInBackground: true,
     });
 
     const appointmentsRequiringAction = notifications.filter((a: any) =>
@@ -230,6 +238,7 @@ export default function DoctorPortal() {
             licenseNumber: "",
             profilePicture: undefined,
             gender: undefined,
+            timeZone: localTimeZone(),
             clinicAddress: undefined,
         },
         values: profile ? {
@@ -245,6 +254,7 @@ export default function DoctorPortal() {
             totalReviews: profile.totalReviews,
             profilePicture: profile.profilePicture || undefined,
             gender: profile.gender || undefined,
+            timeZone: profile.timeZone || localTimeZone(),
             clinicAddress: profile.clinicAddress || undefined,
         } : undefined,
     });
@@ -653,6 +663,15 @@ const handleDoctorJoinCall = (appointment: Appointment) => {
                                     </Badge>
                                 )}
                             </Button>
+                            <Button
+                                variant={activeTab === "notification-settings" ? "default" : "ghost"}
+                                className="w-full justify-start"
+                                onClick={() => setActiveTab("notification-settings")}
+                                data-testid="button-notification-settings"
+                            >
+                                <Settings className="w-4 h-4 mr-3" />
+                                Notification Settings
+                            </Button>
                             {/* --- DASHBOARD BUTTON --- */}
                             <Button
                                 variant={activeTab === "dashboard" ? "default" : "ghost"}
@@ -673,6 +692,15 @@ const handleDoctorJoinCall = (appointment: Appointment) => {
                                 <Calendar className="w-4 h-4 mr-3" />
                                 Appointments
                             </Button>
+                            <Button
+                                variant={activeTab === "queue" ? "default" : "ghost"}
+                                className="w-full justify-start"
+                                onClick={() => setActiveTab("queue")}
+                                data-testid="button-clinic-queue"
+                            >
+                                <ListOrdered className="w-4 h-4 mr-3" />
+                                Clinic Queue
+                            </Button>
                             <Button
                                 variant={activeTab === "availability" ? "default" : "ghost"}
                                 className="w-full justify-start"
@@ -691,6 +719,15 @@ const handleDoctorJoinCall = (appointment: Appointment) => {
                                 <FileText className="w-4 h-4 mr-3" />
                                 Documents
                             </Button>
+                            <Button
+                                variant={activeTab === "payouts" ? "default" : "ghost"}
+                                className="w-full justify-start"
+                                onClick={() => setActiveTab("payouts")}
+                                data-testid="button-payouts"
+                            >
+                                <Wallet className="w-4 h-4 mr-3" />
+                                Payouts
+                            </Button>
                             <Button
                                 variant={activeTab === "plus" ? "default" : "ghost"}
                                 className="w-full justify-start"
@@ -729,6 +766,17 @@ const handleDoctorJoinCall = (appointment: Appointment) => {
                             <DoctorNotificationDashboard />
                         </div>
                     )}
+                    {activeTab === "notification-settings" && (
+                        <div data-testid="notification-settings-content">
+                            <div className="mb-8">
+                                <h1 className="text-3xl font-bold mb-2">Notification Settings</h1>
+                                <p className="text-muted-foreground">
+                                    Choose how and when you hear about appointments
+                                </p>
+                            </div>
+                            <NotificationPreferencesPanel role="doctor" />
+                        </div>
+                    )}
                     {/* --- DASHBOARD TAB CONTENT --- */}
                     {activeTab === "dashboard" && (
                         <div data-testid="dashboard-content">
@@ -1121,6 +1169,25 @@ const handleDoctorJoinCall = (appointment: Appointment) => {
                                                     {...profileForm.register("hospitalAffiliation")}
                                                 />
                                             </div>
+
+                                            <div>
+                                                <Label htmlFor="timeZone">Time Zone</Label>
+                                                <Input
+                                                    id="timeZone"
+                                                    type="text"
+                                                    placeholder="e.g. Asia/Kolkata"
+                                                    data-testid="input-time-zone"
+                                                    {...profileForm.register("timeZone")}
+                                                />
+                                                <p className="text-xs text-muted-foreground mt-1">
+                                                    Your availability hours are read in this zone
+                                                </p>
+                                                {profileForm.formState.errors.timeZone && (
+                                                    <p className="text-xs text-destructive mt-1">
+                                                        {profileForm.formState.errors.timeZone.message}
+                                                    </p>
+                                                )}
+                                            </div>
                                         </div>
 
                                         <div>
@@ -1167,6 +1234,10 @@ const handleDoctorJoinCall = (appointment: Appointment) => {
                                 </p>
                             </div>
 
+                            <div className="mb-6">
+                                <RescheduleRequestsPanel />
+                            </div>
+
                             <Tabs defaultValue="upcoming" className="w-full">
                                 <TabsList>
                                     <TabsTrigger value="upcoming" data-testid="tab-upcoming">
@@ -1298,6 +1369,19 @@ const handleDoctorJoinCall = (appointment: Appointment) => {
                         </div>
                     )}
 
+                    {activeTab === "queue" && (
+                        <div data-testid="clinic-queue-content">
+                            <div className="mb-8">
+                                <h1 className="text-3xl font-bold mb-2">Clinic Queue</h1>
+                                <p className="text-muted-foreground">
+                                    Check in patients and see who is next for today's in-person visits
+                                </p>
+                            </div>
+
+                            <ClinicQueuePanel />
+                        </div>
+                    )}
+
                     {activeTab === "availability" && (
                         <div data-testid="availability-content">
                             <div className="mb-8">
@@ -1309,7 +1393,10 @@ const handleDoctorJoinCall = (appointment: Appointment) => {
                                 </p>
                             </div>
 
-                            <AvailabilityManager />
+                            <div className="space-y-6">
+                                <AvailabilityManager />
+                                <TimeOffManager />
+                            </div>
                         </div>
                     )}
 
@@ -1327,6 +1414,19 @@ const handleDoctorJoinCall = (appointment: Appointment) => {
                             <DocumentUpload />
                         </div>
                     )}
+
+                    {activeTab === "payouts" && (
+                        <div data-testid="payouts-content">
+                            <div className="mb-8">
+                                <h1 className="text-3xl font-bold mb-2">Payouts</h1>
+                                <p className="text-muted-foreground">
+                                    Your earnings, refund adjustments and payouts to your bank account
+                                </p>
+                            </div>
+
+                            <DoctorPayoutStatement />
+                        </div>
+                    )}
                     {activeTab === "plus" && (
                         <div data-testid="plus-content">
                             <AppointdPlusDoctor />
@@ -23,6 +23,12 @@ import PatientProfileManager from "@/components/patient-profile-manager";
 import HealthRecordsManager from "@/components/health-records-manager";
 import { PatientNotificationDashboard } from "@/components/patient-notification-dashboard";
 import { RescheduleAppointmentModal } from "@/components/reschedule-appointment-modal";
+import RescheduleRequestsPanel from "@/components/reschedule-requests-panel";
+import WaitlistPanel from "@/components/waitlist-panel";
+import ClinicVisitPanel from "@/components/clinic-visit-panel";
+import CancelAppointmentDialog from "@/components/cancel-appointment-dialog";
+import NotificationPreferencesPanel from "@/components/notification-preferences-panel";
+import PatientPaymentHistory from "@/components/patient-payment-history";
 import { useLocation } from "wouter";
 import {
   Search,
@@ -33,6 +39,8 @@ import {
   Heart,
   Clock,
   Bell,
+  Settings,
+  CreditCard,
 } from "lucide-react";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 
@@ -69,6 +77,8 @@ interface Appointment {
   notes?: string;
   createdAt: string;
   roomName?: string;
+  seriesId?: string;
+  seriesIndex?: number;
   doctor?: {
     firstName: string;
     lastName: string;
@@ -93,13 +103,16 @@ export default function PatientPortal() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const [cancelAppointmentId, setCancelAppointmentId] = useState<string | null>(null);
   const [rescheduleModal, setRescheduleModal] = useState<{
     open: boolean;
     appointmentId: string;
+    doctorId: string;
     currentDate: string;
   }>({
     open: false,
     appointmentId: "",
+    doctorId: "",
     currentDate: "",
   });
 
@@ -123,18 +136,16 @@ export default function PatientPortal() {
   const currentUser = freshUser || user;
 
   // Fetch unread notifications count
-  const { data: notifications = [] } = useQuery({
-    queryKey: ["/api/notifications"],
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications", "unread-count"],
     queryFn: async () => {
-      const res = await fetch("/api/notifications");
+      const res = await fetch("/api/notifications/unread-count");
       if (!res.ok) throw new Error("Failed to fetch notifications");
       return res.json();
     },
-    refetchInterval: 5000,
-    refetchIntervalInBackground: true,
   });
 
-  const unreadCount = notifications.filter((n: any) => !n.read).length;
+  const unreadCount = unread?.count ?? 0;
 
   // Fetch doctors
   const { data: doctorsRaw = [], isLoading: doctorsLoading } = useQuery<any[]>({
@@ -194,6 +205,10 @@ export default function PatientPortal() {
     consultationFee: apt.consultationFee,
     notes: apt.notes,
     createdAt: apt.createdAt,
+    noShow: apt.noShow,
+    pendingRefund: apt.pendingRefund,
+    seriesId: apt.seriesId,
+    seriesIndex: apt.seriesIndex,
     roomName: apt.roomName,
     doctor: apt.doctor
       ? {
@@ -242,12 +257,19 @@ export default function PatientPortal() {
   });
 
   const cancelAppointmentMutation = useMutation({
-    mutationFn: async (appointmentId: string) => {
+    mutationFn: async ({
+      appointmentId,
+      cancelSeries,
+    }: {
+      appointmentId: string;
+      cancelSeries: boolean;
+    }) => {
       const res = await apiRequest(
         "POST",
         `/api/appointments/${appointmentId}/cancel`,
         {
           reason: "Cancelled by patient",
+          cancelSeries,
         }
       );
       if (!res.ok) {
@@ -256,11 +278,17 @@ export default function PatientPortal() {
       }
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      setCancelAppointmentId(null);
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
       toast({
         title: "Appointment Cancelled",
-        description: "Your appointment has been successfully cancelled.",
+        description:
+          data.appointment?.pendingRefund
+            ? `${data.message}. Your refund of ₹${data.appointment.pendingRefund.amount} could not be issued right away; we will keep trying.`
+            : data.refund?.refundAmount > 0
+              ? `${data.message}. ₹${data.refund.refundAmount} has been refunded.`
+              : `${data.message}.`,
       });
     },
     onError: (error: Error) => {
@@ -313,18 +341,17 @@ export default function PatientPortal() {
     });
   };
 
-  const handleReschedule = (appointmentId: string, currentDate: string) => {
+  const handleReschedule = (appointmentId: string, doctorId: string, currentDate: string) => {
     setRescheduleModal({
       open: true,
       appointmentId,
+      doctorId,
       currentDate,
     });
   };
 
   const handleCancel = (appointmentId: string) => {
-    if (window.confirm("Are you sure you want to cancel this appointment?")) {
-      cancelAppointmentMutation.mutate(appointmentId);
-    }
+    setCancelAppointmentId(appointmentId);
   };
 
   // ===============================================
@@ -412,6 +439,13 @@ export default function PatientPortal() {
                 )}
               </Button>
 
+              <Button
+                variant={activeTab === "notification-settings" ? "default" : "ghost"}
+                className="w-full justify-start"
+                onClick={() => setActiveTab("notification-settings")}
+              >
+                <Settings className="w-4 h-4 mr-3" /> Notification Settings
+              </Button>
               <Button
                 variant={activeTab === "profile" ? "default" : "ghost"}
                 className="w-full justify-start"
@@ -447,6 +481,13 @@ export default function PatientPortal() {
               >
                 <PillBottle className="w-4 h-4 mr-3" /> Prescriptions
               </Button>
+              <Button
+                variant={activeTab === "payments" ? "default" : "ghost"}
+                className="w-full justify-start"
+                onClick={() => setActiveTab("payments")}
+              >
+                <CreditCard className="w-4 h-4 mr-3" /> Payments
+              </Button>
             </nav>
 
             <div className="mt-8 pt-8 border-t border-border">
@@ -461,6 +502,16 @@ export default function PatientPortal() {
         <div className="flex-1 p-8">
           {activeTab === "notifications" && <PatientNotificationDashboard />}
 
+          {activeTab === "notification-settings" && (
+            <div className="space-y-6">
+              <div>
+                <h1 className="text-3xl font-bold mb-2">Notification Settings</h1>
+                <p className="text-muted-foreground">Choose how and when you hear about your appointments</p>
+              </div>
+              <NotificationPreferencesPanel role="patient" />
+            </div>
+          )}
+
           {activeTab === "search" && (
             <div>
               <div className="mb-8">
@@ -570,7 +621,7 @@ export default function PatientPortal() {
                             doctorName={apt.doctor ? `Dr. ${apt.doctor.firstName} ${apt.doctor.lastName}` : "Doctor"}
                             doctorDetails={apt.doctor}
                             onViewDetails={handleViewDetails}
-                            onReschedule={() => handleReschedule(apt.id, apt.appointmentDate)}
+                            onReschedule={() => handleReschedule(apt.id, apt.doctorId, apt.appointmentDate)}
                             onCancel={handleCancel}
                             onJoinCall={() => handleJoinCall(apt)}
                           />
@@ -596,7 +647,7 @@ export default function PatientPortal() {
                             doctorName={apt.doctor ? `Dr. ${apt.doctor.firstName} ${apt.doctor.lastName}` : "Doctor"}
                             doctorDetails={apt.doctor}
                             onViewDetails={handleViewDetails}
-                            onReschedule={() => handleReschedule(apt.id, apt.appointmentDate)}
+                            onReschedule={() => handleReschedule(apt.id, apt.doctorId, apt.appointmentDate)}
                             onCancel={handleCancel}
                             onJoinCall={() => handleJoinCall(apt)}
                           />
@@ -614,6 +665,9 @@ export default function PatientPortal() {
                 </div>
 
                 <div className="space-y-6">
+                  <ClinicVisitPanel />
+                  <RescheduleRequestsPanel />
+                  <WaitlistPanel />
                   <Card>
                     <CardHeader><CardTitle>Quick Actions</CardTitle></CardHeader>
                     <CardContent>
@@ -653,6 +707,16 @@ export default function PatientPortal() {
             </div>
           )}
 
+          {activeTab === "payments" && (
+            <div>
+              <div className="mb-8">
+                <h1 className="text-3xl font-bold mb-2">Payments</h1>
+                <p className="text-muted-foreground">Your consultation payments and refunds</p>
+              </div>
+              <PatientPaymentHistory />
+            </div>
+          )}
+
           {activeTab === "profile" && (
             <div>
               <div className="mb-8">
@@ -677,8 +741,21 @@ export default function PatientPortal() {
         open={rescheduleModal.open}
         onOpenChange={(open) => setRescheduleModal((prev) => ({ ...prev, open }))}
         appointmentId={rescheduleModal.appointmentId}
+        doctorId={rescheduleModal.doctorId}
         currentDate={rescheduleModal.currentDate}
       />
+
+      <CancelAppointmentDialog
+        appointmentId={cancelAppointmentId}
+        inSeries={
+          !!appointments.find((apt) => apt.id === cancelAppointmentId)?.seriesId
+        }
+        onOpenChange={(open) => !open && setCancelAppointmentId(null)}
+        onConfirm={(appointmentId, cancelSeries) =>
+          cancelAppointmentMutation.mutate({ appointmentId, cancelSeries })
+        }
+        isPending={cancelAppointmentMutation.isPending}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -5,6 +5,7 @@ import { useLocation } from "wouter";
 import { VideoConsultation } from "@/components/video-consultation";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
 
 interface VideoConsultationPageProps {
   params?: {
@@ -51,11 +52,24 @@ export default function VideoConsultationPage({
       console.log("   Query Params:", url.search);
       console.log("   roomName from query:", room);
 
+      // Links from reminder emails and texts only carry the appointment ID;
+      // create (or join) the appointment's room the way the portals do
       if (!room) {
-        console.error("❌ No roomName in query string");
-        console.error("   Expected format: /consultation/ID?roomName=VALUE");
-        setError("Missing room name - video session not initialized.");
-        setIsLoading(false);
+        console.log("🎥 No roomName in query string, creating video session");
+        apiRequest("POST", `/api/appointments/${id}/create-video-session`, {})
+          .then((res) => res.json())
+          .then((data) => {
+            if (!data.roomName) throw new Error("No room name returned from server");
+            setLocation(`/consultation/${id}?roomName=${encodeURIComponent(data.roomName)}`, { replace: true });
+            setRoomName(data.roomName);
+            setError(null);
+            console.log("✅ Video session ready:", data.roomName);
+          })
+          .catch((err) => {
+            console.error("❌ Could not create video session:", err);
+            setError("Could not start the video session for this appointment.");
+          })
+          .finally(() => setIsLoading(false));
         return;
       }
 
@@ -5,7 +5,8 @@ export interface Appointment {
     id?: string;
     patientId: string;
     doctorId: string;
-    appointmentDate: string;
+    appointmentDate: string; // UTC instant
+    timeZone?: string; // Doctor's IANA zone when booked
     duration: number;
     type: "video" | "in-person";
     status: "scheduled" | "completed" | "cancelled" | "no-show" | "awaiting_payment" | "confirmed" | "pending" | "in-progress";
@@ -14,6 +15,20 @@ export interface Appointment {
     prescription?: string;
     prescriptionFile?: string;
     createdAt?: string;
+    // Filled in by the server when an appointment is closed as a no-show
+    noShow?: {
+        absentParty: "patient" | "doctor" | "both";
+        refundAmount: number;
+        detectedAt: string;
+    };
+    // A cancellation or no-show refund Razorpay has not taken yet
+    pendingRefund?: {
+        amount: number;
+        status: "retrying" | "failed";
+    };
+    // Set on visits booked as part of a doctor's follow-up plan
+    seriesId?: string;
+    seriesIndex?: number;
     
     // Video call related
     videoSessionId?: string;
@@ -0,0 +1,135 @@
+import { addHours } from "date-fns";
+import { storage } from "./storage";
+import { transitionAppointment } from "./appointment-state";
+import { numberFromEnv } from "./env";
+import { DEFAULT_TIME_ZONE, formatInTimeZone } from "@shared/time-zone";
+import type { AppointmentStatus, IAppointment } from "@shared/mongodb-schema";
+
+/**
+ * Automatic expiry of appointments nobody acted on: requests the doctor never
+ * answered and accepted appointments the patient never paid for. Both free the
+ * doctor's time by moving the appointment to "cancelled" as the system actor.
+ * Visits of a pay-per-visit follow-up plan are booked weeks ahead, so they
+ * only expire once their start time passes unpaid.
+ */
+
+// How long a doctor has to answer a pending request
+export const PENDING_REQUEST_SLA_HOURS = numberFromEnv("PENDING_REQUEST_SLA_HOURS", 24, 1);
+
+// How long a patient has to pay once the doctor accepts
+export const PAYMENT_WINDOW_HOURS = numberFromEnv("PAYMENT_WINDOW_HOURS", 12, 1);
+
+const SYSTEM_ACTOR = { id: "system", role: "system" as const };
+
+// When the appointment entered its current status
+const enteredStatusAt = (appointment: IAppointment) => {
+  const entry = [...(appointment.statusHistory ?? [])]
+    .reverse()
+    .find((change) => change.to === appointment.status);
+  return new Date(entry?.at ?? appointment.createdAt);
+};
+
+// Whether the appointment is a visit in a pay-per-visit follow-up plan
+const isPerVisitFollowUp = async (appointment: IAppointment) => {
+  if (!appointment.seriesId) return false;
+  const series = await storage.getAppointmentSeries(appointment.seriesId);
+  return series?.paymentMode === "per_visit";
+};
+
+// Appointments stuck in `status` past the window, or whose start time has already passed
+const findExpired = async (status: AppointmentStatus, windowHours: number) => {
+  const now = new Date();
+  const cutoff = addHours(now, -windowHours);
+  const candidates = await storage.getStaleAppointmentCandidates(status, cutoff, now);
+  const expired = [];
+  for (const apt of candidates) {
+    if (new Date(apt.appointmentDate) <= now) {
+      expired.push(apt);
+    } else if (enteredStatusAt(apt) <= cutoff && !(await isPerVisitFollowUp(apt))) {
+      expired.push(apt);
+    }
+  }
+  return expired;
+};
+
+const describe = async (appointment: IAppointment) => {
+  const [doctor, patient] = await Promise.all([
+    storage.getUser(appointment.doctorId),
+    storage.getUser(appointment.patientId),
+  ]);
+  return {
+    doctorName: `Dr. ${doctor?.firstName} ${doctor?.lastName}`,
+    patientName: `${patient?.firstName} ${patient?.lastName}`,
+    when: formatInTimeZone(appointment.appointmentDate, appointment.timeZone || DEFAULT_TIME_ZONE),
+  };
+};
+
+/**
+ * Auto-rejects pending requests the doctor did not answer within the SLA
+ * @returns Number of requests rejected
+ */
+export async function expireUnansweredRequests() {
+  let expired = 0;
+  for (const appointment of await findExpired("pending", PENDING_REQUEST_SLA_HOURS)) {
+    try {
+      const { doctorName, patientName, when } = await describe(appointment);
+      await transitionAppointment(appointment, "cancelled", SYSTEM_ACTOR, {
+        reason: `No response from the doctor within ${PENDING_REQUEST_SLA_HOURS}h`,
+        messages: {
+          patient: {
+            title: "Appointment Request Expired",
+            message: `${doctorName} did not respond to your request for ${when}, so it has been withdrawn. Please pick another time or doctor.`,
+          },
+          doctor: {
+            title: "Appointment Request Expired",
+            message: `The request from ${patientName} for ${when} expired after ${PENDING_REQUEST_SLA_HOURS} hours without a response.`,
+          },
+        },
+      });
+      expired++;
+    } catch (error: any) {
+      console.error(`❌ Could not expire pending appointment ${appointment._id}:`, error.message);
+    }
+  }
+  return expired;
+}
+
+/**
+ * Auto-cancels accepted appointments that were not paid within the payment
+ * window and marks their open payment orders as failed
+ * @returns Number of appointments cancelled
+ */
+export async function expireUnpaidAppointments() {
+  let expired = 0;
+  for (const appointment of await findExpired("awaiting_payment", PAYMENT_WINDOW_HOURS)) {
+    try {
+      const { doctorName, patientName, when } = await describe(appointment);
+      await transitionAppointment(appointment, "cancelled", SYSTEM_ACTOR, {
+        reason: `Not paid within ${PAYMENT_WINDOW_HOURS}h`,
+        messages: {
+          patient: {
+            title: "Appointment Cancelled",
+            message: `Your appointment with ${doctorName} on ${when} was cancelled because payment was not completed within ${PAYMENT_WINDOW_HOURS} hours.`,
+          },
+          doctor: {
+            title: "Appointment Cancelled",
+            message: `The appointment with ${patientName} on ${when} was cancelled because the patient did not pay in time. The slot is free again.`,
+          },
+        },
+      });
+      await storage.failPendingPayments(appointment._id.toString());
+      expired++;
+    } catch (error: any) {
+      console.error(`❌ Could not expire unpaid appointment ${appointment._id}:`, error.message);
+    }
+  }
+  return expired;
+}
+
+export async function expireStaleAppointments() {
+  const rejected = await expireUnansweredRequests();
+  const cancelled = await expireUnpaidAppointments();
+  if (rejected || cancelled) {
+    console.log(`⌛ Expired ${rejected} unanswered request(s) and ${cancelled} unpaid appointment(s)`);
+  }
+}
@@ -0,0 +1,299 @@
+import { storage } from "./storage";
+import { issuePolicyRefund } from "./payments";
+import { offerFreedSlot } from "./waitlist";
+import { cancellationRefundFor } from "./cancellation-policy";
+import { publish } from "./realtime";
+import type {
+  AppointmentStatus,
+  IAppointment,
+  IAppointmentStatusChange,
+  INotification,
+  IPayment,
+  RefundReasonCode,
+} from "@shared/mongodb-schema";
+
+/**
+ * Appointment state machine: the single place that decides which status
+ * changes are allowed, who may make them, and what happens as a result.
+ */
+
+export type ActorRole = IAppointmentStatusChange["actorRole"];
+type Party = "patient" | "doctor";
+type NotificationType = INotification["type"];
+
+export interface TransitionActor {
+  id: string;
+  role: ActorRole;
+}
+
+export interface StatusTransition {
+  from: AppointmentStatus[];
+  to: AppointmentStatus;
+  roles: ActorRole[];
+  // Who hears about the change; "counterparty" is the side that did not act
+  notify?: { parties: Party[] | "counterparty"; type: NotificationType };
+  releaseSlot?: boolean;
+  // Offer the freed slot to the doctor's waitlist
+  offerToWaitlist?: boolean;
+  // Refund the payment according to the cancellation policy
+  refund?: boolean;
+}
+
+interface TransitionOptions {
+  reason?: string;
+  updates?: Partial<IAppointment>;
+  notificationType?: NotificationType;
+  messages?: Partial<Record<Party, { title: string; message: string }>>;
+  // Refund owed under a policy other than the cancellation policy, e.g. for a no-show
+  refund?: { payment: IPayment; amount: number; reasonCode: RefundReasonCode; note: string };
+}
+
+export const APPOINTMENT_TRANSITIONS: StatusTransition[] = [
+  // Doctor accepts a request; patient is asked to pay
+  {
+    from: ["pending"],
+    to: "awaiting_payment",
+    roles: ["doctor", "admin"],
+    notify: { parties: ["patient"], type: "payment_pending" },
+  },
+  // Request withdrawn by the patient or rejected by the doctor
+  {
+    from: ["pending", "awaiting_payment"],
+    to: "cancelled",
+    roles: ["patient", "doctor", "admin", "system"],
+    notify: { parties: "counterparty", type: "appointment_cancelled" },
+    releaseSlot: true,
+    offerToWaitlist: true,
+  },
+  // Payment captured
+  {
+    from: ["awaiting_payment"],
+    to: "scheduled",
+    roles: ["patient", "admin", "system"],
+    notify: { parties: ["patient", "doctor"], type: "appointment_confirmed" },
+  },
+  {
+    from: ["scheduled"],
+    to: "confirmed",
+    roles: ["doctor", "admin"],
+    notify: { parties: ["patient"], type: "appointment_confirmed" },
+  },
+  // Paid appointment cancelled: slot freed and payment refunded per the cancellation policy
+  {
+    from: ["scheduled", "confirmed"],
+    to: "cancelled",
+    roles: ["patient", "doctor", "admin", "system"],
+    notify: { parties: "counterparty", type: "appointment_cancelled" },
+    releaseSlot: true,
+    offerToWaitlist: true,
+    refund: true,
+  },
+  // First participant joins the call
+  {
+    from: ["scheduled", "confirmed"],
+    to: "in-progress",
+    roles: ["patient", "doctor"],
+  },
+  // Only the doctor (or an admin) can close a consultation
+  {
+    from: ["in-progress"],
+    to: "completed",
+    roles: ["doctor", "admin", "system"],
+    notify: { parties: ["patient", "doctor"], type: "consultation_completed" },
+  },
+  {
+    from: ["scheduled", "confirmed"],
+    to: "completed",
+    roles: ["admin"],
+  },
+  {
+    from: ["scheduled", "confirmed", "in-progress"],
+    to: "no-show",
+    roles: ["doctor", "admin", "system"],
+    notify: { parties: ["patient", "doctor"], type: "appointment_no_show" },
+    releaseSlot: true,
+  },
+];
+
+export class AppointmentTransitionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "AppointmentTransitionError";
+    this.status = status;
+  }
+}
+
+/**
+ * Finds the table entry for a status change, if the change is allowed at all
+ */
+export function findTransition(
+  from: AppointmentStatus,
+  to: AppointmentStatus
+): StatusTransition | undefined {
+  return APPOINTMENT_TRANSITIONS.find((t) => t.to === to && t.from.includes(from));
+}
+
+/**
+ * Statuses the given role may move an appointment to from its current status
+ */
+export function allowedNextStatuses(from: AppointmentStatus, role: ActorRole): AppointmentStatus[] {
+  return APPOINTMENT_TRANSITIONS.filter(
+    (t) => t.from.includes(from) && t.roles.includes(role)
+  ).map((t) => t.to);
+}
+
+/**
+ * Works out whether a user acts on an appointment as its patient, its doctor or an admin
+ */
+export function actorFor(
+  id: string,
+  role: string,
+  appointment: { patientId: string; doctorId: string }
+): TransitionActor {
+  if (role === "admin") return { id, role: "admin" };
+  if (appointment.doctorId === id) return { id, role: "doctor" };
+  return { id, role: "patient" };
+}
+
+const notifyRecipients = (
+  transition: StatusTransition,
+  actor: TransitionActor
+): Party[] => {
+  if (!transition.notify) return [];
+  if (transition.notify.parties !== "counterparty") return transition.notify.parties;
+  if (actor.role === "patient") return ["doctor"];
+  if (actor.role === "doctor") return ["patient"];
+  return ["patient", "doctor"];
+};
+
+const defaultMessage = (appointment: IAppointment, to: AppointmentStatus) => ({
+  title: "Appointment Updated",
+  message: `Your appointment on ${new Date(
+    appointment.appointmentDate
+  ).toLocaleDateString("en-US", { timeZone: appointment.timeZone })} is now ${to.replace("_", " ")}.`,
+});
+
+/**
+ * Validates and applies a status change, records it in statusHistory and runs
+ * the side effects listed for it in APPOINTMENT_TRANSITIONS.
+ * @throws AppointmentTransitionError when the move or the actor is not allowed
+ */
+export async function transitionAppointment(
+  appointment: IAppointment,
+  to: AppointmentStatus,
+  actor: TransitionActor,
+  options: TransitionOptions = {}
+) {
+  const from = appointment.status;
+  const appointmentId = appointment._id.toString();
+  const transition = findTransition(from, to);
+
+  if (!transition) {
+    throw new AppointmentTransitionError(`Cannot move appointment from '${from}' to '${to}'`);
+  }
+  if (!transition.roles.includes(actor.role)) {
+    throw new AppointmentTransitionError(
+      `A ${actor.role} cannot move an appointment from '${from}' to '${to}'`,
+      403
+    );
+  }
+
+  // Decide the refund up front so it is recorded with the status change
+  const { payment, refund } = transition.refund
+    ? await cancellationRefundFor(appointment, actor.role)
+    : { payment: null, refund: null };
+  const policyRefund: TransitionOptions["refund"] | null =
+    options.refund ??
+    (payment && refund
+      ? {
+          payment,
+          amount: refund.refundAmount,
+          reasonCode: actor.role === "patient" ? "patient_cancellation" : "doctor_cancellation",
+          note: options.reason ? `${options.reason} (${refund.rule})` : refund.rule,
+        }
+      : null);
+  const updates = {
+    ...options.updates,
+    // Actual finish time, used e.g. for clinic wait estimates
+    ...(to === "completed" && { completedAt: new Date() }),
+    ...(refund && {
+      cancellationRefund: {
+        refundPercent: refund.refundPercent,
+        refundAmount: refund.refundAmount,
+        rule: refund.rule,
+      },
+    }),
+  };
+
+  let updated = await storage.transitionAppointmentStatus(
+    appointmentId,
+    { from, to, actorId: actor.id, actorRole: actor.role, reason: options.reason },
+    updates
+  );
+  if (!updated) {
+    throw new AppointmentTransitionError(
+      "Appointment was updated by someone else, please refresh and try again",
+      409
+    );
+  }
+
+  console.log(`🔀 Appointment ${appointmentId}: ${from} → ${to} by ${actor.role} ${actor.id}`);
+  publish([updated.patientId, updated.doctorId], {
+    type: "appointment.status_changed",
+    appointmentId,
+    from,
+    to,
+  });
+
+  // --- Side effects ---
+  if (transition.releaseSlot) {
+    await storage.releaseAppointmentSlots(appointmentId);
+  }
+
+  if (transition.offerToWaitlist) {
+    try {
+      await offerFreedSlot(updated.doctorId, updated.appointmentDate, updated.duration);
+    } catch (error: any) {
+      console.error(`❌ Waitlist offer for appointment ${appointmentId} failed:`, error.message);
+    }
+  }
+
+  // The patient is only promised what Razorpay actually took; a refund it
+  // did not take is left pending for the refund-retry job
+  let refundNote = "";
+  if (policyRefund && policyRefund.amount <= 0) {
+    refundNote = " The consultation fee is not refundable.";
+  } else if (policyRefund) {
+    const issued = await issuePolicyRefund(appointmentId, policyRefund.payment, policyRefund.amount, {
+      reasonCode: policyRefund.reasonCode,
+      note: policyRefund.note,
+    });
+    if (issued) {
+      refundNote = ` ₹${policyRefund.amount} has been refunded to your original payment method.`;
+    } else {
+      refundNote = ` Your refund of ₹${policyRefund.amount} could not be issued right away. We will keep trying and let you know once it has gone through.`;
+      updated = (await storage.getAppointment(appointmentId)) ?? updated;
+    }
+  }
+
+  for (const party of notifyRecipients(transition, actor)) {
+    const content = options.messages?.[party] ?? defaultMessage(updated, to);
+    await storage.createNotification({
+      recipientId: party === "patient" ? updated.patientId : updated.doctorId,
+      type: options.notificationType ?? transition.notify!.type,
+      title: content.title,
+      message: party === "patient" ? `${content.message}${refundNote}` : content.message,
+      appointmentId,
+      appointmentDate: updated.appointmentDate,
+      consultationFee: updated.consultationFee,
+      doctorId: updated.doctorId,
+      read: false,
+      createdAt: new Date(),
+      notificationChannels: ["email", "inapp"],
+    });
+  }
+
+  return updated;
+}
@@ -34,10 +34,15 @@ export function setupAuth(app: Express) {
     resave: false,
     saveUninitialized: false,
     store: storage.sessionStore,
+    // Not sent on cross-site subrequests, including WebSocket upgrades
+    cookie: { sameSite: "lax" },
   };
 
+  // Kept so the realtime channel can authenticate WebSocket upgrades
+  const sessionParser = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -103,4 +108,6 @@ export function setupAuth(app: Express) {
       done(error);
     }
   });
+
+  return sessionParser;
 }
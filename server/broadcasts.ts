@@ -0,0 +1,138 @@
+import { addMinutes } from "date-fns";
+import { storage } from "./storage";
+import type { IBroadcast, IBroadcastAudience, InsertBroadcast } from "@shared/mongodb-schema";
+
+/**
+ * Admin broadcasts: one announcement fanned out as an "announcement"
+ * notification to every user in the audience, so it shows in their inbox and
+ * goes out by email through the usual delivery jobs and preferences. A
+ * broadcast is sent by the broadcast-delivery job once scheduledFor arrives;
+ * a send that stops halfway is picked up again after its lease and skips the
+ * users who already have their copy.
+ */
+
+// How long a worker owns a broadcast it is sending
+const SEND_LEASE_MINUTES = 10;
+
+// Refresh the lease after this many recipients on large audiences
+const LEASE_RENEW_EVERY = 200;
+
+/**
+ * Short description of an audience, for logs and the admin list
+ */
+export function describeAudience(audience: IBroadcastAudience) {
+  switch (audience.kind) {
+    case "all":
+      return "All users";
+    case "role":
+      return audience.role === "doctor" ? "All doctors" : "All patients";
+    case "specialization":
+      return `Doctors in ${audience.specialization}`;
+    case "upcoming_patients":
+      return audience.withinDays
+        ? `Patients with appointments in the next ${audience.withinDays} day(s)`
+        : "Patients with upcoming appointments";
+  }
+}
+
+/**
+ * Saves a broadcast and, unless it is scheduled for later, sends it right away
+ */
+export async function createBroadcast(data: InsertBroadcast, now = new Date()) {
+  const broadcast = await storage.createBroadcast(data);
+  console.log(
+    `📣 Broadcast ${broadcast._id} by ${data.createdBy} for "${describeAudience(data.audience)}" scheduled for ${data.scheduledFor.toISOString()}`
+  );
+  if (data.scheduledFor <= now) {
+    return (await sendBroadcast(broadcast._id.toString(), now)) ?? broadcast;
+  }
+  return broadcast;
+}
+
+/**
+ * Claims a due broadcast and creates the recipients' notifications
+ * @returns The updated broadcast, or null if it was not due or already taken
+ */
+export async function sendBroadcast(broadcastId: string, now = new Date()) {
+  let broadcast = await storage.claimBroadcast(broadcastId, now, addMinutes(now, SEND_LEASE_MINUTES));
+  if (!broadcast) return null;
+
+  try {
+    const [audience, alreadySent] = await Promise.all([
+      storage.getBroadcastAudienceIds(broadcast.audience, now),
+      storage.getBroadcastRecipientIds(broadcastId),
+    ]);
+    const skip = new Set(alreadySent);
+    const recipients = audience.filter((id) => !skip.has(id));
+
+    for (let i = 0; i < recipients.length; i++) {
+      await storage.createNotification({
+        recipientId: recipients[i],
+        type: "announcement",
+        title: broadcast.title,
+        message: broadcast.message,
+        notificationChannels: broadcast.channels,
+        sentBy: broadcast.createdBy,
+        broadcastId,
+        read: false,
+        createdAt: new Date(),
+      });
+      if ((i + 1) % LEASE_RENEW_EVERY === 0) {
+        await storage.updateBroadcast(broadcastId, { leaseUntil: addMinutes(new Date(), SEND_LEASE_MINUTES) });
+      }
+    }
+
+    broadcast = await storage.updateBroadcast(broadcastId, {
+      status: "sent",
+      sentAt: new Date(),
+      recipientCount: skip.size + recipients.length,
+    });
+    console.log(`📣 Broadcast ${broadcastId} sent to ${skip.size + recipients.length} user(s)`);
+    return broadcast;
+  } catch (error: any) {
+    // Left in 'sending': the next run after the lease resumes where this stopped
+    console.error(`❌ Broadcast ${broadcastId} failed:`, error.message);
+    return await storage.updateBroadcast(broadcastId, { lastError: error.message });
+  }
+}
+
+/**
+ * Sends every broadcast that has come due. Run periodically by the scheduler.
+ * @returns Number of broadcasts sent
+ */
+export async function sendDueBroadcasts(now = new Date()) {
+  let sent = 0;
+  for (const broadcast of await storage.getDueBroadcasts(now)) {
+    const result = await sendBroadcast(broadcast._id.toString(), now);
+    if (result?.status === "sent") sent++;
+  }
+  return sent;
+}
+
+/**
+ * Broadcasts with their delivery and read rates, newest first
+ */
+export async function getBroadcastReport(limit: number) {
+  const broadcasts = await storage.getRecentBroadcasts(limit);
+  const stats = await storage.getBroadcastStats(broadcasts.map((b) => b._id.toString()));
+
+  return broadcasts.map((broadcast: IBroadcast) => {
+    const counts = stats.get(broadcast._id.toString()) ?? {
+      total: 0,
+      read: 0,
+      emailQueued: 0,
+      emailDelivered: 0,
+      emailFailed: 0,
+    };
+    return {
+      ...broadcast.toObject(),
+      audienceLabel: describeAudience(broadcast.audience),
+      stats: {
+        ...counts,
+        // Rates are over everyone it was sent to; read copies expire in time
+        readRate: broadcast.recipientCount ? counts.read / broadcast.recipientCount : 0,
+        emailDeliveryRate: counts.emailQueued ? counts.emailDelivered / counts.emailQueued : 0,
+      },
+    };
+  });
+}
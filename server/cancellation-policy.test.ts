@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { addMinutes } from "date-fns";
+import { computeCancellationRefund, parseRefundTiers } from "./cancellation-policy";
+
+const now = new Date("2026-03-02T10:00:00Z");
+// An appointment starting `minutes` after now
+const startingIn = (minutes: number) => ({ appointmentDate: addMinutes(now, minutes) });
+const refundPercent = (minutesBefore: number) =>
+  computeCancellationRefund(startingIn(minutesBefore), "patient", 500, now).refundPercent;
+
+describe("computeCancellationRefund", () => {
+  it("refunds in full at 24 hours or more before the start", () => {
+    assert.equal(refundPercent(48 * 60), 100);
+    assert.equal(refundPercent(24 * 60), 100);
+  });
+
+  it("refunds half from just under 24 hours until the start", () => {
+    assert.equal(refundPercent(24 * 60 - 1), 50);
+    assert.equal(refundPercent(1), 50);
+    assert.equal(refundPercent(0), 50);
+  });
+
+  it("refunds nothing once the appointment has started", () => {
+    const refund = computeCancellationRefund(startingIn(-1), "patient", 500, now);
+    assert.equal(refund.refundPercent, 0);
+    assert.equal(refund.refundAmount, 0);
+    assert.equal(refund.rule, "Cancelled after the appointment started");
+  });
+
+  it("explains which tier applied", () => {
+    assert.equal(
+      computeCancellationRefund(startingIn(30 * 60), "patient", 500, now).rule,
+      "Cancelled at least 24h before the appointment"
+    );
+    assert.equal(
+      computeCancellationRefund(startingIn(60), "patient", 500, now).rule,
+      "Cancelled less than 24h before the appointment"
+    );
+  });
+
+  it("refunds in full when anyone but the patient cancels, even after the start", () => {
+    for (const role of ["doctor", "admin", "system"] as const) {
+      assert.equal(computeCancellationRefund(startingIn(-60), role, 500, now).refundAmount, 500);
+    }
+    assert.equal(computeCancellationRefund(startingIn(0), "system", 500, now).rule, "Cancelled by the platform");
+  });
+
+  it("rounds the refund to the paisa", () => {
+    const refund = computeCancellationRefund(startingIn(60), "patient", 333.33, now);
+    assert.equal(refund.refundAmount, 166.67);
+    assert.equal(refund.paidAmount, 333.33);
+  });
+});
+
+describe("parseRefundTiers", () => {
+  it("reads hours:percent pairs and orders them from the earliest cut-off", () => {
+    assert.deepEqual(parseRefundTiers("0:25, 48:100,24:50"), [
+      { minHoursBefore: 48, refundPercent: 100 },
+      { minHoursBefore: 24, refundPercent: 50 },
+      { minHoursBefore: 0, refundPercent: 25 },
+    ]);
+  });
+
+  it("rejects malformed or out-of-range tiers", () => {
+    assert.equal(parseRefundTiers("48:100,24"), null);
+    assert.equal(parseRefundTiers("48:120"), null);
+    assert.equal(parseRefundTiers("-1:50"), null);
+    assert.equal(parseRefundTiers("soon:50"), null);
+  });
+});
@@ -0,0 +1,131 @@
+import { differenceInMinutes } from "date-fns";
+import { capturedPaymentFor } from "./payments";
+import { numberFromEnv } from "./env";
+import type { ActorRole } from "./appointment-state";
+import type { IAppointment } from "@shared/mongodb-schema";
+
+/**
+ * Cancellation policy: how much of a paid fee goes back to the patient when a
+ * paid appointment is cancelled. Patients get a share that shrinks as the
+ * appointment gets closer; when the doctor, an admin or the system cancels,
+ * the patient is always refunded in full (by default).
+ */
+
+export interface RefundTier {
+  // Applies when the cancellation happens at least this many hours before the start
+  minHoursBefore: number;
+  refundPercent: number;
+}
+
+export interface CancellationRefund {
+  refundPercent: number;
+  refundAmount: number;
+  paidAmount: number;
+  // Human-readable reason for the percentage, shown before confirming
+  rule: string;
+}
+
+// Default tiers: full refund more than 24h ahead, half within 24h, none after the start
+const DEFAULT_TIERS: RefundTier[] = [
+  { minHoursBefore: 24, refundPercent: 100 },
+  { minHoursBefore: 0, refundPercent: 50 },
+];
+
+/**
+ * Parses tiers written as "hours:percent" pairs, e.g. "48:100,24:50,0:25"
+ * @returns null when the value is malformed
+ */
+export function parseRefundTiers(value: string): RefundTier[] | null {
+  const tiers = value.split(",").map((pair) => {
+    const [hours, percent] = pair.split(":").map((part) => Number(part.trim()));
+    return { minHoursBefore: hours, refundPercent: percent };
+  });
+  const valid = tiers.every(
+    (tier) =>
+      Number.isFinite(tier.minHoursBefore) &&
+      tier.minHoursBefore >= 0 &&
+      Number.isFinite(tier.refundPercent) &&
+      tier.refundPercent >= 0 &&
+      tier.refundPercent <= 100
+  );
+  return valid ? tiers.sort((a, b) => b.minHoursBefore - a.minHoursBefore) : null;
+}
+
+const configuredTiers = (() => {
+  const raw = process.env.CANCELLATION_REFUND_TIERS;
+  if (!raw) return DEFAULT_TIERS;
+  const tiers = parseRefundTiers(raw);
+  if (!tiers) {
+    console.warn("⚠️ Invalid CANCELLATION_REFUND_TIERS, using the default policy");
+    return DEFAULT_TIERS;
+  }
+  return tiers;
+})();
+
+export const CANCELLATION_POLICY = {
+  tiers: configuredTiers,
+  // Share refunded when anyone other than the patient cancels
+  nonPatientRefundPercent: Math.min(numberFromEnv("DOCTOR_CANCELLATION_REFUND_PERCENT", 100), 100),
+};
+
+const roundRupees = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Works out the refund for cancelling an appointment now
+ * @param cancelledBy Role of whoever cancels
+ * @param paidAmount What the patient paid and has not been refunded yet
+ */
+export function computeCancellationRefund(
+  appointment: { appointmentDate: Date },
+  cancelledBy: ActorRole,
+  paidAmount: number,
+  now = new Date()
+): CancellationRefund {
+  const result = (refundPercent: number, rule: string) => ({
+    refundPercent,
+    refundAmount: roundRupees((paidAmount * refundPercent) / 100),
+    paidAmount,
+    rule,
+  });
+
+  if (cancelledBy !== "patient") {
+    return result(
+      CANCELLATION_POLICY.nonPatientRefundPercent,
+      `Cancelled by the ${cancelledBy === "system" ? "platform" : cancelledBy}`
+    );
+  }
+
+  const hoursBefore = differenceInMinutes(new Date(appointment.appointmentDate), now) / 60;
+  if (hoursBefore < 0) {
+    return result(0, "Cancelled after the appointment started");
+  }
+
+  const tiers = CANCELLATION_POLICY.tiers;
+  const index = tiers.findIndex((t) => hoursBefore >= t.minHoursBefore);
+  if (index === -1) {
+    return result(0, `Cancelled less than ${tiers[tiers.length - 1].minHoursBefore}h before the appointment`);
+  }
+
+  const tier = tiers[index];
+  const rule =
+    tier.minHoursBefore > 0
+      ? `Cancelled at least ${tier.minHoursBefore}h before the appointment`
+      : index > 0
+        ? `Cancelled less than ${tiers[index - 1].minHoursBefore}h before the appointment`
+        : "Cancelled before the appointment started";
+  return result(tier.refundPercent, rule);
+}
+
+/**
+ * Looks up the captured payment for an appointment and the refund its
+ * cancellation would trigger right now
+ * @returns refund is null when nothing has been paid
+ */
+export async function cancellationRefundFor(
+  appointment: Pick<IAppointment, "_id" | "appointmentDate" | "seriesId" | "consultationFee">,
+  cancelledBy: ActorRole
+) {
+  const { payment, paidAmount } = await capturedPaymentFor(appointment);
+  const refund = payment ? computeCancellationRefund(appointment, cancelledBy, paidAmount) : null;
+  return { payment, refund };
+}
@@ -0,0 +1,187 @@
+import crypto from "crypto";
+import { addMinutes, differenceInMinutes } from "date-fns";
+import { storage } from "./storage";
+import { numberFromEnv } from "./env";
+import { DEFAULT_APPOINTMENT_DURATION } from "./scheduling";
+import { addDaysToDateKey, zonedDateKey, zonedTimeToUtc } from "@shared/time-zone";
+import type { IAppointment } from "@shared/mongodb-schema";
+
+/**
+ * Check-in and waiting queue for in-person appointments. A patient is checked
+ * in either by scanning their check-in pass (a signed token, shown as a QR
+ * code) at the front desk or manually by clinic staff. The day's queue and
+ * every wait estimate are derived from the checkedInAt, servingStartedAt and
+ * completedAt timestamps on the appointments themselves.
+ */
+
+// How early before the start a patient may check in
+export const CHECK_IN_OPENS_MINUTES = numberFromEnv("CHECK_IN_OPENS_MINUTES", 60, 1);
+
+// How late after the start a patient may still check in
+export const CHECK_IN_CLOSES_MINUTES = numberFromEnv("CHECK_IN_CLOSES_MINUTES", 30);
+
+const WAITING_STATUSES = ["scheduled", "confirmed"];
+
+export class CheckInError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "CheckInError";
+    this.status = status;
+  }
+}
+
+// Key for signing check-in passes. Without one anybody could forge a pass,
+// so none are issued or accepted and patients are checked in by staff.
+const CHECK_IN_SECRET = process.env.CHECK_IN_SECRET || process.env.SESSION_SECRET;
+if (!CHECK_IN_SECRET) {
+  console.warn("⚠️ Neither CHECK_IN_SECRET nor SESSION_SECRET is set, check-in passes are disabled");
+}
+
+const signCheckIn = (appointmentId: string, secret: string) =>
+  crypto
+    .createHmac("sha256", secret)
+    .update(`check-in:${appointmentId}`)
+    .digest("base64url")
+    .slice(0, 16);
+
+/**
+ * Token carried by a patient's check-in pass
+ * @returns undefined if check-in passes are disabled
+ */
+export function checkInToken(appointmentId: string) {
+  if (!CHECK_IN_SECRET) return undefined;
+  return `${appointmentId}.${signCheckIn(appointmentId, CHECK_IN_SECRET)}`;
+}
+
+/**
+ * @returns The appointment a pass belongs to, or null if the token is forged
+ * @throws CheckInError if check-in passes are disabled
+ */
+export function appointmentIdFromCheckInToken(token: string): string | null {
+  if (!CHECK_IN_SECRET) {
+    throw new CheckInError("Check-in passes are not enabled on this server, check the patient in by hand", 503);
+  }
+  const [appointmentId, signature] = token.trim().split(".");
+  if (!appointmentId || !signature) return null;
+
+  const expected = Buffer.from(signCheckIn(appointmentId, CHECK_IN_SECRET));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given)
+    ? appointmentId
+    : null;
+}
+
+/**
+ * Moves an in-person appointment into the clinic's waiting queue
+ * @throws CheckInError when the appointment cannot be checked in now
+ */
+export async function checkIn(appointment: IAppointment, method: "qr" | "staff", now = new Date()) {
+  if (appointment.type !== "in-person") {
+    throw new CheckInError("Only in-person appointments can be checked in");
+  }
+  if (appointment.checkedInAt) {
+    throw new CheckInError("The patient is already checked in", 409);
+  }
+  if (!WAITING_STATUSES.includes(appointment.status)) {
+    throw new CheckInError(`Cannot check in an appointment that is ${appointment.status}`, 409);
+  }
+
+  const start = new Date(appointment.appointmentDate);
+  if (now < addMinutes(start, -CHECK_IN_OPENS_MINUTES)) {
+    throw new CheckInError(`Check-in opens ${CHECK_IN_OPENS_MINUTES} minutes before the appointment`);
+  }
+  if (now > addMinutes(start, CHECK_IN_CLOSES_MINUTES)) {
+    throw new CheckInError("Check-in for this appointment has closed. Please speak to the front desk.");
+  }
+
+  const updated = await storage.checkInAppointment(appointment._id.toString(), method, now);
+  if (!updated) {
+    throw new CheckInError("The appointment changed while checking in, please try again", 409);
+  }
+  return updated;
+}
+
+// Average real consultation length from visits finished today, if any
+const averageConsultMinutes = (visits: IAppointment[]) => {
+  const lengths = visits
+    .filter((visit) => visit.servingStartedAt && visit.completedAt)
+    .map((visit) => differenceInMinutes(new Date(visit.completedAt!), new Date(visit.servingStartedAt!)));
+  if (lengths.length === 0) return null;
+  return Math.max(1, Math.round(lengths.reduce((sum, minutes) => sum + minutes, 0) / lengths.length));
+};
+
+/**
+ * Today's in-person queue for a doctor (in the doctor's time zone): who is
+ * being seen, who is waiting in order with an estimated wait, and who has not
+ * arrived yet.
+ */
+export async function getClinicQueue(doctorId: string, now = new Date()) {
+  const timeZone = await storage.getDoctorTimeZone(doctorId);
+  const today = zonedDateKey(now, timeZone);
+  const visits = await storage.getInPersonAppointmentsInRange(
+    { doctorId },
+    zonedTimeToUtc(today, 0, timeZone),
+    zonedTimeToUtc(addDaysToDateKey(today, 1), 0, timeZone)
+  );
+
+  const average = averageConsultMinutes(visits.filter((visit) => visit.status === "completed"));
+  const consultMinutes = (visit: IAppointment) =>
+    average ?? (visit.duration || DEFAULT_APPOINTMENT_DURATION);
+
+  const nowServing = visits.find((visit) => visit.status === "in-progress") ?? null;
+  const waiting = visits
+    .filter((visit) => visit.checkedInAt && WAITING_STATUSES.includes(visit.status))
+    // Booked time first, so early arrivals do not jump ahead; arrival breaks ties
+    .sort(
+      (a, b) =>
+        new Date(a.appointmentDate).getTime() - new Date(b.appointmentDate).getTime() ||
+        new Date(a.checkedInAt!).getTime() - new Date(b.checkedInAt!).getTime()
+    );
+  const expected = visits.filter(
+    (visit) => !visit.checkedInAt && WAITING_STATUSES.includes(visit.status)
+  );
+
+  // Whatever is left of the current consultation, then each patient ahead in turn
+  let minutesAhead = nowServing
+    ? Math.max(
+        0,
+        consultMinutes(nowServing) -
+          differenceInMinutes(now, new Date(nowServing.servingStartedAt ?? now))
+      )
+    : 0;
+  const waitingWithEstimates = waiting.map((visit, index) => {
+    const estimatedWaitMinutes = minutesAhead;
+    minutesAhead += consultMinutes(visit);
+    return { visit, position: index + 1, estimatedWaitMinutes };
+  });
+
+  return {
+    timeZone,
+    averageConsultMinutes: average,
+    nowServing,
+    waiting: waitingWithEstimates,
+    expected,
+    completedCount: visits.filter((visit) => visit.status === "completed").length,
+  };
+}
+
+/**
+ * Where a checked-in patient stands in their doctor's queue
+ * @returns null when the appointment is not waiting or being seen
+ */
+export async function queuePositionFor(appointment: IAppointment) {
+  if (appointment.status === "in-progress") {
+    return { beingServed: true, position: 0, estimatedWaitMinutes: 0 };
+  }
+  if (!appointment.checkedInAt) return null;
+
+  const queue = await getClinicQueue(appointment.doctorId);
+  const entry = queue.waiting.find(
+    ({ visit }) => visit._id.toString() === appointment._id.toString()
+  );
+  return entry
+    ? { beingServed: false, position: entry.position, estimatedWaitMinutes: entry.estimatedWaitMinutes }
+    : null;
+}
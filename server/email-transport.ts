@@ -0,0 +1,168 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import { numberFromEnv } from "./env";
+
+/**
+ * Outgoing email transports. EMAIL_TRANSPORT picks one:
+ * - smtp: any SMTP relay (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS)
+ * - file: writes each message as an .eml file to EMAIL_OUTBOX_DIR
+ * - console: prints each message to the server log
+ * Without EMAIL_TRANSPORT, smtp is used when SMTP_HOST is set and console otherwise.
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export class EmailDeliveryError extends Error {
+  // The server refused the message outright (5xx), so retrying will not help
+  permanent: boolean;
+
+  constructor(message: string, permanent = false) {
+    super(message);
+    this.name = "EmailDeliveryError";
+    this.permanent = permanent;
+  }
+}
+
+export const EMAIL_FROM = process.env.EMAIL_FROM || "no-reply@localhost";
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+const base64Body = (content: string) =>
+  Buffer.from(content).toString("base64").replace(/.{76}/g, "$&\r\n");
+
+// Bare address out of "Name <address>"
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+
+/**
+ * RFC 5322 message with plain-text and HTML alternatives
+ */
+export function toMime(message: EmailMessage, from = EMAIL_FROM) {
+  const boundary = `=_${crypto.randomBytes(12).toString("hex")}`;
+  const domain = addressOf(from).split("@")[1] || "localhost";
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+export function consoleTransport(): EmailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+export function fileTransport(directory: string): EmailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+      const fileName = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.eml`;
+      await fs.writeFile(path.join(directory, fileName), toMime(message));
+    },
+  };
+}
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  timeoutMs: number;
+}
+
+export function smtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    // Credentials never go over an unencrypted connection: without implicit
+    // TLS the server has to offer STARTTLS or the message is not sent
+    requireTLS: !config.secure && !!config.user,
+    ...(config.user && { auth: { user: config.user, pass: config.pass ?? "" } }),
+    connectionTimeout: config.timeoutMs,
+    greetingTimeout: config.timeoutMs,
+    socketTimeout: config.timeoutMs,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      try {
+        await transporter.sendMail({ from: EMAIL_FROM, ...message });
+      } catch (error: any) {
+        // responseCode is the SMTP reply; connection problems have none
+        const code: number | undefined = error.responseCode;
+        throw new EmailDeliveryError(
+          code ? `SMTP ${code}: ${error.response ?? error.message}` : `${config.host}:${config.port}: ${error.message}`,
+          !!code && code >= 500
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Transport configured by the environment
+ */
+export function createEmailTransport(): EmailTransport {
+  const kind = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console");
+
+  if (kind === "smtp") {
+    if (!process.env.SMTP_HOST) {
+      console.warn("⚠️ EMAIL_TRANSPORT=smtp but SMTP_HOST is not set, logging emails instead");
+      return consoleTransport();
+    }
+    const secure = process.env.SMTP_SECURE === "true";
+    return smtpTransport({
+      host: process.env.SMTP_HOST,
+      port: numberFromEnv("SMTP_PORT", secure ? 465 : 587, 1),
+      secure,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      timeoutMs: numberFromEnv("SMTP_TIMEOUT_MS", 30 * 1000, 1000),
+    });
+  }
+  if (kind === "file") {
+    return fileTransport(path.resolve(process.env.EMAIL_OUTBOX_DIR || "outbox"));
+  }
+  if (kind !== "console") {
+    console.warn(`⚠️ Unknown EMAIL_TRANSPORT '${kind}', logging emails instead`);
+  }
+  return consoleTransport();
+}
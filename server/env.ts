@@ -0,0 +1,13 @@
+/**
+ * Reads a numeric setting from the environment, falling back when it is
+ * missing, not a number or below `min`
+ */
+export function numberFromEnv(name: string, fallback: number, min = 0): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+// Public base URL of the app, used for links in emails and text messages
+export const APP_URL = (process.env.APP_URL || `http://localhost:${process.env.PORT || "5000"}`).replace(/\/$/, "");
@@ -1,16 +1,27 @@
+// Loaded before anything else: modules such as ./env read their settings
+// from process.env when they are first imported
+import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import path from "path";
 import fs from "fs/promises";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { storage } from "./storage";
-import dotenv from "dotenv";
+import { startScheduler } from "./scheduler";
 import rateLimit from "express-rate-limit";
 import helmet from "helmet";
 import cors from "cors";
 import { AddressInfo } from "net";
 
-dotenv.config();
+declare global {
+  namespace Express {
+    interface Request {
+      // Unparsed JSON body, for webhook signatures
+      rawBody?: Buffer;
+    }
+  }
+}
+
 const app = express();
 
 // Security middleware
@@ -86,7 +97,12 @@ app.use('/api/login', authLimiter);
 app.use('/api/register', authLimiter);
 app.use('/api/upload', uploadLimiter);
 
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 
 // Create uploads directories if they don't exist
@@ -146,6 +162,9 @@ app.use((req, res, next) => {
     const server = await registerRoutes(app);
     console.log('✅ Routes registered');
 
+    // Background jobs (waitlist holds, appointment expiry, no-shows)
+    startScheduler();
+
     // 🛑 FIX: Intercept any unhandled /api calls and return a JSON 404.
     // This stops the request from falling through to the SPA fallback (Vite/serveStatic)
     app.use("/api", (req, res) => {
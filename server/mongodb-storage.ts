@@ -3,7 +3,6 @@ import session from "express-session";
 import createMemoryStore from "memorystore";
 import dotenv from "dotenv";
 import fs from "fs/promises";
-import { format } from "date-fns";
 import {
   User,
   DoctorProfile,
@@ -12,8 +11,20 @@ import {
   PatientRecord,
   DoctorAvailability,
   Payment,
+  PaymentWebhookEvent,
   Dispute,
+  Broadcast,
+  PricingConfig,
+  PayoutLedgerEntry,
+  SettlementBatch,
+  Payout,
   Notification,
+  NotificationPreference,
+  SlotReservation,
+  DoctorTimeOff,
+  RescheduleRequest,
+  WaitlistEntry,
+  AppointmentSeries,
   type IUser,
   type IDoctorProfile,
   type IAppointment,
@@ -22,15 +33,42 @@ import {
   type IDoctorAvailability,
   type IPayment,
   type IDispute,
+  type IAppointmentStatusChange,
   type InsertUser,
   type InsertDoctorProfile,
   type InsertAppointment,
   type InsertDoctorDocument,
   type InsertPatientRecord,
   type InsertDoctorAvailability,
+  type InsertDoctorTimeOff,
+  type InsertRescheduleRequest,
+  type InsertWaitlistEntry,
+  type InsertAppointmentSeries,
+  type IAppointmentSeries,
+  type IWaitlistEntry,
+  type IRescheduleRequest,
   type InsertPayment,
   type InsertDispute,
+  type NotificationDeliveryChannel,
+  type INotificationPreference,
+  type IBroadcast,
+  type IBroadcastAudience,
+  type InsertBroadcast,
+  type InsertPricingConfig,
+  type InsertPayoutLedgerEntry,
+  type InsertSettlementBatch,
+  type InsertPayout,
+  type ISettlementBatch,
+  type IPayout,
+  type PayoutStatus,
+  type IPaymentRefund,
+  type IAppointmentPendingRefund,
+  type PaymentStatus,
 } from "@shared/mongodb-schema";
+import { slotCells } from "./scheduling";
+import { publish } from "./realtime";
+import { planNotificationDelivery } from "./notification-preferences";
+import { DEFAULT_TIME_ZONE, toDateKey } from "@shared/time-zone";
 
 dotenv.config();
 const MemoryStore = createMemoryStore(session);
@@ -47,12 +85,23 @@ const convertJsDayToIso = (jsDay: number): number => {
   return jsDay === 0 ? 7 : jsDay;
 };
 
-const normalizeDateKey = (value: string): string => {
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) {
+const normalizeDateKey = (value: string, timeZone: string): string => {
+  const dateKey = toDateKey(value, timeZone);
+  if (!dateKey) {
     throw new Error("Invalid specificDate provided");
   }
-  return format(date, "yyyy-MM-dd");
+  return dateKey;
+};
+
+// Opaque page cursor: "<createdAt ms>_<id>" in base64url
+const encodeNotificationCursor = (notification: { createdAt: Date; _id: unknown }) =>
+  Buffer.from(`${new Date(notification.createdAt).getTime()}_${notification._id}`).toString("base64url");
+
+const decodeNotificationCursor = (cursor: string) => {
+  const [time, id] = Buffer.from(cursor, "base64url").toString().split("_");
+  const createdAt = new Date(Number(time));
+  if (isNaN(createdAt.getTime()) || !id || !Types.ObjectId.isValid(id)) return null;
+  return { createdAt, id: new Types.ObjectId(id) };
 };
 
 // ===========================
@@ -76,6 +125,8 @@ export class MongoStorage {
         socketTimeoutMS: 45000,
       });
       console.log("✅ Connected to MongoDB");
+      // Read notifications used to expire through a TTL index; they are archived now
+      await Notification.collection.dropIndex("readAt_1").catch(() => undefined);
     } catch (error) {
       console.error("❌ MongoDB connection error:", error);
       throw error;
@@ -139,6 +190,11 @@ export class MongoStorage {
     return (await DoctorProfile.findOne({ userId })) || undefined;
   }
 
+  async getDoctorTimeZone(userId: string): Promise<string> {
+    const profile = await DoctorProfile.findOne({ userId }, { timeZone: 1 }).lean();
+    return profile?.timeZone || DEFAULT_TIME_ZONE;
+  }
+
   async updateDoctorProfile(userId: string, updates: Partial<IDoctorProfile>) {
     const profile = await DoctorProfile.findOneAndUpdate(
       { userId },
@@ -170,6 +226,28 @@ export class MongoStorage {
     return await newAppointment.save();
   }
 
+  // Reserves the slot first, then creates the appointment. Returns null when
+  // another booking already holds any part of the requested time.
+  async createAppointmentWithReservation(appointment: InsertAppointment) {
+    const appointmentId = new Types.ObjectId().toString();
+
+    const reserved = await this.reserveAppointmentSlots(
+      appointment.doctorId,
+      appointmentId,
+      appointment.appointmentDate,
+      appointment.duration
+    );
+    if (!reserved) return null;
+
+    try {
+      const newAppointment = new Appointment({ ...appointment, _id: appointmentId });
+      return await newAppointment.save();
+    } catch (error) {
+      await this.releaseAppointmentSlots(appointmentId);
+      throw error;
+    }
+  }
+
   async getAppointment(id: string) {
     if (!mongoose.Types.ObjectId.isValid(id)) return undefined;
     return (await Appointment.findById(id)) || undefined;
@@ -183,6 +261,18 @@ export class MongoStorage {
     return await Appointment.find({ doctorId }).sort({ appointmentDate: -1 });
   }
 
+  // Non-cancelled appointments that may occupy time between `from` and `to`.
+  // Looks back one day so long appointments starting before `from` are included.
+  async getDoctorAppointmentsInRange(doctorId: string, from: Date, to: Date) {
+    return await Appointment.find({
+      doctorId,
+      status: { $ne: "cancelled" },
+      appointmentDate: { $gte: new Date(from.getTime() - 86400000), $lt: to },
+    })
+      .lean()
+      .sort({ appointmentDate: 1 });
+  }
+
   // ✅ Supports Persistent Video Rooms and Call Metrics
   async updateAppointment(id: string, updates: Partial<IAppointment>) {
     console.log(`\n💾 [Storage: updateAppointment] Syncing fields:`, Object.keys(updates));
@@ -196,10 +286,472 @@ export class MongoStorage {
     return appointment;
   }
 
+  // Moves an appointment to a new start time, carrying its slot reservation
+  // along. Returns null when the new time is already taken or the appointment
+  // was cancelled or completed in the meantime.
+  async rescheduleAppointment(appointment: IAppointment, newStart: Date) {
+    const appointmentId = appointment._id.toString();
+    const moved = await this.moveAppointmentSlots(
+      appointment.doctorId,
+      appointmentId,
+      newStart,
+      appointment.duration
+    );
+    if (!moved) return null;
+
+    const updated = await Appointment.findOneAndUpdate(
+      { _id: appointmentId, status: { $in: ["pending", "awaiting_payment", "scheduled", "confirmed"] } },
+      { $set: { appointmentDate: newStart } },
+      { new: true, runValidators: true }
+    );
+    if (!updated) {
+      // Whatever ended it has released its old slots; don't hold on to the new ones
+      await this.releaseAppointmentSlots(appointmentId);
+    }
+    return updated;
+  }
+
+  // Candidates for automatic expiry: appointments in `status` that were created
+  // before `createdBefore` or whose start time is before `startsBefore`
+  async getStaleAppointmentCandidates(
+    status: IAppointment["status"],
+    createdBefore: Date,
+    startsBefore: Date
+  ) {
+    return await Appointment.find({
+      status,
+      $or: [
+        { createdAt: { $lte: createdBefore } },
+        { appointmentDate: { $lte: startsBefore } },
+      ],
+    });
+  }
+
+  // Video appointments that started before `startedBefore` and that at least
+  // one party has not joined yet
+  async getNoShowCandidates(startedBefore: Date) {
+    return await Appointment.find({
+      type: "video",
+      status: { $in: ["scheduled", "confirmed", "in-progress"] },
+      appointmentDate: { $lte: startedBefore },
+      $or: [{ doctorJoinedAt: null }, { patientJoinedAt: null }],
+    });
+  }
+
+  // Booked appointments starting in (from, to]
+  async getReminderCandidates(from: Date, to: Date) {
+    return await Appointment.find({
+      status: { $in: ["scheduled", "confirmed"] },
+      appointmentDate: { $gt: from, $lte: to },
+    });
+  }
+
+  // Records a reminder as sent unless it already was for this start time.
+  // Returns null when it was, or the appointment has since been cancelled or moved.
+  async claimAppointmentReminder(id: string, offsetMinutes: number, appointmentDate: Date) {
+    return await Appointment.findOneAndUpdate(
+      {
+        _id: id,
+        status: { $in: ["scheduled", "confirmed"] },
+        appointmentDate,
+        remindersSent: { $not: { $elemMatch: { offsetMinutes, appointmentDate } } },
+      },
+      { $push: { remindersSent: { offsetMinutes, appointmentDate, sentAt: new Date() } } },
+      { new: true }
+    );
+  }
+
+  // In-person appointments for a doctor or patient starting in [from, to)
+  async getInPersonAppointmentsInRange(
+    filter: { doctorId?: string; patientId?: string },
+    from: Date,
+    to: Date
+  ) {
+    return await Appointment.find({
+      ...filter,
+      type: "in-person",
+      status: { $in: ["scheduled", "confirmed", "in-progress", "completed"] },
+      appointmentDate: { $gte: from, $lt: to },
+    }).sort({ appointmentDate: 1 });
+  }
+
+  // Records arrival at the clinic; null if already checked in or no longer bookable
+  async checkInAppointment(id: string, method: "qr" | "staff", at = new Date()) {
+    return await Appointment.findOneAndUpdate(
+      { _id: id, checkedInAt: null, status: { $in: ["scheduled", "confirmed"] } },
+      { $set: { checkedInAt: at, checkInMethod: method } },
+      { new: true }
+    );
+  }
+
   async getAllAppointments() {
     return await Appointment.find().sort({ createdAt: -1 });
   }
 
+  // Moves an appointment to a new status only if it is still in `change.from`,
+  // appending the change to statusHistory. Returns null if the status moved underneath us.
+  async transitionAppointmentStatus(
+    id: string,
+    change: Omit<IAppointmentStatusChange, "at">,
+    updates: Partial<IAppointment> = {}
+  ) {
+    return await Appointment.findOneAndUpdate(
+      { _id: id, status: change.from },
+      {
+        $set: { ...updates, status: change.to },
+        $push: { statusHistory: { ...change, at: new Date() } },
+      },
+      { new: true, runValidators: true }
+    );
+  }
+
+  // === PENDING REFUND METHODS ===
+  async setPendingRefund(appointmentId: string, pendingRefund: IAppointmentPendingRefund) {
+    return await Appointment.findByIdAndUpdate(
+      appointmentId,
+      { $set: { pendingRefund } },
+      { new: true, runValidators: true }
+    );
+  }
+
+  async clearPendingRefund(appointmentId: string) {
+    return await Appointment.findByIdAndUpdate(appointmentId, { $unset: { pendingRefund: 1 } }, { new: true });
+  }
+
+  // Counts one more failed attempt, giving up after maxAttempts
+  async recordPendingRefundAttempt(appointmentId: string, error: string, maxAttempts: number) {
+    const appointment = await Appointment.findByIdAndUpdate(
+      appointmentId,
+      {
+        $inc: { "pendingRefund.attempts": 1 },
+        $set: { "pendingRefund.lastError": error, "pendingRefund.lastAttemptAt": new Date() },
+      },
+      { new: true }
+    );
+    if (appointment?.pendingRefund && appointment.pendingRefund.attempts >= maxAttempts) {
+      return await Appointment.findByIdAndUpdate(
+        appointmentId,
+        { $set: { "pendingRefund.status": "failed" } },
+        { new: true }
+      );
+    }
+    return appointment;
+  }
+
+  async getPendingRefundAppointments(statuses: IAppointmentPendingRefund["status"][]) {
+    return await Appointment.find({ "pendingRefund.status": { $in: statuses } }).sort({
+      "pendingRefund.createdAt": 1,
+    });
+  }
+
+  // === SLOT RESERVATION METHODS ===
+  async reserveAppointmentSlots(
+    doctorId: string,
+    appointmentId: string,
+    start: Date,
+    durationMinutes: number
+  ): Promise<boolean> {
+    const cells = slotCells(new Date(start), durationMinutes).map((slotStart) => ({
+      doctorId,
+      slotStart,
+      appointmentId,
+    }));
+
+    try {
+      await SlotReservation.insertMany(cells, { ordered: true });
+      return true;
+    } catch (error: any) {
+      // Duplicate key: another appointment owns one of the cells
+      if (error?.code === 11000) {
+        await this.releaseAppointmentSlots(appointmentId);
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async releaseAppointmentSlots(appointmentId: string) {
+    await SlotReservation.deleteMany({ appointmentId });
+  }
+
+  // Moves an appointment's reservation to a new start time. Cells it already
+  // holds are kept, so shifting by less than its duration does not self-conflict.
+  // Returns false (leaving the old reservation intact) if the new time is taken.
+  async moveAppointmentSlots(
+    doctorId: string,
+    appointmentId: string,
+    newStart: Date,
+    durationMinutes: number
+  ): Promise<boolean> {
+    const held = await SlotReservation.find({ appointmentId }).lean();
+    const heldTimes = new Set(held.map((cell) => cell.slotStart.getTime()));
+    const wanted = slotCells(new Date(newStart), durationMinutes);
+    const wantedTimes = new Set(wanted.map((cell) => cell.getTime()));
+    const added = wanted.filter((cell) => !heldTimes.has(cell.getTime()));
+
+    try {
+      await SlotReservation.insertMany(
+        added.map((slotStart) => ({ doctorId, slotStart, appointmentId })),
+        { ordered: true }
+      );
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        await SlotReservation.deleteMany({ appointmentId, slotStart: { $in: added } });
+        return false;
+      }
+      throw error;
+    }
+
+    await SlotReservation.deleteMany({
+      appointmentId,
+      slotStart: { $in: held.map((cell) => cell.slotStart).filter((t) => !wantedTimes.has(t.getTime())) },
+    });
+    return true;
+  }
+
+  // === APPOINTMENT SERIES METHODS ===
+  async createAppointmentSeries(data: InsertAppointmentSeries) {
+    const series = new AppointmentSeries(data);
+    return await series.save();
+  }
+
+  async getAppointmentSeries(id: string) {
+    if (!mongoose.Types.ObjectId.isValid(id)) return undefined;
+    return (await AppointmentSeries.findById(id)) || undefined;
+  }
+
+  async updateAppointmentSeries(id: string, updates: Partial<IAppointmentSeries>) {
+    return await AppointmentSeries.findByIdAndUpdate(id, { $set: updates }, { new: true });
+  }
+
+  async getSeriesAppointments(seriesId: string) {
+    return await Appointment.find({ seriesId }).sort({ seriesIndex: 1 });
+  }
+
+  // Undoes a partially created series: frees its slots and removes its visits
+  async deleteAppointmentSeries(seriesId: string) {
+    const visits = await Appointment.find({ seriesId }, { _id: 1 }).lean();
+    await SlotReservation.deleteMany({ appointmentId: { $in: visits.map((v) => v._id.toString()) } });
+    await Appointment.deleteMany({ seriesId });
+    await AppointmentSeries.findByIdAndDelete(seriesId);
+  }
+
+  // === DOCTOR TIME-OFF METHODS ===
+  async createDoctorTimeOff(data: InsertDoctorTimeOff) {
+    const timeOff = new DoctorTimeOff(data);
+    return await timeOff.save();
+  }
+
+  async getDoctorTimeOff(id: string) {
+    if (!mongoose.Types.ObjectId.isValid(id)) return undefined;
+    return (await DoctorTimeOff.findById(id)) || undefined;
+  }
+
+  // Time-off that overlaps [from, to); open-ended when no bounds are given
+  async getDoctorTimeOffInRange(doctorId: string, from?: Date, to?: Date) {
+    const query: any = { doctorId };
+    if (to) query.startsAt = { $lt: to };
+    if (from) query.endsAt = { $gt: from };
+    return await DoctorTimeOff.find(query).lean().sort({ startsAt: 1 });
+  }
+
+  async deleteDoctorTimeOff(id: string) {
+    return await DoctorTimeOff.findByIdAndDelete(id);
+  }
+
+  // === WAITLIST METHODS ===
+  async createWaitlistEntry(data: InsertWaitlistEntry) {
+    const entry = new WaitlistEntry(data);
+    return await entry.save();
+  }
+
+  async getWaitlistEntry(id: string) {
+    if (!mongoose.Types.ObjectId.isValid(id)) return undefined;
+    return (await WaitlistEntry.findById(id)) || undefined;
+  }
+
+  async getWaitlistEntriesByPatient(patientId: string) {
+    return await WaitlistEntry.find({ patientId }).sort({ createdAt: -1 });
+  }
+
+  // The patient's open entry for a doctor, if any
+  async getActiveWaitlistEntry(doctorId: string, patientId: string) {
+    return await WaitlistEntry.findOne({
+      doctorId,
+      patientId,
+      status: { $in: ['waiting', 'offered'] },
+    });
+  }
+
+  // Atomically hands a freed slot to the longest-waiting entry whose range
+  // covers it. Returns null when nobody is waiting for that time.
+  async offerWaitlistSlot(
+    doctorId: string,
+    start: Date,
+    durationMinutes: number,
+    holdExpiresAt: Date,
+    skipEntryIds: string[] = []
+  ) {
+    const end = new Date(start.getTime() + durationMinutes * 60000);
+    return await WaitlistEntry.findOneAndUpdate(
+      {
+        doctorId,
+        status: 'waiting',
+        rangeStart: { $lte: start },
+        rangeEnd: { $gte: end },
+        _id: { $nin: skipEntryIds },
+      },
+      {
+        $set: {
+          status: 'offered',
+          offeredStart: start,
+          offeredDuration: durationMinutes,
+          holdExpiresAt,
+        },
+      },
+      { new: true, sort: { createdAt: 1 } }
+    );
+  }
+
+  // Ends an open offer (declined, expired, withdrawn). Returns null if the
+  // entry was no longer holding an offer.
+  async closeWaitlistOffer(id: string, status: IWaitlistEntry['status']) {
+    return await WaitlistEntry.findOneAndUpdate(
+      { _id: id, status: 'offered' },
+      {
+        $set: { status },
+        $unset: { offeredStart: 1, offeredDuration: 1, holdExpiresAt: 1 },
+      },
+      { new: true }
+    );
+  }
+
+  async cancelWaitingEntry(id: string) {
+    return await WaitlistEntry.findOneAndUpdate(
+      { _id: id, status: 'waiting' },
+      { $set: { status: 'cancelled' } },
+      { new: true }
+    );
+  }
+
+  async getExpiredWaitlistOffers(now = new Date()) {
+    return await WaitlistEntry.find({ status: 'offered', holdExpiresAt: { $lte: now } }).lean();
+  }
+
+  // Waiting entries whose whole range has passed can never be served
+  async expirePastWaitlistEntries(now = new Date()) {
+    const result = await WaitlistEntry.updateMany(
+      { status: 'waiting', rangeEnd: { $lte: now } },
+      { $set: { status: 'expired' } }
+    );
+    return result.modifiedCount;
+  }
+
+  // Slots currently held for waitlisted patients in [from, to)
+  async getActiveWaitlistHolds(doctorId: string, from: Date, to: Date) {
+    return await WaitlistEntry.find({
+      doctorId,
+      status: 'offered',
+      holdExpiresAt: { $gt: new Date() },
+      offeredStart: { $gte: new Date(from.getTime() - 86400000), $lt: to },
+    }).lean();
+  }
+
+  // Turns a held offer into a booking. The hold's reservation cells are handed
+  // over to the new appointment, so nobody can grab the slot in between.
+  // Returns null if the offer expired or was taken in the meantime.
+  async claimWaitlistHold(entry: IWaitlistEntry, appointment: InsertAppointment) {
+    const entryId = entry._id.toString();
+    const appointmentId = new Types.ObjectId().toString();
+
+    const claimed = await WaitlistEntry.findOneAndUpdate(
+      { _id: entryId, status: 'offered', holdExpiresAt: { $gt: new Date() } },
+      { $set: { status: 'booked', appointmentId } },
+      { new: true }
+    );
+    if (!claimed) return null;
+
+    const transferred = await SlotReservation.updateMany(
+      { appointmentId: entryId },
+      { $set: { appointmentId } }
+    );
+    if (transferred.modifiedCount === 0) {
+      const reserved = await this.reserveAppointmentSlots(
+        appointment.doctorId,
+        appointmentId,
+        appointment.appointmentDate,
+        appointment.duration
+      );
+      if (!reserved) {
+        await WaitlistEntry.updateOne(
+          { _id: entryId },
+          { $set: { status: 'expired' }, $unset: { appointmentId: 1 } }
+        );
+        return null;
+      }
+    }
+
+    try {
+      const newAppointment = new Appointment({ ...appointment, _id: appointmentId });
+      return await newAppointment.save();
+    } catch (error) {
+      await this.releaseAppointmentSlots(appointmentId);
+      throw error;
+    }
+  }
+
+  // === RESCHEDULE REQUEST METHODS ===
+  async createRescheduleRequest(data: InsertRescheduleRequest) {
+    const request = new RescheduleRequest(data);
+    return await request.save();
+  }
+
+  async getRescheduleRequest(id: string) {
+    if (!mongoose.Types.ObjectId.isValid(id)) return undefined;
+    return (await RescheduleRequest.findById(id)) || undefined;
+  }
+
+  async getRescheduleRequestsByAppointment(appointmentId: string) {
+    return await RescheduleRequest.find({ appointmentId }).sort({ createdAt: -1 });
+  }
+
+  async getPendingRescheduleRequests(appointmentIds: string[]) {
+    return await RescheduleRequest.find({
+      appointmentId: { $in: appointmentIds },
+      status: 'pending',
+    }).sort({ createdAt: -1 });
+  }
+
+  // Only a pending request can be answered; returns null if someone else got there first
+  async resolveRescheduleRequest(
+    id: string,
+    updates: Pick<IRescheduleRequest, 'status'> & Partial<Pick<IRescheduleRequest, 'respondedBy'>>
+  ) {
+    return await RescheduleRequest.findOneAndUpdate(
+      { _id: id, status: 'pending' },
+      { $set: { ...updates, respondedAt: new Date() } },
+      { new: true }
+    );
+  }
+
+  // Undoes an acceptance whose appointment could not be moved, so the request
+  // can be answered again
+  async reopenRescheduleRequest(id: string) {
+    return await RescheduleRequest.findOneAndUpdate(
+      { _id: id, status: 'accepted' },
+      { $set: { status: 'pending' }, $unset: { respondedBy: 1, respondedAt: 1 } },
+      { new: true }
+    );
+  }
+
+  // A new proposal replaces any that are still open on the same appointment
+  async supersedePendingRescheduleRequests(appointmentId: string) {
+    await RescheduleRequest.updateMany(
+      { appointmentId, status: 'pending' },
+      { $set: { status: 'superseded', respondedAt: new Date() } }
+    );
+  }
+
   // === DOCTOR AVAILABILITY METHODS ===
  // === DOCTOR AVAILABILITY METHODS ===
 async createDoctorAvailability(data: InsertDoctorAvailability) {
@@ -245,7 +797,7 @@ async getAllDoctorAvailability(doctorId: string) {
 }
 
 async getDoctorAvailabilityByDate(doctorId: string, dateStr: string) {
-  const normalizedDate = normalizeDateKey(dateStr);
+  const normalizedDate = normalizeDateKey(dateStr, await this.getDoctorTimeZone(doctorId));
   const slots = await DoctorAvailability.find({ 
     doctorId, 
     specificDate: normalizedDate 
@@ -291,11 +843,99 @@ async deleteDoctorAvailability(id: string) {
   // === NOTIFICATION METHODS ===
   async createNotification(data: any) {
     const notification = new Notification(data);
-    return await notification.save();
+
+    // The recipient's preferences decide the outbound channels; those copies
+    // are queued here and sent by the delivery jobs
+    const [recipient, preference] = await Promise.all([
+      User.findById(notification.recipientId, { phone: 1, smsOptIn: 1, whatsappOptIn: 1 }).lean(),
+      NotificationPreference.findOne({ userId: notification.recipientId }).lean(),
+    ]);
+    const { channels, deliveries } = planNotificationDelivery(
+      notification.type,
+      notification.notificationChannels,
+      recipient,
+      preference
+    );
+    notification.notificationChannels = channels;
+    notification.emailDelivery = deliveries.email;
+    notification.smsDelivery = deliveries.sms;
+    notification.whatsappDelivery = deliveries.whatsapp;
+    const saved = await notification.save();
+    publish([saved.recipientId], { type: "notification.created", notification: saved });
+    return saved;
   }
 
   async getNotificationsByRecipient(recipientId: string) {
-    return await Notification.find({ recipientId }).sort({ createdAt: -1 }).limit(50);
+    return await Notification.find({ recipientId, archivedAt: null }).sort({ createdAt: -1 }).limit(50);
+  }
+
+  // Newest first, `limit` at a time. The cursor is the position of the last
+  // notification on the previous page, so new arrivals do not shift pages.
+  async getNotificationsPage(
+    recipientId: string,
+    options: { type?: string; read?: boolean; cursor?: string; limit: number }
+  ) {
+    const filter: any = { recipientId, archivedAt: null };
+    if (options.type) filter.type = options.type;
+    if (options.read !== undefined) filter.read = options.read;
+
+    if (options.cursor) {
+      const position = decodeNotificationCursor(options.cursor);
+      if (!position) throw new Error("Invalid cursor");
+      filter.$or = [
+        { createdAt: { $lt: position.createdAt } },
+        { createdAt: position.createdAt, _id: { $lt: position.id } },
+      ];
+    }
+
+    // One extra row tells whether there is another page
+    const rows = await Notification.find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(options.limit + 1);
+    const notifications = rows.slice(0, options.limit);
+    const last = notifications[notifications.length - 1];
+    return {
+      notifications,
+      nextCursor: rows.length > options.limit && last ? encodeNotificationCursor(last) : null,
+    };
+  }
+
+  async countUnreadNotifications(recipientId: string) {
+    return await Notification.countDocuments({ recipientId, read: false });
+  }
+
+  // Marks the recipient's notifications read or unread: the given ids, or all of them
+  async setNotificationsRead(recipientId: string, ids: string[] | null, read: boolean) {
+    const filter: any = { recipientId, read: !read, archivedAt: null };
+    if (ids) filter._id = { $in: ids };
+    const result = await Notification.updateMany(
+      filter,
+      read ? { $set: { read: true, readAt: new Date() } } : { $set: { read: false }, $unset: { readAt: 1 } }
+    );
+    return result.modifiedCount;
+  }
+
+  async deleteNotificationsForRecipient(recipientId: string, ids: string[]) {
+    const result = await Notification.deleteMany({ recipientId, _id: { $in: ids }, archivedAt: null });
+    return result.deletedCount;
+  }
+
+  // Returns null unless the notification belongs to the recipient
+  async updateNotificationForRecipient(recipientId: string, notificationId: string, updates: any) {
+    return await Notification.findOneAndUpdate(
+      { _id: notificationId, recipientId, archivedAt: null },
+      { $set: updates },
+      { new: true }
+    );
+  }
+
+  // Takes notifications read before `readBefore` out of their recipients' inboxes
+  async archiveReadNotifications(readBefore: Date) {
+    const result = await Notification.updateMany(
+      { read: true, readAt: { $lte: readBefore }, archivedAt: null },
+      { $set: { archivedAt: new Date() } }
+    );
+    return result.modifiedCount;
   }
 
   async updateNotification(notificationId: string, updates: any) {
@@ -306,16 +946,351 @@ async deleteDoctorAvailability(id: string) {
     return await Notification.findByIdAndDelete(notificationId);
   }
 
+  async getDueNotificationDeliveries(channel: NotificationDeliveryChannel, now: Date, limit: number) {
+    const field = `${channel}Delivery`;
+    return await Notification.find({
+      [`${field}.status`]: "pending",
+      [`${field}.nextAttemptAt`]: { $lte: now },
+    })
+      .sort({ [`${field}.nextAttemptAt`]: 1 })
+      .limit(limit);
+  }
+
+  // Takes a due delivery for sending: counts the attempt and hides it from
+  // other workers until leaseUntil. Returns null if another worker got there first.
+  async claimNotificationDelivery(
+    notificationId: string,
+    channel: NotificationDeliveryChannel,
+    now: Date,
+    leaseUntil: Date
+  ) {
+    const field = `${channel}Delivery`;
+    return await Notification.findOneAndUpdate(
+      {
+        _id: notificationId,
+        [`${field}.status`]: "pending",
+        [`${field}.nextAttemptAt`]: { $lte: now },
+      },
+      { $set: { [`${field}.nextAttemptAt`]: leaseUntil }, $inc: { [`${field}.attempts`]: 1 } },
+      { new: true }
+    );
+  }
+
+  // === NOTIFICATION PREFERENCE METHODS ===
+  async getNotificationPreference(userId: string) {
+    return await NotificationPreference.findOne({ userId });
+  }
+
+  async upsertNotificationPreference(userId: string, updates: Partial<INotificationPreference>) {
+    return await NotificationPreference.findOneAndUpdate(
+      { userId },
+      { $set: { ...updates, updatedAt: new Date() } },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+  }
+
+  async getDailyDigestPreferences() {
+    return await NotificationPreference.find({ digestMode: "daily" });
+  }
+
+  // Marks today's digest as taken so only one worker sends it. Returns null if
+  // it was already sent at or after dueAt.
+  async claimDailyDigest(userId: string, dueAt: Date, now: Date) {
+    return await NotificationPreference.findOneAndUpdate(
+      { userId, $or: [{ lastDigestAt: null }, { lastDigestAt: { $lt: dueAt } }] },
+      { $set: { lastDigestAt: now } },
+      { new: false }
+    );
+  }
+
+  async setLastDigestAt(userId: string, at: Date | undefined) {
+    return await NotificationPreference.updateOne(
+      { userId },
+      at ? { $set: { lastDigestAt: at } } : { $unset: { lastDigestAt: 1 } }
+    );
+  }
+
+  async getDigestNotifications(recipientId: string) {
+    return await Notification.find({ recipientId, "emailDelivery.status": "digest" }).sort({ createdAt: 1 });
+  }
+
+  async markDigestDelivered(notificationIds: string[], transport: string) {
+    return await Notification.updateMany(
+      { _id: { $in: notificationIds }, "emailDelivery.status": "digest" },
+      {
+        $set: {
+          "emailDelivery.status": "delivered",
+          "emailDelivery.deliveredAt": new Date(),
+          "emailDelivery.transport": transport,
+        },
+        $inc: { "emailDelivery.attempts": 1 },
+      }
+    );
+  }
+
+  // Emails still held for a digest go out on their own (after leaving daily mode)
+  async releaseDigestNotifications(recipientId: string) {
+    return await Notification.updateMany(
+      { recipientId, "emailDelivery.status": "digest" },
+      { $set: { "emailDelivery.status": "pending", "emailDelivery.nextAttemptAt": new Date() } }
+    );
+  }
+
+  // === BROADCAST METHODS ===
+  async createBroadcast(data: InsertBroadcast) {
+    const broadcast = new Broadcast(data);
+    return await broadcast.save();
+  }
+
+  async getBroadcast(id: string) {
+    if (!mongoose.Types.ObjectId.isValid(id)) return undefined;
+    return (await Broadcast.findById(id)) || undefined;
+  }
+
+  async getRecentBroadcasts(limit: number) {
+    return await Broadcast.find().sort({ createdAt: -1 }).limit(limit);
+  }
+
+  // Scheduled broadcasts that are due, and sends whose worker stopped halfway
+  async getDueBroadcasts(now: Date) {
+    return await Broadcast.find({
+      $or: [
+        { status: "scheduled", scheduledFor: { $lte: now } },
+        { status: "sending", leaseUntil: { $lte: now } },
+      ],
+    }).sort({ scheduledFor: 1 });
+  }
+
+  // Takes a due broadcast for sending until leaseUntil. Returns null if another
+  // worker got there first or it was cancelled meanwhile.
+  async claimBroadcast(id: string, now: Date, leaseUntil: Date) {
+    return await Broadcast.findOneAndUpdate(
+      {
+        _id: id,
+        $or: [
+          { status: "scheduled", scheduledFor: { $lte: now } },
+          { status: "sending", leaseUntil: { $lte: now } },
+        ],
+      },
+      { $set: { status: "sending", leaseUntil } },
+      { new: true }
+    );
+  }
+
+  async updateBroadcast(id: string, updates: Partial<IBroadcast>) {
+    return await Broadcast.findByIdAndUpdate(id, { $set: updates }, { new: true });
+  }
+
+  // Only a broadcast that has not started sending can be cancelled
+  async cancelBroadcast(id: string, adminId: string) {
+    return await Broadcast.findOneAndUpdate(
+      { _id: id, status: "scheduled" },
+      { $set: { status: "cancelled", cancelledBy: adminId } },
+      { new: true }
+    );
+  }
+
+  // Ids of the active users a broadcast is addressed to
+  async getBroadcastAudienceIds(audience: IBroadcastAudience, now: Date): Promise<string[]> {
+    switch (audience.kind) {
+      case "all":
+      case "role": {
+        const roles = audience.kind === "role" && audience.role ? [audience.role] : ["patient", "doctor"];
+        const users = await User.find({ role: { $in: roles }, isActive: { $ne: false } }, { _id: 1 }).lean();
+        return users.map((user) => user._id.toString());
+      }
+      case "specialization": {
+        const doctorIds: string[] = await DoctorProfile.distinct("userId", {
+          specialization: audience.specialization,
+          isApproved: true,
+        });
+        return this.activeUserIds(doctorIds);
+      }
+      case "upcoming_patients": {
+        const appointmentDate: any = { $gte: now };
+        if (audience.withinDays) {
+          appointmentDate.$lte = new Date(now.getTime() + audience.withinDays * 24 * 60 * 60 * 1000);
+        }
+        const patientIds: string[] = await Appointment.distinct("patientId", {
+          status: { $in: ["awaiting_payment", "scheduled", "confirmed"] },
+          appointmentDate,
+        });
+        return this.activeUserIds(patientIds);
+      }
+    }
+  }
+
+  private async activeUserIds(ids: string[]) {
+    const valid = ids.filter((id) => mongoose.Types.ObjectId.isValid(id));
+    const users = await User.find({ _id: { $in: valid }, isActive: { $ne: false } }, { _id: 1 }).lean();
+    return users.map((user) => user._id.toString());
+  }
+
+  // Recipients who already have their copy, so a resumed send skips them
+  async getBroadcastRecipientIds(broadcastId: string): Promise<string[]> {
+    return await Notification.distinct("recipientId", { broadcastId });
+  }
+
+  // Per broadcast: copies sent (archived ones included), how many were read, and email outcomes
+  async getBroadcastStats(broadcastIds: string[]) {
+    const rows = await Notification.aggregate([
+      { $match: { broadcastId: { $in: broadcastIds } } },
+      {
+        $group: {
+          _id: "$broadcastId",
+          total: { $sum: 1 },
+          read: { $sum: { $cond: ["$read", 1, 0] } },
+          emailQueued: { $sum: { $cond: [{ $ifNull: ["$emailDelivery.status", false] }, 1, 0] } },
+          emailDelivered: { $sum: { $cond: [{ $eq: ["$emailDelivery.status", "delivered"] }, 1, 0] } },
+          emailFailed: { $sum: { $cond: [{ $eq: ["$emailDelivery.status", "failed"] }, 1, 0] } },
+        },
+      },
+    ]);
+    return new Map<string, { total: number; read: number; emailQueued: number; emailDelivered: number; emailFailed: number }>(
+      rows.map(({ _id, ...stats }) => [_id, stats])
+    );
+  }
+
   // === PAYMENT METHODS ===
   async createPayment(payment: InsertPayment) {
     const newPayment = new Payment(payment);
     return await newPayment.save();
   }
 
+  async getPayment(id: string) {
+    if (!mongoose.Types.ObjectId.isValid(id)) return undefined;
+    return (await Payment.findById(id)) || undefined;
+  }
+
   async getPaymentByOrderId(orderId: string) {
     return await Payment.findOne({ razorpayOrderId: orderId });
   }
 
+  // The open order for an appointment, reused when the patient retries checkout
+  async getPendingPaymentByAppointment(appointmentId: string) {
+    return await Payment.findOne({ appointmentId, status: "pending" }).sort({ createdAt: -1 });
+  }
+
+  // Latest captured payment for an appointment, if any (including one that
+  // has already been refunded in part)
+  async getCompletedPaymentByAppointment(appointmentId: string) {
+    return await Payment.findOne({
+      appointmentId,
+      status: { $in: ["completed", "partially_refunded"] },
+    }).sort({ createdAt: -1 });
+  }
+
+  // The captured upfront payment covering a follow-up series, if any
+  async getCompletedPaymentBySeries(seriesId: string) {
+    return await Payment.findOne({
+      seriesId,
+      status: { $in: ["completed", "partially_refunded"] },
+    }).sort({ createdAt: -1 });
+  }
+
+  async updatePayment(id: string, updates: Partial<IPayment>) {
+    const payment = await Payment.findByIdAndUpdate(
+      id,
+      { $set: updates },
+      { new: true, runValidators: true }
+    );
+    if (!payment) throw new Error("Payment not found");
+    return payment;
+  }
+
+  // Orders that were never paid; returns how many were marked failed
+  async failPendingPayments(appointmentId: string) {
+    const result = await Payment.updateMany(
+      { appointmentId, status: "pending" },
+      { $set: { status: "failed" } }
+    );
+    return result.modifiedCount;
+  }
+
+  async getPaymentByRazorpayPaymentId(razorpayPaymentId: string) {
+    return await Payment.findOne({ razorpayPaymentId });
+  }
+
+  // Adds a refund to the payment's running total once per Razorpay refund id
+  // and derives the status from the new total. Concurrent refunds each add
+  // their own amount; whichever status update sees the latest total sticks.
+  // Returns null if the refund was already recorded.
+  async addPaymentRefund(id: string, refund: IPaymentRefund) {
+    const updated = await Payment.findOneAndUpdate(
+      { _id: id, "refunds.razorpayRefundId": { $ne: refund.razorpayRefundId } },
+      {
+        $inc: { refundedAmount: refund.amount },
+        $push: { refunds: refund },
+        $set: { razorpayRefundId: refund.razorpayRefundId, refundedAt: refund.createdAt },
+      },
+      { new: true, runValidators: true }
+    );
+    if (!updated) return null;
+
+    const refundedAmount = updated.refundedAmount || 0;
+    const status: PaymentStatus = refundedAmount >= updated.amount ? "refunded" : "partially_refunded";
+    return (
+      (await Payment.findOneAndUpdate({ _id: id, refundedAmount }, { $set: { status } }, { new: true })) ??
+      (await Payment.findById(id))
+    );
+  }
+
+  // Replaces what the webhook could tell about a refund (reason "other",
+  // source "razorpay") with the details the app issued it with
+  async annotatePaymentRefund(id: string, refund: IPaymentRefund) {
+    const { razorpayRefundId, amount, createdAt, note, disputeId, initiatedBy, ...details } = refund;
+    return await Payment.findOneAndUpdate(
+      { _id: id, "refunds.razorpayRefundId": razorpayRefundId },
+      {
+        $set: {
+          "refunds.$.reasonCode": details.reasonCode,
+          "refunds.$.source": details.source,
+          ...(note && { "refunds.$.note": note }),
+          ...(disputeId && { "refunds.$.disputeId": disputeId }),
+          ...(initiatedBy && { "refunds.$.initiatedBy": initiatedBy }),
+        },
+        ...(!note && { $unset: { "refunds.$.note": 1 } }),
+      },
+      { new: true, runValidators: true }
+    );
+  }
+
+  // Captured payments, newest first, for the admin dashboard
+  async getRecentPayments(limit: number, statuses: PaymentStatus[]) {
+    return await Payment.find({ status: { $in: statuses } })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+  }
+
+  // Everything a patient has paid for, leaving out checkouts never completed
+  async getPaymentHistory(patientId: string) {
+    return await Payment.find({ patientId, status: { $nin: ["pending", "failed"] } }).sort({ createdAt: -1 });
+  }
+
+  // Records the capture of an order's payment once. A failed attempt on the
+  // same order can still be followed by a successful one.
+  // Returns { payment, captured } where captured is false if it was already
+  // recorded (or the payment has since been refunded), or null if the order is unknown
+  async markPaymentCaptured(orderId: string, razorpayPaymentId: string) {
+    const captured = await Payment.findOneAndUpdate(
+      { razorpayOrderId: orderId, status: { $in: ["pending", "failed"] } },
+      { $set: { status: "completed", razorpayPaymentId } },
+      { new: true }
+    );
+    if (captured) return { payment: captured, captured: true };
+    const payment = await Payment.findOne({ razorpayOrderId: orderId });
+    return payment ? { payment, captured: false } : null;
+  }
+
+  // Returns the payment if it was still pending, null otherwise
+  async markPaymentFailed(orderId: string, razorpayPaymentId: string) {
+    return await Payment.findOneAndUpdate(
+      { razorpayOrderId: orderId, status: "pending" },
+      { $set: { status: "failed", razorpayPaymentId } },
+      { new: true }
+    );
+  }
+
   async updatePaymentStatus(orderId: string, status: string, paymentId?: string) {
     const updates: any = { status };
     if (paymentId) updates.razorpayPaymentId = paymentId;
@@ -327,6 +1302,212 @@ async deleteDoctorAvailability(id: string) {
   return await Payment.find({ patientId }).lean();
 }
 
+  // === PAYMENT WEBHOOK EVENT METHODS ===
+  // Records an incoming event. Returns false if it was seen before.
+  async claimPaymentWebhookEvent(eventId: string, event: string) {
+    try {
+      await PaymentWebhookEvent.create({ eventId, event });
+      return true;
+    } catch (error: any) {
+      if (error?.code === 11000) return false;
+      throw error;
+    }
+  }
+
+  async completePaymentWebhookEvent(eventId: string, outcome: string) {
+    return await PaymentWebhookEvent.updateOne(
+      { eventId },
+      { $set: { status: "processed", outcome, processedAt: new Date() } }
+    );
+  }
+
+  // Forgets an event whose handling failed, so Razorpay's retry is processed
+  async releasePaymentWebhookEvent(eventId: string) {
+    return await PaymentWebhookEvent.deleteOne({ eventId, status: "processing" });
+  }
+
+  // === PRICING METHODS ===
+  // The pricing in force, or undefined before an admin has saved any
+  async getLatestPricingConfig() {
+    return (await PricingConfig.findOne().sort({ version: -1 })) || undefined;
+  }
+
+  async getPricingConfigHistory(limit: number) {
+    return await PricingConfig.find().sort({ version: -1 }).limit(limit);
+  }
+
+  // Returns null if another admin saved the same version first
+  async createPricingConfig(data: InsertPricingConfig) {
+    try {
+      return await PricingConfig.create(data);
+    } catch (error: any) {
+      if (error?.code === 11000) return null;
+      throw error;
+    }
+  }
+
+  // === PAYOUT LEDGER METHODS ===
+  // Returns null if the event behind the entry was already recorded
+  async createLedgerEntry(entry: InsertPayoutLedgerEntry) {
+    try {
+      return await PayoutLedgerEntry.create(entry);
+    } catch (error: any) {
+      if (error?.code === 11000) return null;
+      throw error;
+    }
+  }
+
+  async getLedgerEntries(doctorId: string, limit: number) {
+    return await PayoutLedgerEntry.find({ doctorId }).sort({ createdAt: -1 }).limit(limit);
+  }
+
+  // Entries from [start, end) not yet in a payout, with each doctor's net total
+  async getUnsettledLedgerTotals(start: Date, end: Date) {
+    return await PayoutLedgerEntry.aggregate<{ _id: string; net: number; entryIds: Types.ObjectId[] }>([
+      { $match: { payoutId: null, createdAt: { $gte: start, $lt: end } } },
+      {
+        $group: {
+          _id: "$doctorId",
+          net: { $sum: { $cond: [{ $eq: ["$type", "earning"] }, "$amount", { $multiply: ["$amount", -1] }] } },
+          entryIds: { $push: "$_id" },
+        },
+      },
+    ]);
+  }
+
+  // Puts entries in a payout unless another batch took them first.
+  // Returns the net amount and number of entries the payout got.
+  async assignLedgerEntries(entryIds: Types.ObjectId[], payoutId: string) {
+    await PayoutLedgerEntry.updateMany({ _id: { $in: entryIds }, payoutId: null }, { $set: { payoutId } });
+    const [totals] = await PayoutLedgerEntry.aggregate<{ net: number; count: number }>([
+      { $match: { payoutId } },
+      {
+        $group: {
+          _id: null,
+          net: { $sum: { $cond: [{ $eq: ["$type", "earning"] }, "$amount", { $multiply: ["$amount", -1] }] } },
+          count: { $sum: 1 },
+        },
+      },
+    ]);
+    return totals ?? { net: 0, count: 0 };
+  }
+
+  // Frees a failed payout's entries for the next batch
+  async releaseLedgerEntries(payoutId: string) {
+    const result = await PayoutLedgerEntry.updateMany({ payoutId }, { $unset: { payoutId: 1 } });
+    return result.modifiedCount;
+  }
+
+  async getLedgerPaymentIds(payoutId: string) {
+    return await PayoutLedgerEntry.distinct("paymentId", { payoutId, type: "earning" });
+  }
+
+  // Earned, clawed back and not yet in a payout, per doctor
+  async getLedgerTotals(doctorId?: string) {
+    const rows = await PayoutLedgerEntry.aggregate<{
+      _id: string;
+      earned: number;
+      clawedBack: number;
+      unsettled: number;
+    }>([
+      ...(doctorId ? [{ $match: { doctorId } }] : []),
+      {
+        $group: {
+          _id: "$doctorId",
+          earned: { $sum: { $cond: [{ $eq: ["$type", "earning"] }, "$amount", 0] } },
+          clawedBack: { $sum: { $cond: [{ $eq: ["$type", "clawback"] }, "$amount", 0] } },
+          unsettled: {
+            $sum: {
+              $cond: [
+                { $ifNull: ["$payoutId", false] },
+                0,
+                { $cond: [{ $eq: ["$type", "earning"] }, "$amount", { $multiply: ["$amount", -1] }] },
+              ],
+            },
+          },
+        },
+      },
+    ]);
+    return new Map(rows.map(({ _id, ...totals }) => [_id, totals]));
+  }
+
+  // Paid out and still on its way, per doctor
+  async getPayoutTotals(doctorId?: string) {
+    const rows = await Payout.aggregate<{ _id: string; settled: number; inSettlement: number }>([
+      { $match: { status: { $in: ["pending", "processing", "processed"] }, ...(doctorId && { doctorId }) } },
+      {
+        $group: {
+          _id: "$doctorId",
+          settled: { $sum: { $cond: [{ $eq: ["$status", "processed"] }, "$amount", 0] } },
+          inSettlement: { $sum: { $cond: [{ $eq: ["$status", "processed"] }, 0, "$amount"] } },
+        },
+      },
+    ]);
+    return new Map(rows.map(({ _id, ...totals }) => [_id, totals]));
+  }
+
+  async createSettlementBatch(batch: InsertSettlementBatch) {
+    return await SettlementBatch.create(batch);
+  }
+
+  async getSettlementBatch(id: string) {
+    if (!mongoose.Types.ObjectId.isValid(id)) return undefined;
+    return (await SettlementBatch.findById(id)) || undefined;
+  }
+
+  async getSettlementBatches(limit: number) {
+    return await SettlementBatch.find().sort({ createdAt: -1 }).limit(limit);
+  }
+
+  async updateSettlementBatch(id: string, updates: Partial<ISettlementBatch>) {
+    return await SettlementBatch.findByIdAndUpdate(id, { $set: updates }, { new: true });
+  }
+
+  // Only applies the update while the batch is in one of the `from` statuses
+  async transitionSettlementBatch(id: string, from: ISettlementBatch["status"][], updates: Partial<ISettlementBatch>) {
+    return await SettlementBatch.findOneAndUpdate({ _id: id, status: { $in: from } }, { $set: updates }, { new: true });
+  }
+
+  async deleteSettlementBatch(id: string) {
+    await SettlementBatch.deleteOne({ _id: id });
+  }
+
+  async createPayout(payout: InsertPayout) {
+    return await Payout.create(payout);
+  }
+
+  async getPayout(id: string) {
+    if (!mongoose.Types.ObjectId.isValid(id)) return undefined;
+    return (await Payout.findById(id)) || undefined;
+  }
+
+  async getPayoutsByBatch(batchId: string) {
+    return await Payout.find({ batchId }).sort({ amount: -1 });
+  }
+
+  async getPayoutsByDoctor(doctorId: string, limit: number) {
+    return await Payout.find({ doctorId }).sort({ createdAt: -1 }).limit(limit);
+  }
+
+  async deletePayout(id: string) {
+    await Payout.deleteOne({ _id: id });
+  }
+
+  // Moves a payout on only from the given statuses, so two admins (or an
+  // admin and a provider submission) cannot both settle it.
+  // Returns null if it had already moved on.
+  async transitionPayout(id: string, from: PayoutStatus[], updates: Partial<IPayout>) {
+    return await Payout.findOneAndUpdate({ _id: id, status: { $in: from } }, { $set: updates }, { new: true });
+  }
+
+  async countOpenPayouts(batchId: string) {
+    return await Payout.countDocuments({ batchId, status: { $in: ["pending", "processing"] } });
+  }
+
+  async setPaymentPayoutStatus(paymentIds: string[], payoutStatus: IPayment["payoutStatus"]) {
+    await Payment.updateMany({ _id: { $in: paymentIds } }, { $set: { payoutStatus } });
+  }
+
   // === DOCUMENT & RECORD METHODS ===
   async createDoctorDocument(document: InsertDoctorDocument) {
     const doc = new DoctorDocument(document);
@@ -367,6 +1548,29 @@ async deleteDoctorAvailability(id: string) {
   async getAllDisputes() {
     return await Dispute.find().sort({ createdAt: -1 });
   }
+
+  async getDispute(id: string) {
+    if (!mongoose.Types.ObjectId.isValid(id)) return undefined;
+    return (await Dispute.findById(id)) || undefined;
+  }
+
+  async updateDispute(id: string, updates: Partial<IDispute>) {
+    const dispute = await Dispute.findByIdAndUpdate(id, { $set: updates }, { new: true, runValidators: true });
+    if (!dispute) throw new Error("Dispute not found");
+    return dispute;
+  }
+
+  // Records a refund against a dispute, resolving it if a resolution is given
+  async addDisputeRefund(id: string, refundId: string, resolution?: { resolution: string; resolvedBy: string }) {
+    return await Dispute.findByIdAndUpdate(
+      id,
+      {
+        $addToSet: { refundIds: refundId },
+        ...(resolution && { $set: { ...resolution, status: "resolved", resolvedAt: new Date() } }),
+      },
+      { new: true }
+    );
+  }
 }
 
 export const storage = new MongoStorage();
\ No newline at end of file
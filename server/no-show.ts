@@ -0,0 +1,132 @@
+import { addMinutes } from "date-fns";
+import { storage } from "./storage";
+import { capturedPaymentFor } from "./payments";
+import { transitionAppointment } from "./appointment-state";
+import { numberFromEnv } from "./env";
+import { DEFAULT_TIME_ZONE, formatInTimeZone } from "@shared/time-zone";
+import type { IAppointment, IAppointmentNoShow } from "@shared/mongodb-schema";
+
+/**
+ * No-show detection for video appointments. Once an appointment is past its
+ * start plus a grace period, whoever never called /start-call is recorded as
+ * absent and the payment is settled by the no-show policy:
+ * - doctor absent (alone or with the patient): full refund
+ * - patient absent: PATIENT_NO_SHOW_REFUND_PERCENT of the fee (0 = forfeit)
+ */
+
+// How late a party may join before counting as absent
+export const NO_SHOW_GRACE_MINUTES = numberFromEnv("NO_SHOW_GRACE_MINUTES", 15, 1);
+
+// Share of the fee refunded when only the patient missed the appointment
+export const PATIENT_NO_SHOW_REFUND_PERCENT = Math.min(
+  numberFromEnv("PATIENT_NO_SHOW_REFUND_PERCENT", 0),
+  100
+);
+
+/**
+ * Which side never joined, or null if both did
+ */
+export function absentPartyFor(
+  appointment: Pick<IAppointment, "doctorJoinedAt" | "patientJoinedAt">
+): IAppointmentNoShow["absentParty"] | null {
+  const doctorJoined = !!appointment.doctorJoinedAt;
+  const patientJoined = !!appointment.patientJoinedAt;
+  if (doctorJoined && patientJoined) return null;
+  if (!doctorJoined && !patientJoined) return "both";
+  return doctorJoined ? "patient" : "doctor";
+}
+
+/**
+ * Amount refunded to the patient under the no-show policy
+ */
+export function noShowRefundAmount(
+  absentParty: IAppointmentNoShow["absentParty"],
+  paidAmount: number
+): number {
+  if (absentParty !== "patient") return paidAmount;
+  return Math.round(paidAmount * PATIENT_NO_SHOW_REFUND_PERCENT) / 100;
+}
+
+// The refund outcome is added to the patient's message by transitionAppointment
+const outcomeMessages = (
+  absentParty: IAppointmentNoShow["absentParty"],
+  names: { doctorName: string; patientName: string; when: string }
+) => {
+  if (absentParty === "patient") {
+    return {
+      patient: {
+        title: "Missed Appointment",
+        message: `You did not join your appointment with ${names.doctorName} on ${names.when}, so it was marked as a no-show.`,
+      },
+      doctor: {
+        title: "Patient No-Show",
+        message: `${names.patientName} did not join the appointment on ${names.when}. It has been marked as a no-show.`,
+      },
+    };
+  }
+
+  return {
+    patient: {
+      title: absentParty === "doctor" ? "Doctor Did Not Join" : "Missed Appointment",
+      message:
+        absentParty === "doctor"
+          ? `${names.doctorName} did not join your appointment on ${names.when}. We're sorry.`
+          : `Neither side joined the appointment with ${names.doctorName} on ${names.when}.`,
+    },
+    doctor: {
+      title: "Missed Appointment",
+      message: `You did not join the appointment with ${names.patientName} on ${names.when}. It has been marked as a no-show and the patient's fee is being refunded.`,
+    },
+  };
+};
+
+/**
+ * Closes one appointment as a no-show and settles its payment
+ */
+async function markNoShow(appointment: IAppointment, absentParty: IAppointmentNoShow["absentParty"]) {
+  const { payment, paidAmount } = await capturedPaymentFor(appointment);
+  const refundAmount = payment ? noShowRefundAmount(absentParty, paidAmount) : 0;
+
+  const [doctor, patient] = await Promise.all([
+    storage.getUser(appointment.doctorId),
+    storage.getUser(appointment.patientId),
+  ]);
+  const names = {
+    doctorName: `Dr. ${doctor?.firstName} ${doctor?.lastName}`,
+    patientName: `${patient?.firstName} ${patient?.lastName}`,
+    when: formatInTimeZone(appointment.appointmentDate, appointment.timeZone || DEFAULT_TIME_ZONE),
+  };
+
+  await transitionAppointment(appointment, "no-show", { id: "system", role: "system" }, {
+    reason: `${absentParty === "both" ? "Neither party" : `The ${absentParty}`} joined within ${NO_SHOW_GRACE_MINUTES} minutes`,
+    updates: { noShow: { absentParty, refundAmount, detectedAt: new Date() } },
+    messages: outcomeMessages(absentParty, names),
+    ...(payment && {
+      refund: { payment, amount: refundAmount, reasonCode: "no_show", note: `no-show (${absentParty})` },
+    }),
+  });
+}
+
+/**
+ * Marks video appointments nobody (or only one side) joined as no-shows.
+ * Run periodically by the scheduler.
+ * @returns Number of appointments marked
+ */
+export async function detectNoShows() {
+  const startedBefore = addMinutes(new Date(), -NO_SHOW_GRACE_MINUTES);
+  let marked = 0;
+
+  for (const appointment of await storage.getNoShowCandidates(startedBefore)) {
+    const absentParty = absentPartyFor(appointment);
+    if (!absentParty) continue;
+    try {
+      await markNoShow(appointment, absentParty);
+      marked++;
+    } catch (error: any) {
+      console.error(`❌ Could not mark appointment ${appointment._id} as no-show:`, error.message);
+    }
+  }
+
+  if (marked) console.log(`🚫 Marked ${marked} appointment(s) as no-show`);
+  return marked;
+}
@@ -0,0 +1,104 @@
+import { addMinutes } from "date-fns";
+import { storage } from "./storage";
+import { numberFromEnv } from "./env";
+import type { INotification, NotificationDeliveryChannel } from "@shared/mongodb-schema";
+
+/**
+ * Queue mechanics shared by the outbound notification channels (email, SMS,
+ * WhatsApp). createNotification marks a channel's delivery "pending"; the
+ * channel's job claims due deliveries, sends them and records the outcome on
+ * the notification. Failed sends are retried with backoff until
+ * NOTIFICATION_DELIVERY_MAX_ATTEMPTS, or given up at once when the transport
+ * flags the failure as permanent (e.g. the address was rejected).
+ */
+
+// Sends per notification and channel before giving up
+export const DELIVERY_MAX_ATTEMPTS = numberFromEnv("NOTIFICATION_DELIVERY_MAX_ATTEMPTS", 5, 1);
+
+// Wait before each retry; the last value repeats
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+
+// How long a claimed delivery stays hidden from other workers while it is sent
+const SEND_LEASE_MINUTES = 5;
+
+// Deliveries handled per channel and job run
+const BATCH_SIZE = 50;
+
+const retryDelayMinutes = (attempts: number) =>
+  RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1];
+
+// Transports set `permanent` on failures that retrying cannot fix
+const isPermanentFailure = (error: unknown) =>
+  error instanceof Error && (error as Error & { permanent?: boolean }).permanent === true;
+
+/**
+ * Sends a claimed notification on a channel
+ * @returns Name of the transport that delivered it
+ */
+export type DeliverySender = (notification: INotification) => Promise<string>;
+
+async function deliverOne(
+  channel: NotificationDeliveryChannel,
+  notificationId: string,
+  send: DeliverySender,
+  now: Date
+) {
+  const notification = await storage.claimNotificationDelivery(
+    notificationId,
+    channel,
+    now,
+    addMinutes(now, SEND_LEASE_MINUTES)
+  );
+  if (!notification) return false;
+
+  const field = `${channel}Delivery`;
+  const attempts = notification[`${channel}Delivery`]?.attempts ?? 1;
+
+  try {
+    const transport = await send(notification);
+    await storage.updateNotification(notificationId, {
+      [`${field}.status`]: "delivered",
+      [`${field}.deliveredAt`]: new Date(),
+      [`${field}.transport`]: transport,
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const giveUp = isPermanentFailure(error) || attempts >= DELIVERY_MAX_ATTEMPTS;
+
+    await storage.updateNotification(
+      notificationId,
+      giveUp
+        ? { [`${field}.status`]: "failed", [`${field}.lastError`]: reason }
+        : {
+            [`${field}.lastError`]: reason,
+            [`${field}.nextAttemptAt`]: addMinutes(now, retryDelayMinutes(attempts)),
+          }
+    );
+    console.error(
+      `❌ ${channel} for notification ${notificationId} failed (attempt ${attempts}${giveUp ? ", giving up" : ""}): ${reason}`
+    );
+  }
+  return true;
+}
+
+/**
+ * Sends every delivery on a channel that is due
+ * @returns How many were attempted
+ */
+export async function processDueDeliveries(
+  channel: NotificationDeliveryChannel,
+  send: DeliverySender,
+  now = new Date()
+) {
+  const due = await storage.getDueNotificationDeliveries(channel, now, BATCH_SIZE);
+  let processed = 0;
+
+  for (const notification of due) {
+    if (await deliverOne(channel, notification._id.toString(), send, now)) processed++;
+  }
+
+  if (processed > 0) {
+    console.log(`📨 Processed ${processed} ${channel} notification(s)`);
+  }
+  return processed;
+}
@@ -0,0 +1,205 @@
+import { storage } from "./storage";
+import { processDueDeliveries } from "./notification-delivery";
+import { APP_URL } from "./env";
+import { digestDueAt } from "./notification-preferences";
+import {
+  createEmailTransport,
+  EmailDeliveryError,
+  type EmailMessage,
+  type EmailTransport,
+} from "./email-transport";
+import { DEFAULT_TIME_ZONE, formatInTimeZone } from "@shared/time-zone";
+import type { INotification, IUser } from "@shared/mongodb-schema";
+
+/**
+ * Email copies of notifications. createNotification queues one whenever
+ * "email" is among the notification's channels; the email-delivery job
+ * renders the template for the notification's type and sends it through the
+ * configured transport (see notification-delivery for retries). Users in
+ * daily digest mode instead get one summary email a day.
+ */
+
+interface EmailTemplate {
+  subject: string;
+  actionLabel: string;
+}
+
+const EMAIL_TEMPLATES: Record<INotification["type"], EmailTemplate> = {
+  payment_pending: { subject: "Complete your payment to confirm your appointment", actionLabel: "Pay now" },
+  appointment_confirmed: { subject: "Your appointment is confirmed", actionLabel: "View appointment" },
+  appointment_scheduled: { subject: "New appointment scheduled", actionLabel: "View appointment" },
+  appointment_cancelled: { subject: "Appointment cancelled", actionLabel: "View appointments" },
+  appointment_rejected: { subject: "Your appointment request was declined", actionLabel: "Find another time" },
+  appointment_rescheduled: { subject: "Your appointment has been rescheduled", actionLabel: "View new time" },
+  reschedule_requested: { subject: "Reschedule requested", actionLabel: "Review request" },
+  reschedule_declined: { subject: "Your reschedule request was declined", actionLabel: "View appointment" },
+  waitlist_slot_offered: { subject: "A slot has opened up for you", actionLabel: "Claim the slot" },
+  appointment_no_show: { subject: "Missed appointment", actionLabel: "View details" },
+  consultation_completed: { subject: "Your consultation is complete", actionLabel: "View summary" },
+  appointment_reminder: { subject: "Reminder: upcoming appointment", actionLabel: "View appointment" },
+  payment_refunded: { subject: "Your refund is on its way", actionLabel: "View payments" },
+  // Sent with the admin's own title as the subject
+  announcement: { subject: "Announcement", actionLabel: "Open Appoint'd" },
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Email for a notification, using the template for its type
+ */
+export async function renderNotificationEmail(
+  notification: INotification,
+  recipient: Pick<IUser, "email" | "firstName" | "role">
+): Promise<EmailMessage> {
+  const template = EMAIL_TEMPLATES[notification.type];
+  const timeZone = notification.doctorId
+    ? await storage.getDoctorTimeZone(notification.doctorId)
+    : DEFAULT_TIME_ZONE;
+
+  const details: [string, string][] = [];
+  if (notification.appointmentDate) {
+    details.push(["When", formatInTimeZone(notification.appointmentDate, timeZone)]);
+  }
+  if (notification.consultationFee) {
+    details.push(["Fee", `₹${notification.consultationFee}`]);
+  }
+
+  const greeting = `Hi ${recipient.firstName || "there"},`;
+  const actionUrl = `${APP_URL}/${recipient.role === "doctor" ? "doctor" : "patient"}`;
+
+  const text = [
+    greeting,
+    "",
+    notification.message,
+    ...(details.length ? ["", ...details.map(([label, value]) => `${label}: ${value}`)] : []),
+    "",
+    `${template.actionLabel}: ${actionUrl}`,
+  ].join("\n");
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+    <h2 style="margin-bottom: 8px;">${escapeHtml(notification.title)}</h2>
+    <p>${escapeHtml(greeting)}</p>
+    <p>${escapeHtml(notification.message)}</p>
+    ${
+      details.length
+        ? `<table cellpadding="4">${details
+            .map(([label, value]) => `<tr><td><strong>${label}</strong></td><td>${escapeHtml(value)}</td></tr>`)
+            .join("")}</table>`
+        : ""
+    }
+    <p>
+      <a href="${actionUrl}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px;">${template.actionLabel}</a>
+    </p>
+  </body>
+</html>`;
+
+  const subject = notification.type === "announcement" ? notification.title : template.subject;
+  return { to: recipient.email, subject, text, html };
+}
+
+let transport: EmailTransport | null = null;
+const emailTransport = () => (transport = transport ?? createEmailTransport());
+
+const sendNotificationEmail = async (notification: INotification) => {
+  const recipient = await storage.getUser(notification.recipientId);
+  if (!recipient?.email) {
+    throw new EmailDeliveryError("Recipient has no email address", true);
+  }
+
+  const sender = emailTransport();
+  await sender.send(await renderNotificationEmail(notification, recipient));
+  return sender.name;
+};
+
+/**
+ * Sends every queued notification email that is due
+ */
+export function deliverPendingEmails(now = new Date()) {
+  return processDueDeliveries("email", sendNotificationEmail, now);
+}
+
+/**
+ * One summary email of everything held for a user's daily digest
+ */
+export async function renderDigestEmail(
+  notifications: INotification[],
+  recipient: Pick<IUser, "email" | "firstName" | "role">
+): Promise<EmailMessage> {
+  const greeting = `Hi ${recipient.firstName || "there"},`;
+  const actionUrl = `${APP_URL}/${recipient.role === "doctor" ? "doctor" : "patient"}`;
+  const count = `${notifications.length} update${notifications.length === 1 ? "" : "s"}`;
+
+  const text = [
+    greeting,
+    "",
+    `Here is your daily summary (${count}):`,
+    "",
+    ...notifications.map((notification) => `- ${notification.title}: ${notification.message}`),
+    "",
+    `View all notifications: ${actionUrl}`,
+  ].join("\n");
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+    <h2 style="margin-bottom: 8px;">Your daily summary</h2>
+    <p>${escapeHtml(greeting)}</p>
+    <p>Here is what happened since your last summary (${count}):</p>
+    <ul>
+      ${notifications
+        .map(
+          (notification) =>
+            `<li><strong>${escapeHtml(notification.title)}</strong><br />${escapeHtml(notification.message)}</li>`
+        )
+        .join("\n      ")}
+    </ul>
+    <p>
+      <a href="${actionUrl}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px;">View all notifications</a>
+    </p>
+  </body>
+</html>`;
+
+  return { to: recipient.email, subject: `Your daily summary: ${count}`, text, html };
+}
+
+/**
+ * Sends the daily digest to every user in daily mode whose digest time has
+ * passed today. A failed send is retried on the next run.
+ * @returns Number of digests sent
+ */
+export async function sendDailyDigests(now = new Date()) {
+  let sent = 0;
+
+  for (const preference of await storage.getDailyDigestPreferences()) {
+    const dueAt = digestDueAt(preference, now);
+    if (now < dueAt) continue;
+
+    const previous = await storage.claimDailyDigest(preference.userId, dueAt, now);
+    if (!previous) continue;
+
+    try {
+      const held = await storage.getDigestNotifications(preference.userId);
+      if (held.length === 0) continue;
+
+      const recipient = await storage.getUser(preference.userId);
+      if (!recipient?.email) continue;
+
+      const sender = emailTransport();
+      await sender.send(await renderDigestEmail(held, recipient));
+      await storage.markDigestDelivered(
+        held.map((notification) => notification._id.toString()),
+        `${sender.name} (digest)`
+      );
+      sent++;
+    } catch (error: any) {
+      console.error(`❌ Daily digest for user ${preference.userId} failed:`, error.message);
+      await storage.setLastDigestAt(preference.userId, previous.lastDigestAt);
+    }
+  }
+
+  if (sent) console.log(`📧 Sent ${sent} daily digest(s)`);
+  return sent;
+}
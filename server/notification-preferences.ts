@@ -0,0 +1,120 @@
+import { parseTimeOfDay } from "./scheduling";
+import { hasTextMessageTemplate } from "./text-messaging";
+import { addDaysToDateKey, DEFAULT_TIME_ZONE, zonedDateKey, zonedTimeOfDay, zonedTimeToUtc } from "@shared/time-zone";
+import type {
+  INotification,
+  INotificationDelivery,
+  INotificationPreference,
+  IUser,
+  NotificationChannel,
+  NotificationDeliveryChannel,
+} from "@shared/mongodb-schema";
+
+/**
+ * Applies a user's notification preferences to a new notification: which
+ * outbound channels it goes out on, whether it waits for quiet hours to end
+ * and whether its email is held for the daily digest. Used by
+ * createNotification, so every notification in the app goes through it.
+ */
+
+type Preference = Pick<
+  INotificationPreference,
+  "channels" | "quietHours" | "timeZone" | "digestMode" | "digestTime"
+>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCE: Preference = {
+  channels: [],
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+  timeZone: DEFAULT_TIME_ZONE,
+  digestMode: "immediate",
+  digestTime: "08:00",
+};
+
+// Never held for the digest: they are useless a day later
+export const TIME_SENSITIVE_TYPES: INotification["type"][] = [
+  "payment_pending",
+  "waitlist_slot_offered",
+  "appointment_reminder",
+];
+
+/**
+ * When the user's quiet hours are over
+ * @returns null if `now` is outside quiet hours
+ */
+export function quietHoursEnd(preference: Preference, now: Date): Date | null {
+  const { enabled, start, end } = preference.quietHours;
+  if (!enabled || start === end) return null;
+
+  const minutes = parseTimeOfDay(zonedTimeOfDay(now, preference.timeZone));
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  // A window like 22:00-07:00 wraps past midnight
+  const quiet =
+    startMinutes < endMinutes
+      ? minutes >= startMinutes && minutes < endMinutes
+      : minutes >= startMinutes || minutes < endMinutes;
+  if (!quiet) return null;
+
+  const today = zonedDateKey(now, preference.timeZone);
+  const endDay = minutes < endMinutes ? today : addDaysToDateKey(today, 1);
+  return zonedTimeToUtc(endDay, endMinutes, preference.timeZone);
+}
+
+/**
+ * The instant today's digest is due in the user's zone
+ */
+export function digestDueAt(preference: Preference, now: Date): Date {
+  return zonedTimeToUtc(
+    zonedDateKey(now, preference.timeZone),
+    parseTimeOfDay(preference.digestTime),
+    preference.timeZone
+  );
+}
+
+/**
+ * Channels and queued deliveries for a new notification
+ * @param requested Channels chosen where the notification is created
+ */
+export function planNotificationDelivery(
+  type: INotification["type"],
+  requested: NotificationChannel[],
+  recipient: Pick<IUser, "phone" | "smsOptIn" | "whatsappOptIn"> | null,
+  preference: Preference | null,
+  now = new Date()
+) {
+  const chosen = preference?.channels.find((entry) => entry.type === type);
+
+  // Without a choice for this type: the requested channels, plus texts for
+  // the types worth one
+  const wanted: NotificationDeliveryChannel[] = chosen
+    ? chosen.channels
+    : [
+        ...requested.filter((channel): channel is NotificationDeliveryChannel => channel !== "inapp"),
+        ...(hasTextMessageTemplate(type) ? (["sms", "whatsapp"] as const) : []),
+      ];
+
+  // Texts also need the recipient's consent and a phone number
+  const outbound = Array.from(new Set(wanted)).filter(
+    (channel) =>
+      channel === "email" ||
+      (!!recipient?.phone && !!recipient[channel === "sms" ? "smsOptIn" : "whatsappOptIn"])
+  );
+
+  const digest = preference?.digestMode === "daily" && !TIME_SENSITIVE_TYPES.includes(type);
+  const sendAt = (preference && quietHoursEnd(preference, now)) || now;
+
+  const deliveries: Partial<Record<NotificationDeliveryChannel, INotificationDelivery>> = {};
+  const channels: NotificationChannel[] = ["inapp"];
+  outbound.forEach((channel) => {
+    if (digest) {
+      // The digest is an email; texts are not summarised
+      if (channel !== "email") return;
+      deliveries.email = { status: "digest", attempts: 0 };
+    } else {
+      deliveries[channel] = { status: "pending", attempts: 0, nextAttemptAt: sendAt };
+    }
+    channels.push(channel);
+  });
+
+  return { channels, deliveries };
+}
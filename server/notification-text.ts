@@ -0,0 +1,49 @@
+import { storage } from "./storage";
+import { processDueDeliveries } from "./notification-delivery";
+import {
+  createTextMessageSender,
+  normalizePhoneNumber,
+  renderTextMessage,
+  TextMessageError,
+  type TextChannel,
+  type TextMessageSender,
+} from "./text-messaging";
+import { DEFAULT_TIME_ZONE } from "@shared/time-zone";
+import type { INotification } from "@shared/mongodb-schema";
+
+/**
+ * SMS and WhatsApp copies of notifications. createNotification queues them
+ * for recipients who opted in to the channel; the text-message-delivery job
+ * sends them (see notification-delivery for retries).
+ */
+
+let sender: TextMessageSender | null = null;
+const textMessageSender = () => (sender = sender ?? createTextMessageSender());
+
+const sendOn = (channel: TextChannel) => async (notification: INotification) => {
+  const recipient = await storage.getUser(notification.recipientId);
+  // Consent may have been withdrawn since the message was queued
+  if (!recipient?.[channel === "sms" ? "smsOptIn" : "whatsappOptIn"]) {
+    throw new TextMessageError(`Recipient has not opted in to ${channel}`, true);
+  }
+  const to = recipient.phone ? normalizePhoneNumber(recipient.phone) : null;
+  if (!to) {
+    throw new TextMessageError("Recipient has no phone number in international format", true);
+  }
+
+  const timeZone = notification.doctorId
+    ? await storage.getDoctorTimeZone(notification.doctorId)
+    : DEFAULT_TIME_ZONE;
+  const textSender = textMessageSender();
+  await textSender.send({ channel, to, body: renderTextMessage(notification, timeZone) });
+  return textSender.name;
+};
+
+/**
+ * Sends every queued SMS and WhatsApp notification that is due
+ */
+export async function deliverPendingTextMessages(now = new Date()) {
+  const sms = await processDueDeliveries("sms", sendOn("sms"), now);
+  const whatsapp = await processDueDeliveries("whatsapp", sendOn("whatsapp"), now);
+  return sms + whatsapp;
+}
@@ -0,0 +1,274 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { isExpectedAmount, refundPayment } from "./payments";
+import { recordClawback, recordEarning } from "./payouts";
+import {
+  AppointmentTransitionError,
+  transitionAppointment,
+  type TransitionActor,
+} from "./appointment-state";
+import { DEFAULT_TIME_ZONE, formatInTimeZone } from "@shared/time-zone";
+import type { IAppointment, IPayment } from "@shared/mongodb-schema";
+
+/**
+ * What Razorpay payment events mean for appointments. The checkout confirm
+ * route and the Razorpay webhook both land here, whichever arrives first, so
+ * a captured payment confirms the appointment even when the patient closes
+ * the browser right after paying. Every handler is safe to run twice.
+ */
+
+const SYSTEM_ACTOR: TransitionActor = { id: "system", role: "system" };
+
+export interface RazorpayWebhookEvent {
+  event: string;
+  payload: {
+    payment?: {
+      entity: {
+        id: string;
+        order_id: string;
+        // In paise, like every Razorpay amount
+        amount: number;
+        error_description?: string;
+      };
+    };
+    order?: { entity: { id: string } };
+    refund?: { entity: { id: string; payment_id: string; amount: number } };
+  };
+}
+
+export class PaymentAmountMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentAmountMismatchError";
+  }
+}
+
+/**
+ * Checks the X-Razorpay-Signature header against the exact bytes received
+ */
+export function verifyWebhookSignature(rawBody: Buffer, signature: string, secret: string) {
+  const expected = crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+  return (
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  );
+}
+
+// Loses quietly to a concurrent confirmation of the same appointment
+async function scheduleIfAwaitingPayment(
+  appointment: IAppointment,
+  actor: TransitionActor,
+  options: Parameters<typeof transitionAppointment>[3]
+): Promise<IAppointment> {
+  if (appointment.status !== "awaiting_payment") return appointment;
+  try {
+    return await transitionAppointment(appointment, "scheduled", actor, options);
+  } catch (error) {
+    if (error instanceof AppointmentTransitionError && error.status === 409) {
+      return (await storage.getAppointment(appointment._id.toString())) ?? appointment;
+    }
+    throw error;
+  }
+}
+
+// The order was paid after its appointment was cancelled (e.g. the payment
+// window ran out mid-checkout): nothing to confirm, so the money goes back
+async function refundLatePayment(payment: IPayment, appointment: IAppointment) {
+  const { payment: refunded } = await refundPayment(payment, undefined, {
+    reasonCode: "late_payment",
+    note: "Paid after the appointment was cancelled",
+  });
+  await storage.createNotification({
+    recipientId: appointment.patientId,
+    type: "appointment_cancelled",
+    title: "Payment Refunded",
+    message: `Your payment arrived after the appointment on ${formatInTimeZone(
+      appointment.appointmentDate,
+      appointment.timeZone || DEFAULT_TIME_ZONE
+    )} was cancelled, so it has been refunded in full.`,
+    appointmentId: appointment._id.toString(),
+    appointmentDate: appointment.appointmentDate,
+    doctorId: appointment.doctorId,
+    read: false,
+    createdAt: new Date(),
+    notificationChannels: ["email", "inapp"],
+  });
+  return refunded;
+}
+
+/**
+ * Records a captured payment and confirms the appointment(s) it pays for,
+ * notifying the patient and the doctor
+ * @param capturedPaise The amount Razorpay captured, checked against the order's total
+ * @param actor The patient when confirmed from checkout, the system for webhooks
+ * @returns null if no payment exists for the order
+ * @throws PaymentAmountMismatchError if the captured amount is not the expected total
+ */
+export async function settleCapturedPayment(
+  orderId: string,
+  razorpayPaymentId: string,
+  capturedPaise: number,
+  actor: TransitionActor = SYSTEM_ACTOR
+) {
+  const expected = await storage.getPaymentByOrderId(orderId);
+  if (!expected) return null;
+  if (!isExpectedAmount(expected, capturedPaise)) {
+    throw new PaymentAmountMismatchError(
+      `Payment ${razorpayPaymentId} captured ${capturedPaise / 100} for order ${orderId}, expected ${expected.amount}`
+    );
+  }
+
+  const result = await storage.markPaymentCaptured(orderId, razorpayPaymentId);
+  if (!result) return null;
+  let { payment } = result;
+  if (result.captured) {
+    await recordEarning(payment);
+  }
+
+  const found = await storage.getAppointment(payment.appointmentId);
+  if (!found) {
+    throw new Error(`Appointment ${payment.appointmentId} for order ${orderId} not found`);
+  }
+  let appointment: IAppointment = found;
+
+  if (appointment.status === "cancelled" && payment.status === "completed") {
+    payment = await refundLatePayment(payment, appointment);
+    return { payment, appointment };
+  }
+
+  if (appointment.status === "awaiting_payment") {
+    const [doctor, patient] = await Promise.all([
+      storage.getUser(appointment.doctorId),
+      storage.getUser(appointment.patientId),
+    ]);
+    const when = formatInTimeZone(appointment.appointmentDate, appointment.timeZone || DEFAULT_TIME_ZONE);
+    appointment = await scheduleIfAwaitingPayment(appointment, actor, {
+      reason: `Payment ${razorpayPaymentId} captured`,
+      messages: {
+        patient: {
+          title: "Payment Confirmed!",
+          message: payment.seriesId
+            ? `Your follow-up plan with Dr. ${doctor?.firstName} ${doctor?.lastName} is paid and all visits are confirmed.`
+            : `Your appointment with Dr. ${doctor?.firstName} ${doctor?.lastName} is now confirmed.`,
+        },
+        doctor: {
+          title: "Appointment Paid",
+          message: `${patient?.firstName} ${patient?.lastName} paid for the appointment on ${when}${
+            payment.seriesId ? " and the rest of the follow-up plan" : ""
+          }.`,
+        },
+      },
+    });
+  }
+
+  // An upfront plan payment confirms the other visits it covers too
+  if (payment.seriesId) {
+    const otherVisits = (await storage.getSeriesAppointments(payment.seriesId)).filter(
+      (visit) => visit._id.toString() !== payment.appointmentId && visit.status === "awaiting_payment"
+    );
+    for (const visit of otherVisits) {
+      const when = formatInTimeZone(visit.appointmentDate, visit.timeZone || DEFAULT_TIME_ZONE);
+      await scheduleIfAwaitingPayment(visit, actor, {
+        reason: `Covered by follow-up plan payment ${razorpayPaymentId}`,
+        messages: {
+          patient: { title: "Follow-up Confirmed", message: `Your follow-up visit on ${when} is confirmed.` },
+          doctor: { title: "Follow-up Paid", message: `The follow-up visit on ${when} was paid with the plan.` },
+        },
+      });
+    }
+  }
+
+  return { payment, appointment };
+}
+
+/**
+ * Marks an unpaid order failed and tells the patient they can try again
+ * @returns null if the order was already settled or is unknown
+ */
+export async function recordFailedPayment(orderId: string, razorpayPaymentId: string, reason?: string) {
+  const payment = await storage.markPaymentFailed(orderId, razorpayPaymentId);
+  if (!payment) return null;
+
+  const appointment = await storage.getAppointment(payment.appointmentId);
+  if (appointment?.status === "awaiting_payment") {
+    await storage.createNotification({
+      recipientId: payment.patientId,
+      type: "payment_pending",
+      title: "Payment Failed",
+      message: `Your payment did not go through${reason ? ` (${reason})` : ""}. Please try again to confirm your appointment.`,
+      appointmentId: payment.appointmentId,
+      appointmentDate: appointment.appointmentDate,
+      consultationFee: appointment.consultationFee,
+      doctorId: payment.doctorId,
+      read: false,
+      createdAt: new Date(),
+      notificationChannels: ["email", "inapp"],
+    });
+  }
+  return payment;
+}
+
+/**
+ * Records a refund Razorpay reports, e.g. one made from the Razorpay
+ * dashboard. Refunds issued by the app are already recorded under the same id.
+ * @param refundAmount The refund's own amount, in rupees
+ */
+export async function recordRefund(razorpayPaymentId: string, razorpayRefundId: string, refundAmount: number) {
+  const payment = await storage.getPaymentByRazorpayPaymentId(razorpayPaymentId);
+  if (!payment || refundAmount <= 0) return null;
+
+  const updated = await storage.addPaymentRefund(payment._id.toString(), {
+    razorpayRefundId,
+    amount: refundAmount,
+    reasonCode: "other",
+    note: "Refunded from the Razorpay dashboard",
+    source: "razorpay",
+    createdAt: new Date(),
+  });
+  if (!updated) return null;
+  await recordClawback(updated, refundAmount, razorpayRefundId);
+  return updated;
+}
+
+/**
+ * Applies one webhook event
+ * @returns A short description of what changed, stored with the event
+ */
+export async function handleRazorpayWebhookEvent({ event, payload }: RazorpayWebhookEvent) {
+  switch (event) {
+    case "payment.captured":
+    case "order.paid": {
+      const payment = payload.payment?.entity;
+      if (!payment) return "no payment in payload";
+      let result;
+      try {
+        result = await settleCapturedPayment(payment.order_id, payment.id, payment.amount);
+      } catch (error) {
+        // Retrying will not change the amount; left pending for someone to look at
+        if (error instanceof PaymentAmountMismatchError) {
+          console.error(`❌ ${error.message}`);
+          return error.message;
+        }
+        throw error;
+      }
+      return result
+        ? `payment ${result.payment._id} ${result.payment.status}, appointment ${result.appointment._id} ${result.appointment.status}`
+        : `unknown order ${payment.order_id}`;
+    }
+    case "payment.failed": {
+      const payment = payload.payment?.entity;
+      if (!payment) return "no payment in payload";
+      const failed = await recordFailedPayment(payment.order_id, payment.id, payment.error_description);
+      return failed ? `payment ${failed._id} failed` : `order ${payment.order_id} already settled`;
+    }
+    case "refund.processed": {
+      const refund = payload.refund?.entity;
+      if (!refund) return "no refund in payload";
+      // Counted by the refund's own amount so refunds recorded concurrently add up
+      const updated = await recordRefund(refund.payment_id, refund.id, refund.amount / 100);
+      return updated ? `payment ${updated._id} ${updated.status}` : "refund already recorded";
+    }
+    default:
+      return "ignored";
+  }
+}
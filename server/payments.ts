@@ -0,0 +1,329 @@
+import Razorpay from "razorpay";
+import { storage } from "./storage";
+import { getActivePricing, priceConsultation } from "./pricing";
+import { recordClawback } from "./payouts";
+import { numberFromEnv } from "./env";
+import { DEFAULT_TIME_ZONE, formatInTimeZone } from "@shared/time-zone";
+import type { IAppointment, IPayment, IPaymentRefund, RefundReasonCode } from "@shared/mongodb-schema";
+
+// Razorpay setup
+if (!process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
+  console.warn(
+    "Warning: RAZORPAY_KEY_ID or RAZORPAY_KEY_SECRET not found. Payment functionality will be limited."
+  );
+}
+
+export const razorpay =
+  process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET
+    ? new Razorpay({
+        key_id: process.env.RAZORPAY_KEY_ID,
+        key_secret: process.env.RAZORPAY_KEY_SECRET,
+      })
+    : null;
+
+const toPaise = (rupees: number) => Math.round(rupees * 100);
+
+/**
+ * What the patient is charged for an appointment under the pricing in force,
+ * worked out from the fees stored on the appointments rather than anything
+ * the browser sends. An upfront follow-up plan is charged for every visit
+ * still awaiting payment.
+ * @returns The split from priceConsultation; seriesId is set for plan payments
+ */
+export async function quoteAppointmentCharge(
+  appointment: Pick<IAppointment, "_id" | "seriesId" | "consultationFee" | "doctorId">
+) {
+  const series = appointment.seriesId
+    ? await storage.getAppointmentSeries(appointment.seriesId)
+    : undefined;
+  const seriesVisits =
+    series?.paymentMode === "upfront"
+      ? (await storage.getSeriesAppointments(appointment.seriesId!)).filter(
+          (visit) => visit.status === "awaiting_payment"
+        )
+      : [];
+  const seriesId = seriesVisits.length > 0 ? appointment.seriesId : undefined;
+  const consultationFee = seriesId
+    ? seriesVisits.reduce((sum, visit) => sum + visit.consultationFee, 0)
+    : appointment.consultationFee;
+
+  const [pricing, profile] = await Promise.all([
+    getActivePricing(),
+    storage.getDoctorProfile(appointment.doctorId),
+  ]);
+  return {
+    seriesId,
+    ...priceConsultation(pricing, { doctorId: appointment.doctorId, plan: profile?.plan }, consultationFee),
+  };
+}
+
+/**
+ * Whether a captured amount from Razorpay (in paise) is what the payment
+ * record says the patient owes
+ */
+export function isExpectedAmount(payment: Pick<IPayment, "amount">, capturedPaise: number) {
+  return toPaise(payment.amount) === capturedPaise;
+}
+
+/**
+ * Finds the captured payment covering an appointment and how much of it is
+ * still refundable for that visit. A visit in an upfront follow-up plan owns
+ * its fee's share of the single series payment.
+ * @returns payment is null when the visit has not been paid for
+ */
+export async function capturedPaymentFor(
+  appointment: Pick<IAppointment, "_id" | "seriesId" | "consultationFee">
+) {
+  const payment =
+    (appointment.seriesId && (await storage.getCompletedPaymentBySeries(appointment.seriesId))) ||
+    (await storage.getCompletedPaymentByAppointment(appointment._id.toString()));
+  if (!payment) return { payment: null, paidAmount: 0 };
+
+  const remaining = payment.amount - (payment.refundedAmount || 0);
+  // Older payments predate the stored split, when the doctor got the whole fee
+  const planFees = payment.pricing?.consultationFee ?? payment.doctorPayoutAmount;
+  if (!payment.seriesId || !planFees) {
+    return { payment, paidAmount: remaining };
+  }
+
+  const share = Math.round(((payment.amount * appointment.consultationFee) / planFees) * 100) / 100;
+  return { payment, paidAmount: Math.min(share, remaining) };
+}
+
+export interface RefundDetails {
+  reasonCode: RefundReasonCode;
+  note?: string;
+  disputeId?: string;
+  // The admin who issued the refund; left out for automatic refunds
+  initiatedBy?: string;
+  // Sent with the Razorpay refund so a retry can tell whether it already went through
+  key?: string;
+}
+
+// Razorpay took the refund but it could not be recorded here. Issuing it
+// again would pay twice; the refund.processed webhook records it instead.
+export class RefundRecordingError extends Error {
+  refundId: string;
+
+  constructor(refundId: string, message: string) {
+    super(`Refund ${refundId} was issued but could not be recorded: ${message}`);
+    this.name = "RefundRecordingError";
+    this.refundId = refundId;
+  }
+}
+
+/**
+ * Refunds a captured payment through Razorpay and records it on the Payment.
+ * Partial refunds leave the payment "partially_refunded" and can be topped up
+ * later; once the whole amount is returned it becomes "refunded". Each refund
+ * is kept in the payment's refund history and claws back the doctor's share.
+ * @param payment The completed payment to refund
+ * @param amount Refund amount in rupees; defaults to whatever is left to refund
+ * @param details Why the refund was made, also stored on the Razorpay refund
+ * @returns The updated payment record and the refund as recorded on it
+ * @throws RefundRecordingError if Razorpay refunded but the refund was not recorded
+ */
+export async function refundPayment(
+  payment: IPayment,
+  amount: number | undefined,
+  details: RefundDetails
+) {
+  if (!razorpay) {
+    throw new Error("Razorpay not configured");
+  }
+  if (
+    !["completed", "partially_refunded"].includes(payment.status) ||
+    !payment.razorpayPaymentId
+  ) {
+    throw new Error("Only captured payments can be refunded");
+  }
+
+  const alreadyRefunded = payment.refundedAmount || 0;
+  const refundable = payment.amount - alreadyRefunded;
+  const refundAmount = Math.min(amount ?? refundable, refundable);
+  if (refundAmount <= 0) {
+    throw new Error("Nothing left to refund on this payment");
+  }
+
+  const refund = await razorpay.payments.refund(payment.razorpayPaymentId, {
+    amount: Math.round(refundAmount * 100),
+    notes: {
+      appointmentId: payment.appointmentId,
+      reasonCode: details.reasonCode,
+      ...(details.note && { note: details.note }),
+      ...(details.disputeId && { disputeId: details.disputeId }),
+      ...(details.key && { key: details.key }),
+    },
+  });
+
+  console.log(`💸 Refund ${refund.id} issued for payment ${payment._id}: ₹${refundAmount} (${details.reasonCode})`);
+
+  const paymentId = payment._id.toString();
+  const entry: IPaymentRefund = {
+    razorpayRefundId: refund.id,
+    amount: refundAmount,
+    reasonCode: details.reasonCode,
+    ...(details.note && { note: details.note }),
+    ...(details.disputeId && { disputeId: details.disputeId }),
+    source: details.initiatedBy ? "admin" : "system",
+    ...(details.initiatedBy && { initiatedBy: details.initiatedBy }),
+    createdAt: new Date(),
+  };
+  let updated: NonNullable<Awaited<ReturnType<typeof storage.addPaymentRefund>>>;
+  try {
+    updated =
+      (await storage.addPaymentRefund(paymentId, entry)) ??
+      // The refund webhook got here first and only knew the amount
+      (await storage.annotatePaymentRefund(paymentId, entry))!;
+    await recordClawback(updated, refundAmount, refund.id, details.reasonCode);
+  } catch (error: any) {
+    throw new RefundRecordingError(refund.id, error.message);
+  }
+  return {
+    payment: updated,
+    refund: updated.refunds.find((recorded) => recorded.razorpayRefundId === refund.id) ?? entry,
+  };
+}
+
+// Times the refund-retry job tries a refund before leaving it to an admin
+const MAX_REFUND_ATTEMPTS = numberFromEnv("MAX_REFUND_ATTEMPTS", 8, 1);
+
+// Razorpay API errors carry their reason in error.error
+const refundErrorMessage = (error: any) => error?.error?.description || error?.message || String(error);
+
+// Identifies a policy refund on Razorpay, where it is stored in the refund's notes
+const policyRefundKey = (appointmentId: string, reasonCode: RefundReasonCode) => `${reasonCode}:${appointmentId}`;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Issues a refund the cancellation or no-show policy owes on an appointment.
+ * If Razorpay does not take it, it is recorded on the appointment as a
+ * pending refund for the refund-retry job and the admin dashboard.
+ * @returns true if the refund went through
+ */
+export async function issuePolicyRefund(
+  appointmentId: string,
+  payment: IPayment,
+  amount: number,
+  details: RefundDetails
+) {
+  try {
+    await refundPayment(payment, amount, { ...details, key: policyRefundKey(appointmentId, details.reasonCode) });
+    return true;
+  } catch (error) {
+    const message = refundErrorMessage(error);
+    if (error instanceof RefundRecordingError) {
+      console.error(`❌ Refund for appointment ${appointmentId}:`, message);
+      return true;
+    }
+    console.error(`❌ Refund for appointment ${appointmentId} failed, will retry:`, message);
+    await storage.setPendingRefund(appointmentId, {
+      paymentId: payment._id.toString(),
+      amount,
+      reasonCode: details.reasonCode,
+      ...(details.note && { note: details.note }),
+      status: "retrying",
+      attempts: 1,
+      lastError: message,
+      lastAttemptAt: new Date(),
+      createdAt: new Date(),
+    });
+    return false;
+  }
+}
+
+/**
+ * Tries an appointment's pending refund again and tells the patient once it
+ * has gone through. A failed attempt may still have reached Razorpay (e.g. a
+ * timeout), so Razorpay is asked first; refunds made on the payment since,
+ * e.g. by an admin, count towards what is owed.
+ * @returns true if the refund was issued or is no longer needed
+ */
+export async function retryPendingRefund(appointment: IAppointment) {
+  const pending = appointment.pendingRefund;
+  if (!pending) return true;
+  const appointmentId = appointment._id.toString();
+
+  // Refunded in full some other way in the meantime
+  const payment = await storage.getPayment(pending.paymentId);
+  if (!payment || !["completed", "partially_refunded"].includes(payment.status)) {
+    await storage.clearPendingRefund(appointmentId);
+    return true;
+  }
+
+  let refunded: number;
+  try {
+    if (!razorpay || !payment.razorpayPaymentId) {
+      throw new Error("Razorpay not configured");
+    }
+    const key = policyRefundKey(appointmentId, pending.reasonCode);
+    const { items } = await razorpay.payments.fetchMultipleRefund(payment.razorpayPaymentId, { count: 100 });
+    const earlier = items.find((refund) => refund.notes?.key === key && refund.status !== "failed");
+
+    if (earlier) {
+      // An attempt that looked failed went through after all; the webhook records it
+      refunded = (earlier.amount ?? 0) / 100;
+    } else {
+      const refundedSince = payment.refunds
+        .filter((refund) => refund.createdAt > pending.createdAt)
+        .reduce((sum, refund) => sum + refund.amount, 0);
+      const owed = round2(
+        Math.min(pending.amount - refundedSince, payment.amount - (payment.refundedAmount || 0))
+      );
+      if (owed <= 0) {
+        console.log(`💸 Pending refund for appointment ${appointmentId} was covered by later refunds`);
+        await storage.clearPendingRefund(appointmentId);
+        return true;
+      }
+      ({
+        refund: { amount: refunded },
+      } = await refundPayment(payment, owed, { reasonCode: pending.reasonCode, note: pending.note, key }));
+    }
+  } catch (error) {
+    const message = refundErrorMessage(error);
+    if (error instanceof RefundRecordingError) {
+      // Razorpay has it; trying again would pay twice
+      console.error(`❌ Refund retry for appointment ${appointmentId}:`, message);
+      await storage.clearPendingRefund(appointmentId);
+      return true;
+    }
+    const updated = await storage.recordPendingRefundAttempt(appointmentId, message, MAX_REFUND_ATTEMPTS);
+    if (updated?.pendingRefund?.status === "failed") {
+      console.error(`❌ Giving up on refund for appointment ${appointmentId}, an admin needs to issue it:`, message);
+    } else {
+      console.error(`❌ Refund retry for appointment ${appointmentId} failed:`, message);
+    }
+    return false;
+  }
+
+  await storage.clearPendingRefund(appointmentId);
+  await storage.createNotification({
+    recipientId: appointment.patientId,
+    type: "payment_refunded",
+    title: "Refund Issued",
+    message: `We have refunded ₹${refunded} for your appointment on ${formatInTimeZone(
+      appointment.appointmentDate,
+      appointment.timeZone || DEFAULT_TIME_ZONE
+    )} to your original payment method. It usually reaches your account within 5-7 working days.`,
+    appointmentId,
+    appointmentDate: appointment.appointmentDate,
+    doctorId: appointment.doctorId,
+    read: false,
+    createdAt: new Date(),
+    notificationChannels: ["email", "inapp"],
+  });
+  return true;
+}
+
+/**
+ * Retries every pending refund that has not been given up on
+ * @returns Number of refunds issued
+ */
+export async function retryPendingRefunds() {
+  let issued = 0;
+  for (const appointment of await storage.getPendingRefundAppointments(["retrying"])) {
+    if (await retryPendingRefund(appointment)) issued++;
+  }
+  return issued;
+}
@@ -0,0 +1,465 @@
+import { storage } from "./storage";
+import type { IPayment, IPayout, RefundReasonCode } from "@shared/mongodb-schema";
+
+/**
+ * Doctor payouts. The ledger records what each doctor has earned from
+ * captured payments and what refunds took back; settlement batches pay out
+ * the balance, either as a CSV for the bank's bulk upload or through a payout
+ * provider. PAYOUT_PROVIDER picks the provider:
+ * - razorpayx: RazorpayX Payouts from RAZORPAYX_ACCOUNT_NUMBER to each
+ *   doctor's fund account, with the Razorpay API keys used for payments
+ * - fake: settles every payout at once, for local runs
+ * Without PAYOUT_PROVIDER, razorpayx is used when RAZORPAYX_ACCOUNT_NUMBER is
+ * set and fake otherwise.
+ */
+
+// Ledger entries and payouts shown on a doctor's statement
+const STATEMENT_SIZE = 50;
+
+export interface PayoutRequest {
+  payoutId: string;
+  fundAccountId: string;
+  amount: number; // rupees
+}
+
+export interface PayoutResult {
+  providerPayoutId: string;
+  // processed: the money has left; processing: it will, confirm it later
+  status: "processing" | "processed";
+  reference?: string;
+}
+
+export interface PayoutProvider {
+  name: string;
+  pay(request: PayoutRequest): Promise<PayoutResult>;
+}
+
+export class PayoutProviderError extends Error {
+  // The provider refused the payout itself (bad fund account, invalid amount)
+  permanent: boolean;
+
+  constructor(message: string, permanent = false) {
+    super(message);
+    this.name = "PayoutProviderError";
+    this.permanent = permanent;
+  }
+}
+
+// A batch is paid either by bank upload or through the provider, never both
+export class SettlementBatchError extends Error {
+  status: number;
+
+  constructor(message: string, status = 409) {
+    super(message);
+    this.name = "SettlementBatchError";
+    this.status = status;
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function fakePayoutProvider(): PayoutProvider {
+  return {
+    name: "fake",
+    async pay(request) {
+      console.log(`🏦 [fake payout] ₹${request.amount} to ${request.fundAccountId}`);
+      return { providerPayoutId: `fake_${request.payoutId}`, status: "processed", reference: `FAKE${Date.now()}` };
+    },
+  };
+}
+
+export function razorpayXPayoutProvider(accountNumber: string): PayoutProvider {
+  const auth = Buffer.from(`${process.env.RAZORPAY_KEY_ID}:${process.env.RAZORPAY_KEY_SECRET}`).toString("base64");
+
+  return {
+    name: "razorpayx",
+    async pay(request) {
+      const response = await fetch("https://api.razorpay.com/v1/payouts", {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${auth}`,
+          "Content-Type": "application/json",
+          // A retried submission must not pay twice
+          "X-Payout-Idempotency": request.payoutId,
+        },
+        body: JSON.stringify({
+          account_number: accountNumber,
+          fund_account_id: request.fundAccountId,
+          amount: Math.round(request.amount * 100),
+          currency: "INR",
+          mode: process.env.RAZORPAYX_PAYOUT_MODE || "IMPS",
+          purpose: "payout",
+          queue_if_low_balance: true,
+          reference_id: request.payoutId,
+          narration: "Appointd consultation payout",
+        }),
+      });
+      const body: any = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        // 4xx other than rate limiting means the request itself is wrong
+        const permanent = response.status >= 400 && response.status < 500 && response.status !== 429;
+        throw new PayoutProviderError(
+          `RazorpayX ${response.status}: ${body?.error?.description ?? response.statusText}`,
+          permanent
+        );
+      }
+      if (["rejected", "cancelled", "reversed", "failed"].includes(body.status)) {
+        throw new PayoutProviderError(`RazorpayX payout ${body.id} ${body.status}`, true);
+      }
+      return {
+        providerPayoutId: body.id,
+        status: body.status === "processed" ? "processed" : "processing",
+        reference: body.utr || undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Provider configured by the environment
+ */
+export function createPayoutProvider(): PayoutProvider {
+  const accountNumber = process.env.RAZORPAYX_ACCOUNT_NUMBER;
+  const kind = process.env.PAYOUT_PROVIDER || (accountNumber ? "razorpayx" : "fake");
+
+  if (kind === "razorpayx") {
+    if (!accountNumber || !process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
+      console.warn("⚠️ RazorpayX account or keys missing, payouts go to the fake provider");
+      return fakePayoutProvider();
+    }
+    return razorpayXPayoutProvider(accountNumber);
+  }
+  if (kind !== "fake") {
+    console.warn(`⚠️ Unknown PAYOUT_PROVIDER '${kind}', using the fake provider`);
+  }
+  return fakePayoutProvider();
+}
+
+/**
+ * Credits the doctor with their share of a captured payment
+ */
+export async function recordEarning(payment: IPayment) {
+  if (!payment.doctorPayoutAmount) return null;
+  return await storage.createLedgerEntry({
+    doctorId: payment.doctorId,
+    type: "earning",
+    amount: payment.doctorPayoutAmount,
+    paymentId: payment._id.toString(),
+    appointmentId: payment.appointmentId,
+    sourceKey: `earning:${payment._id}`,
+    description: payment.seriesId ? "Follow-up plan payment" : "Consultation payment",
+  });
+}
+
+/**
+ * Takes back the doctor's part of a refund: the same fraction of their share
+ * as the refund is of what the patient paid
+ * @param refundAmount Rupees refunded by this refund alone
+ * @param reasonCode Shown on the doctor's statement
+ */
+export async function recordClawback(
+  payment: IPayment,
+  refundAmount: number,
+  refundId: string,
+  reasonCode?: RefundReasonCode
+) {
+  const share = payment.amount ? round2((refundAmount * payment.doctorPayoutAmount) / payment.amount) : 0;
+  if (share <= 0) return null;
+  return await storage.createLedgerEntry({
+    doctorId: payment.doctorId,
+    type: "clawback",
+    amount: share,
+    paymentId: payment._id.toString(),
+    appointmentId: payment.appointmentId,
+    sourceKey: `clawback:${refundId}`,
+    description: `Refund of ₹${refundAmount}${reasonCode ? ` (${reasonCode.replace(/_/g, " ")})` : ""}`,
+  });
+}
+
+/**
+ * A doctor's balances. earned - clawedBack = settled + inSettlement + pending.
+ */
+function balancesFor(
+  ledger: { earned: number; clawedBack: number; unsettled: number } | undefined,
+  payouts: { settled: number; inSettlement: number } | undefined
+) {
+  return {
+    earned: round2(ledger?.earned ?? 0),
+    clawedBack: round2(ledger?.clawedBack ?? 0),
+    pending: round2(ledger?.unsettled ?? 0),
+    inSettlement: round2(payouts?.inSettlement ?? 0),
+    settled: round2(payouts?.settled ?? 0),
+  };
+}
+
+/**
+ * Balances of every doctor with ledger activity, largest pending first
+ */
+export async function getPayoutBalances() {
+  const [ledger, payouts, doctors] = await Promise.all([
+    storage.getLedgerTotals(),
+    storage.getPayoutTotals(),
+    storage.getDoctorsWithProfiles(),
+  ]);
+  return doctors
+    .filter((doctor) => ledger.has(doctor._id.toString()))
+    .map((doctor) => {
+      const doctorId = doctor._id.toString();
+      return {
+        doctorId,
+        name: `Dr. ${doctor.firstName} ${doctor.lastName}`,
+        email: doctor.email,
+        fundAccountId: doctor.profile?.fundAccountId,
+        ...balancesFor(ledger.get(doctorId), payouts.get(doctorId)),
+      };
+    })
+    .sort((a, b) => b.pending - a.pending);
+}
+
+/**
+ * What a doctor sees of their payouts: balances, recent ledger entries and payouts
+ */
+export async function getDoctorStatement(doctorId: string) {
+  const [ledger, payouts, entries, recentPayouts] = await Promise.all([
+    storage.getLedgerTotals(doctorId),
+    storage.getPayoutTotals(doctorId),
+    storage.getLedgerEntries(doctorId, STATEMENT_SIZE),
+    storage.getPayoutsByDoctor(doctorId, STATEMENT_SIZE),
+  ]);
+  return {
+    balances: balancesFor(ledger.get(doctorId), payouts.get(doctorId)),
+    entries,
+    payouts: recentPayouts,
+  };
+}
+
+/**
+ * Groups every doctor's unsettled ledger entries from the period into one
+ * payout each. Doctors whose refunds outweigh their earnings are left out;
+ * their balance carries over to a later period.
+ * @returns null if nobody has anything to be paid for the period
+ */
+export async function createSettlementBatch(periodStart: Date, periodEnd: Date, createdBy: string) {
+  const totals = (await storage.getUnsettledLedgerTotals(periodStart, periodEnd)).filter((row) => row.net > 0);
+  if (totals.length === 0) return null;
+
+  const batch = await storage.createSettlementBatch({ periodStart, periodEnd, createdBy });
+  const batchId = batch._id.toString();
+  let payoutCount = 0;
+  let totalAmount = 0;
+
+  for (const row of totals) {
+    const profile = await storage.getDoctorProfile(row._id);
+    const payout = await storage.createPayout({
+      batchId,
+      doctorId: row._id,
+      amount: 0,
+      fundAccountId: profile?.fundAccountId,
+    });
+    const payoutId = payout._id.toString();
+
+    // Another batch created at the same moment may have taken some entries
+    const assigned = await storage.assignLedgerEntries(row.entryIds, payoutId);
+    if (assigned.net <= 0) {
+      await storage.releaseLedgerEntries(payoutId);
+      await storage.deletePayout(payoutId);
+      continue;
+    }
+    const amount = round2(assigned.net);
+    await storage.transitionPayout(payoutId, ["pending"], { amount, entryCount: assigned.count });
+    payoutCount++;
+    totalAmount += amount;
+  }
+
+  if (payoutCount === 0) {
+    await storage.deleteSettlementBatch(batchId);
+    return null;
+  }
+  console.log(`🏦 Settlement batch ${batchId}: ${payoutCount} payout(s), ₹${round2(totalAmount)}`);
+  return await storage.updateSettlementBatch(batchId, { payoutCount, totalAmount: round2(totalAmount) });
+}
+
+/**
+ * A batch with its payouts and the doctors' names
+ */
+export async function getSettlementBatchDetails(batchId: string) {
+  const batch = await storage.getSettlementBatch(batchId);
+  if (!batch) return null;
+  const payouts = await storage.getPayoutsByBatch(batchId);
+  const doctors = await Promise.all(payouts.map((payout) => storage.getUser(payout.doctorId)));
+  return {
+    ...batch.toObject(),
+    payouts: payouts.map((payout, i) => ({
+      ...payout.toObject(),
+      doctorName: doctors[i] ? `Dr. ${doctors[i]!.firstName} ${doctors[i]!.lastName}` : "Unknown doctor",
+      doctorEmail: doctors[i]?.email,
+    })),
+  };
+}
+
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The batch's unsent payouts as CSV for a bank's bulk transfer upload.
+ * The batch is marked exported, which keeps it from being submitted to the
+ * payout provider; payouts stay pending until they are marked processed with
+ * the bank's reference.
+ * @returns null if the batch does not exist
+ * @throws SettlementBatchError if the batch has been submitted to the provider
+ */
+export async function exportSettlementBatch(batchId: string) {
+  const batch = await storage.getSettlementBatch(batchId);
+  if (!batch) return null;
+  if (batch.submittedAt) {
+    throw new SettlementBatchError("This batch was sent through the payout provider and cannot be paid by bank transfer");
+  }
+  if (
+    batch.status === "open" &&
+    !(await storage.transitionSettlementBatch(batchId, ["open"], { status: "exported", exportedAt: new Date() }))
+  ) {
+    throw new SettlementBatchError("This batch was just sent through the payout provider");
+  }
+
+  const details = (await getSettlementBatchDetails(batchId))!;
+
+  const header = ["payout_id", "doctor_name", "doctor_email", "fund_account_id", "amount", "currency", "narration"];
+  const rows = details.payouts
+    .filter((payout) => payout.status === "pending")
+    .map((payout) =>
+      [
+        payout._id.toString(),
+        payout.doctorName,
+        payout.doctorEmail,
+        payout.fundAccountId,
+        payout.amount.toFixed(2),
+        "INR",
+        `Appointd payout ${details.periodEnd.toISOString().slice(0, 10)}`,
+      ]
+        .map(csvField)
+        .join(",")
+    );
+
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
+
+// Closes a batch once none of its payouts is still on its way
+async function closeBatchIfSettled(batchId: string) {
+  if ((await storage.countOpenPayouts(batchId)) === 0) {
+    await storage.updateSettlementBatch(batchId, { status: "closed" });
+  }
+}
+
+async function settlePayout(payout: IPayout, reference: string | undefined, updatedBy: string) {
+  const updated = await storage.transitionPayout(payout._id.toString(), ["pending", "processing"], {
+    status: "processed",
+    reference,
+    processedAt: new Date(),
+    updatedBy,
+  });
+  if (!updated) return null;
+  const paymentIds = await storage.getLedgerPaymentIds(updated._id.toString());
+  await storage.setPaymentPayoutStatus(paymentIds, "processed");
+  return updated;
+}
+
+async function failPayout(payout: IPayout, reason: string, updatedBy: string) {
+  const updated = await storage.transitionPayout(payout._id.toString(), ["pending", "processing"], {
+    status: "failed",
+    failureReason: reason,
+    updatedBy,
+  });
+  if (!updated) return null;
+  // The money is still owed: the entries go into the next batch
+  await storage.releaseLedgerEntries(updated._id.toString());
+  return updated;
+}
+
+/**
+ * Sends a batch's pending payouts through the payout provider. Payouts
+ * without a fund account are left for a manual transfer; ones the provider
+ * could not take right now stay pending and can be submitted again.
+ * @returns null if the batch does not exist
+ * @throws SettlementBatchError if the batch was exported for a bank upload
+ */
+export async function submitSettlementBatch(batchId: string, adminId: string, provider = createPayoutProvider()) {
+  const batch = await storage.getSettlementBatch(batchId);
+  if (!batch) return null;
+  if (batch.exportedAt) {
+    throw new SettlementBatchError(
+      "This batch was exported for a bank transfer; record its payouts as processed or failed instead"
+    );
+  }
+  const claimed = await storage.transitionSettlementBatch(batchId, ["open", "submitted"], {
+    status: "submitted",
+    submittedAt: new Date(),
+    provider: provider.name,
+  });
+  if (!claimed) {
+    throw new SettlementBatchError(
+      batch.status === "closed" ? "This batch is already closed" : "This batch was just exported for a bank transfer"
+    );
+  }
+
+  const counts = { sent: 0, processed: 0, failed: 0, retry: 0, noFundAccount: 0 };
+  for (const payout of await storage.getPayoutsByBatch(batchId)) {
+    if (payout.status !== "pending") continue;
+    if (!payout.fundAccountId) {
+      counts.noFundAccount++;
+      continue;
+    }
+    const payoutId = payout._id.toString();
+    try {
+      const result = await provider.pay({ payoutId, fundAccountId: payout.fundAccountId, amount: payout.amount });
+      if (result.status === "processed") {
+        await storage.transitionPayout(payoutId, ["pending"], { providerPayoutId: result.providerPayoutId });
+        await settlePayout(payout, result.reference ?? result.providerPayoutId, adminId);
+        counts.processed++;
+      } else {
+        await storage.transitionPayout(payoutId, ["pending"], {
+          status: "processing",
+          providerPayoutId: result.providerPayoutId,
+          ...(result.reference && { reference: result.reference }),
+          updatedBy: adminId,
+        });
+        counts.sent++;
+      }
+    } catch (error: any) {
+      if (error instanceof PayoutProviderError && error.permanent) {
+        await failPayout(payout, error.message, adminId);
+        counts.failed++;
+      } else {
+        await storage.transitionPayout(payoutId, ["pending"], { failureReason: error.message });
+        counts.retry++;
+      }
+      console.error(`❌ Payout ${payoutId} via ${provider.name} failed:`, error.message);
+    }
+  }
+
+  await closeBatchIfSettled(batchId);
+  console.log(`🏦 Batch ${batchId} submitted via ${provider.name}:`, counts);
+  return counts;
+}
+
+/**
+ * Records the outcome of a payout made outside the app (bank upload) or
+ * confirmed later by the provider
+ * @returns null if the payout is not pending or processing any more
+ */
+export async function markPayout(
+  payout: IPayout,
+  update: { status: "processed" | "failed"; reference?: string; reason?: string },
+  adminId: string
+) {
+  const updated =
+    update.status === "processed"
+      ? await settlePayout(payout, update.reference, adminId)
+      : await failPayout(payout, update.reason || "Marked failed by an admin", adminId);
+  if (updated) {
+    console.log(`🏦 Payout ${updated._id} marked ${update.status} by ${adminId}`);
+    await closeBatchIfSettled(updated.batchId);
+  }
+  return updated;
+}
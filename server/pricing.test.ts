@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_PRICING, priceConsultation, pricingProblem, resolveRate } from "./pricing";
+
+const rules = (overrides: Partial<typeof DEFAULT_PRICING> = {}) => ({
+  ...DEFAULT_PRICING,
+  version: 3,
+  defaultRate: 15,
+  ...overrides,
+});
+const doctor = { doctorId: "doctor-1" };
+
+describe("resolveRate", () => {
+  const pricing = rules({
+    planRates: [{ plan: "plus", rate: 10 }],
+    doctorRates: [{ doctorId: "doctor-1", rate: 5, feeMode: "deduction" }],
+  });
+
+  it("prefers the doctor's own rate, then the plan's, then the default", () => {
+    assert.deepEqual(resolveRate(pricing, "doctor-1", "plus"), { rate: 5, feeMode: "deduction", rateSource: "doctor" });
+    assert.deepEqual(resolveRate(pricing, "doctor-2", "plus"), { rate: 10, feeMode: "surcharge", rateSource: "plan" });
+    assert.deepEqual(resolveRate(pricing, "doctor-2"), { rate: 15, feeMode: "surcharge", rateSource: "default" });
+  });
+});
+
+describe("priceConsultation", () => {
+  it("adds a surcharge to what the patient pays and leaves the doctor the full fee", () => {
+    const price = priceConsultation(rules(), doctor, 500);
+    assert.equal(price.platformFee, 75);
+    assert.equal(price.total, 575);
+    assert.equal(price.totalPaise, 57500);
+    assert.equal(price.doctorShare, 500);
+  });
+
+  it("takes a deduction out of the doctor's share instead", () => {
+    const price = priceConsultation(rules({ feeMode: "deduction" }), doctor, 500);
+    assert.equal(price.total, 500);
+    assert.equal(price.doctorShare, 425);
+    assert.equal(price.platformFee, 75);
+  });
+
+  it("bills tax on the platform fee with the fee and tax on the consultation always", () => {
+    const taxLines = [
+      { label: "GST on platform fee", rate: 18, base: "platform_fee" as const },
+      { label: "Consultation tax", rate: 5, base: "consultation_fee" as const },
+    ];
+    const surcharge = priceConsultation(rules({ taxLines }), doctor, 500);
+    assert.equal(surcharge.taxAmount, 13.5 + 25);
+    assert.equal(surcharge.total, 500 + 75 + 13.5 + 25);
+    assert.equal(surcharge.doctorShare, 500);
+
+    const deduction = priceConsultation(rules({ taxLines, feeMode: "deduction" }), doctor, 500);
+    assert.equal(deduction.total, 525);
+    assert.equal(deduction.doctorShare, 500 - 75 - 13.5);
+  });
+
+  it("rounds each part to the paisa so the parts add up to the charge", () => {
+    const taxLines = [{ label: "GST", rate: 18, base: "platform_fee" as const }];
+    // 15% of 333.33 is 49.9995 and 18% of that is 8.9999...
+    const price = priceConsultation(rules({ taxLines }), doctor, 333.33);
+    assert.equal(price.platformFee, 50);
+    assert.equal(price.taxAmount, 9);
+    assert.equal(price.totalPaise, 33333 + 5000 + 900);
+    assert.equal(price.total, price.totalPaise / 100);
+
+    const deduction = priceConsultation(rules({ taxLines, feeMode: "deduction" }), doctor, 333.33);
+    assert.equal(Math.round((deduction.doctorShare + deduction.platformFee + deduction.taxAmount) * 100), 33333);
+  });
+
+  it("records the rules it used on the payment", () => {
+    const price = priceConsultation(rules({ planRates: [{ plan: "plus", rate: 10 }] }), { ...doctor, plan: "plus" }, 1000);
+    assert.deepEqual(price.pricing, {
+      version: 3,
+      rateSource: "plan",
+      rate: 10,
+      feeMode: "surcharge",
+      consultationFee: 1000,
+      taxes: [],
+      taxAmount: 0,
+    });
+  });
+});
+
+describe("pricingProblem", () => {
+  it("rejects a deduction that with its tax would exceed the whole fee", () => {
+    const taxLines = [{ label: "GST", rate: 18, base: "platform_fee" as const }];
+    assert.equal(pricingProblem(rules({ feeMode: "deduction", defaultRate: 84, taxLines })), null);
+    assert.match(pricingProblem(rules({ feeMode: "deduction", defaultRate: 85, taxLines }))!, /default rate/);
+    // A surcharge never comes out of the doctor's share
+    assert.equal(pricingProblem(rules({ defaultRate: 100, taxLines })), null);
+  });
+
+  it("rejects two rates for the same doctor or plan", () => {
+    const doctorRates = [
+      { doctorId: "doctor-1", rate: 5 },
+      { doctorId: "doctor-1", rate: 8 },
+    ];
+    assert.equal(pricingProblem(rules({ doctorRates })), "Each doctor can only have one rate");
+  });
+});
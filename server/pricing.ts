@@ -0,0 +1,147 @@
+import { storage } from "./storage";
+import { numberFromEnv } from "./env";
+import type {
+  DoctorPlan,
+  IPaymentPricing,
+  IPricingConfig,
+  InsertPricingConfig,
+  PlatformFeeMode,
+} from "@shared/mongodb-schema";
+
+/**
+ * Platform fee and tax rules. The rate for a consultation is the doctor's own
+ * override if there is one, else their plan's rate, else the default; the fee
+ * is either added to what the patient pays (surcharge) or taken out of the
+ * doctor's share (deduction). Amounts are worked out in paise so the parts
+ * always add up to what Razorpay charges.
+ */
+
+type PricingRules = Pick<
+  IPricingConfig,
+  "version" | "defaultRate" | "feeMode" | "planRates" | "doctorRates" | "taxLines"
+>;
+
+// In force until an admin saves pricing: a surcharge of PLATFORM_FEE_PERCENT
+export const DEFAULT_PRICING: PricingRules = {
+  version: 0,
+  defaultRate: numberFromEnv("PLATFORM_FEE_PERCENT", 15),
+  feeMode: "surcharge",
+  planRates: [],
+  doctorRates: [],
+  taxLines: [],
+};
+
+export async function getActivePricing(): Promise<PricingRules> {
+  return (await storage.getLatestPricingConfig()) ?? DEFAULT_PRICING;
+}
+
+/**
+ * The platform fee rate that applies to a doctor and where it came from
+ */
+export function resolveRate(pricing: PricingRules, doctorId: string, plan: DoctorPlan = "basic") {
+  const doctorRate = pricing.doctorRates.find((entry) => entry.doctorId === doctorId);
+  const planRate = pricing.planRates.find((entry) => entry.plan === plan);
+  const [rule, rateSource] = doctorRate
+    ? [doctorRate, "doctor" as const]
+    : planRate
+      ? [planRate, "plan" as const]
+      : [{ rate: pricing.defaultRate }, "default" as const];
+  return {
+    rate: rule.rate,
+    feeMode: (rule.feeMode ?? pricing.feeMode) as PlatformFeeMode,
+    rateSource,
+  };
+}
+
+/**
+ * Splits a consultation fee into what the patient pays, the doctor's share,
+ * the platform fee and taxes
+ * @param consultationFee In rupees; the sum of the visits for a plan payment
+ * @returns Rupee amounts, plus the total in paise for Razorpay
+ */
+export function priceConsultation(
+  pricing: PricingRules,
+  doctor: { doctorId: string; plan?: DoctorPlan },
+  consultationFee: number
+) {
+  const { rate, feeMode, rateSource } = resolveRate(pricing, doctor.doctorId, doctor.plan);
+  const feePaise = Math.round(consultationFee * 100);
+  const platformPaise = Math.round((feePaise * rate) / 100);
+
+  const taxes = pricing.taxLines.map((line) => ({
+    label: line.label,
+    rate: line.rate,
+    base: line.base,
+    amountPaise: Math.round(((line.base === "platform_fee" ? platformPaise : feePaise) * line.rate) / 100),
+  }));
+  const taxOn = (base: string) =>
+    taxes.filter((tax) => tax.base === base).reduce((sum, tax) => sum + tax.amountPaise, 0);
+  const platformTaxPaise = taxOn("platform_fee");
+  const consultationTaxPaise = taxOn("consultation_fee");
+
+  // The platform fee and its tax go on the patient's bill or come off the
+  // doctor's share; tax on the consultation itself is always billed
+  const totalPaise =
+    feePaise + consultationTaxPaise + (feeMode === "surcharge" ? platformPaise + platformTaxPaise : 0);
+  const doctorSharePaise = feePaise - (feeMode === "deduction" ? platformPaise + platformTaxPaise : 0);
+
+  const pricingRecord: IPaymentPricing = {
+    version: pricing.version,
+    rateSource,
+    rate,
+    feeMode,
+    consultationFee: feePaise / 100,
+    taxes: taxes.map(({ amountPaise, ...tax }) => ({ ...tax, amount: amountPaise / 100 })),
+    taxAmount: (platformTaxPaise + consultationTaxPaise) / 100,
+  };
+
+  return {
+    total: totalPaise / 100,
+    totalPaise,
+    doctorShare: doctorSharePaise / 100,
+    platformFee: platformPaise / 100,
+    taxAmount: pricingRecord.taxAmount,
+    pricing: pricingRecord,
+  };
+}
+
+/**
+ * Why a set of rules cannot be saved
+ * @returns null if every rate leaves the doctor something
+ */
+export function pricingProblem(pricing: Omit<PricingRules, "version">) {
+  const platformTaxRate = pricing.taxLines
+    .filter((line) => line.base === "platform_fee")
+    .reduce((sum, line) => sum + line.rate, 0);
+  const rules = [
+    { rate: pricing.defaultRate, feeMode: pricing.feeMode, label: "The default rate" },
+    ...pricing.planRates.map((entry) => ({ ...entry, label: `The ${entry.plan} plan rate` })),
+    ...pricing.doctorRates.map((entry) => ({ ...entry, label: "A doctor's rate" })),
+  ];
+  const tooHigh = rules.find(
+    (rule) =>
+      (rule.feeMode ?? pricing.feeMode) === "deduction" && rule.rate * (1 + platformTaxRate / 100) > 100
+  );
+  if (tooHigh) {
+    return `${tooHigh.label} plus tax on it would take more than the whole consultation fee`;
+  }
+  const doctorIds = pricing.doctorRates.map((entry) => entry.doctorId);
+  if (new Set(doctorIds).size !== doctorIds.length) return "Each doctor can only have one rate";
+  const plans = pricing.planRates.map((entry) => entry.plan);
+  if (new Set(plans).size !== plans.length) return "Each plan can only have one rate";
+  return null;
+}
+
+/**
+ * Saves rules as the next pricing version, which applies to orders created
+ * from now on
+ * @returns null if another admin saved a version at the same moment
+ */
+export async function savePricingConfig(data: Omit<InsertPricingConfig, "version">) {
+  const latest = await storage.getLatestPricingConfig();
+  const saved = await storage.createPricingConfig({ ...data, version: (latest?.version ?? 0) + 1 });
+  if (saved) {
+    console.log(`💰 Pricing version ${saved.version} saved by ${data.createdBy}`);
+  }
+  return saved;
+}
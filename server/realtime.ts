@@ -0,0 +1,126 @@
+import type { IncomingMessage, Server } from "http";
+import type { RequestHandler } from "express";
+import { WebSocket, WebSocketServer } from "ws";
+import { APP_URL } from "./env";
+import type { AppointmentStatus } from "@shared/mongodb-schema";
+
+/**
+ * Push channel to the web client. Browsers open a WebSocket on REALTIME_PATH;
+ * the upgrade request is authenticated with the same Passport session cookie
+ * as the REST API and the socket is registered under its user. Server code
+ * calls publish() and the client refreshes its React Query cache from the
+ * event instead of polling.
+ */
+
+export const REALTIME_PATH = "/ws";
+
+export type RealtimeEvent =
+  | { type: "notification.created"; notification: unknown }
+  | {
+      type: "appointment.status_changed";
+      appointmentId: string;
+      from: AppointmentStatus;
+      to: AppointmentStatus;
+    }
+  | {
+      type: "call.participant_joined";
+      appointmentId: string;
+      participant: "doctor" | "patient";
+      joinedAt: Date;
+    };
+
+// How often idle sockets are pinged; one missed pong closes the socket
+const HEARTBEAT_MS = 30 * 1000;
+
+// A user can have several tabs open, so each id maps to a set of sockets
+const socketsByUser = new Map<string, Set<WebSocket>>();
+
+// Resolves the logged-in user id from the session cookie on the upgrade request
+const sessionUserId = (req: IncomingMessage, sessionParser: RequestHandler) =>
+  new Promise<string | null>((resolve) => {
+    sessionParser(req as any, {} as any, () => {
+      const userId = (req as any).session?.passport?.user;
+      resolve(userId ? String(userId) : null);
+    });
+  });
+
+// Browsers send the session cookie with cross-site WebSocket upgrades too, so
+// only pages served by this app may open the socket. Clients that send no
+// Origin are not browsers and cannot ride on someone else's cookie.
+const trustedOrigin = (req: IncomingMessage) => {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    const { host } = new URL(origin);
+    return origin === new URL(APP_URL).origin || host === req.headers.host;
+  } catch {
+    return false;
+  }
+};
+
+const register = (userId: string, socket: WebSocket, alive: WeakSet<WebSocket>) => {
+  const sockets = socketsByUser.get(userId) ?? new Set<WebSocket>();
+  sockets.add(socket);
+  socketsByUser.set(userId, sockets);
+  alive.add(socket);
+
+  socket.on("pong", () => alive.add(socket));
+  socket.on("close", () => {
+    sockets.delete(socket);
+    if (sockets.size === 0) socketsByUser.delete(userId);
+  });
+};
+
+/**
+ * Accepts WebSocket upgrades on REALTIME_PATH for logged-in users on this
+ * app's own pages. Upgrades on other paths (e.g. Vite's HMR socket in
+ * development) are left alone.
+ */
+export function attachRealtime(server: Server, sessionParser: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakSet<WebSocket>();
+
+  server.on("upgrade", async (req, socket, head) => {
+    if (new URL(req.url || "/", "http://localhost").pathname !== REALTIME_PATH) return;
+
+    if (!trustedOrigin(req)) {
+      socket.write("HTTP/1.1 403 Forbidden\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    const userId = await sessionUserId(req, sessionParser);
+    if (!userId) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => register(userId, ws, alive));
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((socket) => {
+      if (!alive.has(socket)) return socket.terminate();
+      alive.delete(socket);
+      socket.ping();
+    });
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+  wss.on("close", () => clearInterval(heartbeat));
+
+  console.log(`📡 Realtime channel listening on ${REALTIME_PATH}`);
+  return wss;
+}
+
+/**
+ * Sends an event to every open socket of the given users
+ */
+export function publish(userIds: string[], event: RealtimeEvent) {
+  const payload = JSON.stringify(event);
+  new Set(userIds).forEach((userId) => {
+    socketsByUser.get(userId)?.forEach((socket) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(payload);
+    });
+  });
+}
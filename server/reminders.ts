@@ -0,0 +1,123 @@
+import { addMinutes, formatDistanceStrict } from "date-fns";
+import { storage } from "./storage";
+import { APP_URL } from "./env";
+import { DEFAULT_TIME_ZONE, formatInTimeZone } from "@shared/time-zone";
+import type { IAppointment } from "@shared/mongodb-schema";
+
+/**
+ * Appointment reminders. At each offset before appointmentDate (24 hours and
+ * 15 minutes by default) both the patient and the doctor get an
+ * "appointment_reminder" notification. Each sent reminder is recorded on the
+ * appointment together with the start time it was sent for, so reminders are
+ * sent once across restarts and workers, are skipped once the appointment is
+ * cancelled, and are sent again for the new time after a reschedule.
+ */
+
+const DEFAULT_OFFSETS_MINUTES = [24 * 60, 15];
+
+// Reminders this close to the start carry the join link for video appointments
+const JOIN_LINK_MAX_OFFSET_MINUTES = 60;
+
+/**
+ * Parses "1440,15" into offsets in minutes, largest first
+ * @returns null if any entry is not a positive number
+ */
+export function parseReminderOffsets(value: string): number[] | null {
+  const offsets = value.split(",").map((part) => Number(part.trim()));
+  const valid = offsets.length > 0 && offsets.every((offset) => Number.isFinite(offset) && offset > 0);
+  return valid ? Array.from(new Set(offsets)).sort((a, b) => b - a) : null;
+}
+
+export const REMINDER_OFFSETS_MINUTES = (() => {
+  const raw = process.env.REMINDER_OFFSETS_MINUTES;
+  if (!raw) return DEFAULT_OFFSETS_MINUTES;
+  const offsets = parseReminderOffsets(raw);
+  if (!offsets) {
+    console.warn("⚠️ Invalid REMINDER_OFFSETS_MINUTES, using 24 hours and 15 minutes");
+    return DEFAULT_OFFSETS_MINUTES;
+  }
+  return offsets;
+})();
+
+/**
+ * The reminder due for an appointment starting in `minutesLeft`: the
+ * tightest offset it is already inside, so a job that was down for a while
+ * sends one current reminder instead of every missed one
+ */
+export function dueReminderOffset(minutesLeft: number): number | null {
+  const inside = REMINDER_OFFSETS_MINUTES.filter((offset) => minutesLeft <= offset);
+  return inside.length ? Math.min(...inside) : null;
+}
+
+async function sendReminder(appointment: IAppointment, offsetMinutes: number, now: Date) {
+  const appointmentId = appointment._id.toString();
+  const start = new Date(appointment.appointmentDate);
+
+  const claimed = await storage.claimAppointmentReminder(appointmentId, offsetMinutes, start);
+  if (!claimed) return false;
+
+  const [doctor, patient] = await Promise.all([
+    storage.getUser(appointment.doctorId),
+    storage.getUser(appointment.patientId),
+  ]);
+  const when = formatInTimeZone(start, appointment.timeZone || DEFAULT_TIME_ZONE);
+  const startsIn = formatDistanceStrict(start, now);
+  const joinNote =
+    appointment.type === "video" && offsetMinutes <= JOIN_LINK_MAX_OFFSET_MINUTES
+      ? ` Join here: ${APP_URL}/consultation/${appointmentId}`
+      : "";
+  const kind = appointment.type === "video" ? "video consultation" : "clinic visit";
+
+  const common = {
+    type: "appointment_reminder",
+    appointmentId,
+    appointmentDate: start,
+    doctorId: appointment.doctorId,
+    notificationChannels: ["email", "inapp"],
+  };
+  await storage.createNotification({
+    ...common,
+    recipientId: appointment.patientId,
+    title: "Appointment Reminder",
+    message: `Your ${kind} with Dr. ${doctor?.firstName} ${doctor?.lastName} starts in ${startsIn} (${when}).${joinNote}`,
+  });
+  await storage.createNotification({
+    ...common,
+    recipientId: appointment.doctorId,
+    title: "Appointment Reminder",
+    message: `Your ${kind} with ${patient?.firstName} ${patient?.lastName} starts in ${startsIn} (${when}).${joinNote}`,
+  });
+  return true;
+}
+
+/**
+ * Sends the reminders that have come due. Run periodically by the scheduler.
+ * @returns Number of appointments reminded
+ */
+export async function sendDueReminders(now = new Date()) {
+  const horizon = addMinutes(now, Math.max(...REMINDER_OFFSETS_MINUTES));
+  let sent = 0;
+
+  for (const appointment of await storage.getReminderCandidates(now, horizon)) {
+    const start = new Date(appointment.appointmentDate);
+    const offset = dueReminderOffset((start.getTime() - now.getTime()) / 60000);
+    if (offset === null) continue;
+
+    // Booked after this reminder was due: the confirmation already covers it
+    if (new Date(appointment.createdAt) > addMinutes(start, -offset)) continue;
+    const alreadySent = (appointment.remindersSent || []).some(
+      (reminder) =>
+        reminder.offsetMinutes === offset && new Date(reminder.appointmentDate).getTime() === start.getTime()
+    );
+    if (alreadySent) continue;
+
+    try {
+      if (await sendReminder(appointment, offset, now)) sent++;
+    } catch (error: any) {
+      console.error(`❌ Reminder for appointment ${appointment._id} failed:`, error.message);
+    }
+  }
+
+  if (sent) console.log(`⏰ Sent reminders for ${sent} appointment(s)`);
+  return sent;
+}
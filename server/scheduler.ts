@@ -0,0 +1,75 @@
+import { subDays } from "date-fns";
+import { sweepWaitlist } from "./waitlist";
+import { expireStaleAppointments } from "./appointment-expiry";
+import { detectNoShows } from "./no-show";
+import { sendDueReminders } from "./reminders";
+import { deliverPendingEmails, sendDailyDigests } from "./notification-email";
+import { deliverPendingTextMessages } from "./notification-text";
+import { sendDueBroadcasts } from "./broadcasts";
+import { retryPendingRefunds } from "./payments";
+import { storage } from "./storage";
+import { NOTIFICATION_ARCHIVE_AFTER_DAYS } from "@shared/mongodb-schema";
+
+/**
+ * In-process background jobs. Each job runs on its own interval and never
+ * overlaps with itself; a slow run simply delays the next one.
+ */
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const MINUTE = 60 * 1000;
+
+export const SCHEDULED_JOBS: ScheduledJob[] = [
+  // Pass lapsed waitlist holds on to the next patient
+  { name: "waitlist-sweep", intervalMs: MINUTE, run: sweepWaitlist },
+  // Reject unanswered requests and cancel unpaid appointments
+  { name: "appointment-expiry", intervalMs: 5 * MINUTE, run: expireStaleAppointments },
+  // Close video appointments a party never joined and settle the payment
+  { name: "no-show-detection", intervalMs: 5 * MINUTE, run: detectNoShows },
+  // Remind patients and doctors ahead of their appointments
+  { name: "appointment-reminders", intervalMs: MINUTE, run: sendDueReminders },
+  // Send queued notification emails and retry failed ones
+  { name: "email-delivery", intervalMs: MINUTE / 2, run: deliverPendingEmails },
+  // Send daily summary emails to users who chose digest mode
+  { name: "daily-digest", intervalMs: 5 * MINUTE, run: sendDailyDigests },
+  // Send queued SMS and WhatsApp notifications and retry failed ones
+  { name: "text-message-delivery", intervalMs: MINUTE / 2, run: deliverPendingTextMessages },
+  // Fan out admin announcements whose scheduled time has come
+  { name: "broadcast-delivery", intervalMs: MINUTE, run: sendDueBroadcasts },
+  // Retry cancellation and no-show refunds Razorpay did not take
+  { name: "refund-retry", intervalMs: 15 * MINUTE, run: retryPendingRefunds },
+  // Take long-read notifications out of inboxes
+  {
+    name: "notification-archive",
+    intervalMs: 60 * MINUTE,
+    run: () => storage.archiveReadNotifications(subDays(new Date(), NOTIFICATION_ARCHIVE_AFTER_DAYS)),
+  },
+];
+
+export function startScheduler(jobs: ScheduledJob[] = SCHEDULED_JOBS) {
+  const timers = jobs.map((job) => {
+    let running = false;
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`❌ Scheduled job '${job.name}' failed:`, error);
+      } finally {
+        running = false;
+      }
+    };
+
+    const timer = setInterval(tick, job.intervalMs);
+    timer.unref();
+    return timer;
+  });
+
+  console.log(`⏰ Scheduler started: ${jobs.map((job) => job.name).join(", ")}`);
+  return () => timers.forEach((timer) => clearInterval(timer));
+}
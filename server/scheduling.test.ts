@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  generateBookableSlots,
+  overlapsAny,
+  slotCells,
+  toBusyIntervals,
+  type AvailabilityWindow,
+} from "./scheduling";
+
+const at = (iso: string) => new Date(iso);
+
+describe("overlapsAny", () => {
+  const busy = [{ start: at("2026-03-02T10:00:00Z"), end: at("2026-03-02T10:30:00Z") }];
+
+  it("treats touching intervals as free", () => {
+    assert.equal(overlapsAny(at("2026-03-02T09:30:00Z"), at("2026-03-02T10:00:00Z"), busy), false);
+    assert.equal(overlapsAny(at("2026-03-02T10:30:00Z"), at("2026-03-02T11:00:00Z"), busy), false);
+  });
+
+  it("detects partial and enclosing overlaps", () => {
+    assert.equal(overlapsAny(at("2026-03-02T09:45:00Z"), at("2026-03-02T10:15:00Z"), busy), true);
+    assert.equal(overlapsAny(at("2026-03-02T10:10:00Z"), at("2026-03-02T10:20:00Z"), busy), true);
+    assert.equal(overlapsAny(at("2026-03-02T09:00:00Z"), at("2026-03-02T11:00:00Z"), busy), true);
+  });
+});
+
+describe("toBusyIntervals", () => {
+  it("skips cancelled appointments and defaults the duration", () => {
+    const busy = toBusyIntervals([
+      { appointmentDate: at("2026-03-02T10:00:00Z"), status: "scheduled" },
+      { appointmentDate: at("2026-03-02T11:00:00Z"), duration: 60, status: "cancelled" },
+    ]);
+    assert.deepEqual(busy, [{ start: at("2026-03-02T10:00:00Z"), end: at("2026-03-02T10:30:00Z") }]);
+  });
+});
+
+describe("slotCells", () => {
+  it("covers every reservation cell the appointment touches", () => {
+    assert.deepEqual(slotCells(at("2026-03-02T10:00:00Z"), 30), [
+      at("2026-03-02T10:00:00Z"),
+      at("2026-03-02T10:15:00Z"),
+    ]);
+    // Off the grid: the cell it starts in is included
+    assert.deepEqual(slotCells(at("2026-03-02T10:10:00Z"), 20), [
+      at("2026-03-02T10:00:00Z"),
+      at("2026-03-02T10:15:00Z"),
+    ]);
+  });
+
+  it("gives overlapping appointments a shared cell and back-to-back ones none", () => {
+    const first = slotCells(at("2026-03-02T10:00:00Z"), 30).map(Number);
+    const overlapping = slotCells(at("2026-03-02T10:15:00Z"), 30).map(Number);
+    const next = slotCells(at("2026-03-02T10:30:00Z"), 30).map(Number);
+    assert.ok(overlapping.some((cell) => first.includes(cell)));
+    assert.ok(!next.some((cell) => first.includes(cell)));
+  });
+});
+
+describe("generateBookableSlots", () => {
+  // Monday 2 March 2026, 09:00-11:00 in Kolkata (03:30-05:30 UTC)
+  const windows: AvailabilityWindow[] = [{ dayOfWeek: 1, startTime: "09:00", endTime: "11:00", isAvailable: true }];
+  const options = {
+    from: at("2026-03-02T00:00:00Z"),
+    to: at("2026-03-03T00:00:00Z"),
+    timeZone: "Asia/Kolkata",
+    now: at("2026-03-01T00:00:00Z"),
+  };
+
+  it("cuts the window into slots in the doctor's zone", () => {
+    const slots = generateBookableSlots(windows, [], options);
+    assert.deepEqual(slots.map((slot) => slot.time), ["09:00", "09:30", "10:00", "10:30"]);
+    assert.equal(slots[0].start, "2026-03-02T03:30:00.000Z");
+  });
+
+  it("leaves out slots overlapping a booking but keeps adjacent ones", () => {
+    const busy = [{ start: at("2026-03-02T04:00:00Z"), end: at("2026-03-02T04:30:00Z") }];
+    const slots = generateBookableSlots(windows, busy, options);
+    assert.deepEqual(slots.map((slot) => slot.time), ["09:00", "10:00", "10:30"]);
+  });
+
+  it("only offers longer appointments where the whole duration is free", () => {
+    const busy = [{ start: at("2026-03-02T04:30:00Z"), end: at("2026-03-02T05:00:00Z") }];
+    const slots = generateBookableSlots(windows, busy, { ...options, durationMinutes: 60 });
+    assert.deepEqual(slots.map((slot) => slot.time), ["09:00"]);
+  });
+
+  it("skips slots that have already started", () => {
+    const slots = generateBookableSlots(windows, [], { ...options, now: at("2026-03-02T04:00:00Z") });
+    assert.deepEqual(slots.map((slot) => slot.time), ["10:00", "10:30"]);
+  });
+});
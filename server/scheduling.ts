@@ -0,0 +1,227 @@
+import { addMinutes } from "date-fns";
+import {
+  addDaysToDateKey,
+  dayOfWeekForDateKey,
+  zonedDateKey,
+  zonedTimeOfDay,
+  zonedTimeToUtc,
+} from "@shared/time-zone";
+
+/**
+ * Scheduling helpers: turn stored availability windows into concrete,
+ * bookable appointment slots. Windows are wall-clock times in the doctor's
+ * time zone; everything returned is a UTC instant.
+ */
+
+// Grid used to cut availability windows into slots
+export const SLOT_INTERVAL_MINUTES = 30;
+
+// Reservation cell size; every real zone offset is a multiple of 15 minutes,
+// so slots starting on the half hour in any zone never share a cell
+export const RESERVATION_CELL_MINUTES = 15;
+
+// Default appointment length when a caller does not ask for one
+export const DEFAULT_APPOINTMENT_DURATION = 30;
+
+// Widest range a single slot query may cover
+export const MAX_SLOT_RANGE_DAYS = 90;
+
+// Appointment statuses that no longer occupy the doctor's time
+export const RELEASED_APPOINTMENT_STATUSES = ["cancelled"];
+
+export interface AvailabilityWindow {
+  dayOfWeek: number; // JS format (0 = Sunday) as stored
+  startTime: string; // "HH:mm"
+  endTime: string; // "HH:mm"
+  isAvailable: boolean;
+  specificDate?: string; // "yyyy-MM-dd"
+}
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface BookableSlot {
+  start: string; // ISO instant
+  end: string; // ISO instant
+  date: string; // "yyyy-MM-dd" in the doctor's zone
+  time: string; // "HH:mm" in the doctor's zone
+}
+
+interface SlotOptions {
+  from: Date;
+  to: Date;
+  timeZone: string;
+  durationMinutes?: number;
+  now?: Date;
+}
+
+/**
+ * Parses an "HH:mm" string into minutes since midnight
+ */
+export function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  if (Number.isNaN(hours) || Number.isNaN(minutes)) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Returns the windows that apply on a given calendar day ("yyyy-MM-dd").
+ * Date-specific entries override the recurring weekly schedule for that day,
+ * so a specificDate entry with isAvailable=false blocks the whole day.
+ */
+export function windowsForDay(windows: AvailabilityWindow[], dateKey: string): AvailabilityWindow[] {
+  const dayOfWeek = dayOfWeekForDateKey(dateKey);
+  const specific = windows.filter((w) => w.specificDate === dateKey);
+
+  if (specific.length > 0) {
+    return specific.filter((w) => w.isAvailable);
+  }
+
+  return windows.filter(
+    (w) => !w.specificDate && w.isAvailable && w.dayOfWeek === dayOfWeek
+  );
+}
+
+/**
+ * Expands recurring and date-specific windows into concrete intervals for
+ * every calendar day (in `timeZone`) touched by [from, to).
+ */
+export function expandAvailability(
+  windows: AvailabilityWindow[],
+  from: Date,
+  to: Date,
+  timeZone: string
+): BusyInterval[] {
+  const intervals: BusyInterval[] = [];
+  const lastKey = zonedDateKey(to, timeZone);
+
+  for (
+    let dateKey = zonedDateKey(from, timeZone);
+    dateKey <= lastKey;
+    dateKey = addDaysToDateKey(dateKey, 1)
+  ) {
+    for (const window of windowsForDay(windows, dateKey)) {
+      const start = zonedTimeToUtc(dateKey, parseTimeOfDay(window.startTime), timeZone);
+      const end = zonedTimeToUtc(dateKey, parseTimeOfDay(window.endTime), timeZone);
+      if (end > start) {
+        intervals.push({ start, end });
+      }
+    }
+  }
+
+  return intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Returns true when [start, end) overlaps any of the busy intervals
+ */
+export function overlapsAny(start: Date, end: Date, busy: BusyInterval[]): boolean {
+  return busy.some((b) => start < b.end && end > b.start);
+}
+
+/**
+ * Returns true when [start, end) lies entirely inside one availability window
+ */
+export function fitsAvailability(
+  windows: AvailabilityWindow[],
+  start: Date,
+  end: Date,
+  timeZone: string
+): boolean {
+  return expandAvailability(windows, start, end, timeZone).some(
+    (interval) => interval.start <= start && interval.end >= end
+  );
+}
+
+/**
+ * Generates every slot a patient can actually book: slots are cut from the
+ * availability windows on the SLOT_INTERVAL_MINUTES grid, must fit the
+ * requested duration, must start after `now`, and must not overlap an
+ * existing appointment.
+ */
+export function generateBookableSlots(
+  windows: AvailabilityWindow[],
+  busy: BusyInterval[],
+  options: SlotOptions
+): BookableSlot[] {
+  const duration = options.durationMinutes ?? DEFAULT_APPOINTMENT_DURATION;
+  const now = options.now ?? new Date();
+  const slots: BookableSlot[] = [];
+  const seen = new Set<number>();
+
+  for (const interval of expandAvailability(
+    windows,
+    options.from,
+    options.to,
+    options.timeZone
+  )) {
+    for (
+      let start = interval.start;
+      addMinutes(start, duration) <= interval.end;
+      start = addMinutes(start, SLOT_INTERVAL_MINUTES)
+    ) {
+      const end = addMinutes(start, duration);
+
+      if (start < options.from || start >= options.to || start <= now) continue;
+      if (seen.has(start.getTime())) continue;
+      if (overlapsAny(start, end, busy)) continue;
+
+      seen.add(start.getTime());
+      slots.push({
+        start: start.toISOString(),
+        end: end.toISOString(),
+        date: zonedDateKey(start, options.timeZone),
+        time: zonedTimeOfDay(start, options.timeZone),
+      });
+    }
+  }
+
+  return slots.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * Grid cells covered by [start, start + duration). Each cell is reserved
+ * individually so overlapping bookings collide on at least one cell.
+ */
+export function slotCells(start: Date, durationMinutes: number): Date[] {
+  const step = RESERVATION_CELL_MINUTES * 60 * 1000;
+  const end = start.getTime() + durationMinutes * 60 * 1000;
+  const cells: Date[] = [];
+
+  for (let t = Math.floor(start.getTime() / step) * step; t < end; t += step) {
+    cells.push(new Date(t));
+  }
+
+  return cells;
+}
+
+/**
+ * Converts doctor time-off ranges into the intervals they block
+ */
+export function timeOffIntervals(ranges: { startsAt: Date; endsAt: Date }[]): BusyInterval[] {
+  return ranges.map((range) => ({
+    start: new Date(range.startsAt),
+    end: new Date(range.endsAt),
+  }));
+}
+
+/**
+ * Converts stored appointments into the intervals they occupy
+ */
+export function toBusyIntervals(
+  appointments: { appointmentDate: Date; duration?: number; status?: string }[]
+): BusyInterval[] {
+  return appointments
+    .filter((apt) => !RELEASED_APPOINTMENT_STATUSES.includes(apt.status ?? ""))
+    .map((apt) => {
+      const start = new Date(apt.appointmentDate);
+      return {
+        start,
+        end: addMinutes(start, apt.duration || DEFAULT_APPOINTMENT_DURATION),
+      };
+    });
+}
@@ -1,4 +1,5 @@
 import { Types } from 'mongoose';
+import type { PaymentStatus } from '@shared/mongodb-schema';
 
 /**
  * Security utility functions for input validation and sanitization
@@ -217,16 +218,16 @@ export function validateRecordType(type: any): 'lab_report' | 'prescription' | '
 /**
  * Validates payment status
  */
-export function validatePaymentStatus(status: any): 'pending' | 'completed' | 'failed' | 'refunded' {
+export function validatePaymentStatus(status: any): PaymentStatus {
   if (!status || typeof status !== 'string') {
     throw new Error('Invalid payment status: must be a string');
   }
   
-  if (!['pending', 'completed', 'failed', 'refunded'].includes(status)) {
-    throw new Error('Invalid payment status: must be one of "pending", "completed", "failed", "refunded"');
+  if (!['pending', 'completed', 'failed', 'refunded', 'partially_refunded'].includes(status)) {
+    throw new Error('Invalid payment status: must be one of "pending", "completed", "failed", "refunded", "partially_refunded"');
   }
   
-  return status as 'pending' | 'completed' | 'failed' | 'refunded';
+  return status as PaymentStatus;
 }
 
 /**
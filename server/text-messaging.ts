@@ -0,0 +1,142 @@
+import twilio from "twilio";
+import { formatInTimeZone } from "@shared/time-zone";
+import type { INotification } from "@shared/mongodb-schema";
+
+/**
+ * Short text notifications over SMS and WhatsApp. TEXT_MESSAGE_TRANSPORT
+ * picks the sender:
+ * - twilio: Programmable Messaging with the account already used for video
+ *   (TWILIO_ACCOUNT_SID, TWILIO_API_KEY, TWILIO_API_SECRET) from
+ *   TWILIO_SMS_FROM / TWILIO_WHATSAPP_FROM
+ * - fake: keeps messages in memory and prints them, for local runs
+ * Without TEXT_MESSAGE_TRANSPORT, twilio is used when TWILIO_SMS_FROM or
+ * TWILIO_WHATSAPP_FROM is set and fake otherwise.
+ */
+
+export type TextChannel = "sms" | "whatsapp";
+
+export interface TextMessage {
+  channel: TextChannel;
+  to: string;
+  body: string;
+}
+
+export interface TextMessageSender {
+  name: string;
+  send(message: TextMessage): Promise<void>;
+}
+
+export class TextMessageError extends Error {
+  // The provider rejected the message itself (bad number, unverified sender)
+  permanent: boolean;
+
+  constructor(message: string, permanent = false) {
+    super(message);
+    this.name = "TextMessageError";
+    this.permanent = permanent;
+  }
+}
+
+const BRAND = "Appoint'd";
+
+// Only appointment-critical notifications are worth a text
+const TEXT_MESSAGE_TEMPLATES: Partial<
+  Record<INotification["type"], (when: string, notification: INotification) => string>
+> = {
+  appointment_confirmed: (when) => `Your appointment on ${when} is confirmed.`,
+  appointment_scheduled: (when) => `An appointment on ${when} has been added to your schedule.`,
+  appointment_cancelled: (when) => `Your appointment on ${when} has been cancelled. See the app for details.`,
+  appointment_rescheduled: (when) => `Your appointment has been moved to ${when}.`,
+  // Reminder messages are already short and may carry the video join link
+  appointment_reminder: (_when, notification) => notification.message,
+};
+
+/**
+ * Whether notifications of this type are also sent by SMS/WhatsApp
+ */
+export function hasTextMessageTemplate(type: INotification["type"]) {
+  return type in TEXT_MESSAGE_TEMPLATES;
+}
+
+/**
+ * Text for a notification, with appointment times in the given zone
+ */
+export function renderTextMessage(notification: INotification, timeZone: string) {
+  const template = TEXT_MESSAGE_TEMPLATES[notification.type];
+  const body =
+    template && notification.appointmentDate
+      ? template(formatInTimeZone(notification.appointmentDate, timeZone), notification)
+      : `${notification.title}. See the app for details.`;
+  return `${BRAND}: ${body}`;
+}
+
+// Numbers must be in E.164 form, e.g. +919812345678
+const E164 = /^\+[1-9]\d{7,14}$/;
+
+export function normalizePhoneNumber(phone: string) {
+  const compact = phone.replace(/[\s()-]/g, "");
+  return E164.test(compact) ? compact : null;
+}
+
+// Every message sent by the fake sender, newest last
+export const fakeOutbox: (TextMessage & { sentAt: Date })[] = [];
+
+export function fakeTextMessageSender(): TextMessageSender {
+  return {
+    name: "fake",
+    async send(message) {
+      fakeOutbox.push({ ...message, sentAt: new Date() });
+      console.log(`📱 [fake ${message.channel}] to ${message.to}: ${message.body}`);
+    },
+  };
+}
+
+export function twilioTextMessageSender(from: Record<TextChannel, string | undefined>): TextMessageSender {
+  const client = twilio(process.env.TWILIO_API_KEY, process.env.TWILIO_API_SECRET, {
+    accountSid: process.env.TWILIO_ACCOUNT_SID,
+  });
+
+  return {
+    name: "twilio",
+    async send(message) {
+      const sender = from[message.channel];
+      if (!sender) {
+        throw new TextMessageError(`No Twilio sender configured for ${message.channel}`, true);
+      }
+
+      const address = (number: string) =>
+        message.channel === "whatsapp" ? `whatsapp:${number}` : number;
+      try {
+        await client.messages.create({ from: address(sender), to: address(message.to), body: message.body });
+      } catch (error: any) {
+        // 4xx other than rate limiting means the request itself is wrong
+        const status = Number(error?.status);
+        const permanent = status >= 400 && status < 500 && status !== 429;
+        throw new TextMessageError(`Twilio ${status || "error"}: ${error?.message ?? error}`, permanent);
+      }
+    },
+  };
+}
+
+/**
+ * Sender configured by the environment
+ */
+export function createTextMessageSender(): TextMessageSender {
+  const from = {
+    sms: process.env.TWILIO_SMS_FROM,
+    whatsapp: process.env.TWILIO_WHATSAPP_FROM,
+  };
+  const kind = process.env.TEXT_MESSAGE_TRANSPORT || (from.sms || from.whatsapp ? "twilio" : "fake");
+
+  if (kind === "twilio") {
+    if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_API_KEY || !process.env.TWILIO_API_SECRET) {
+      console.warn("⚠️ Twilio credentials missing, text messages go to the fake sender");
+      return fakeTextMessageSender();
+    }
+    return twilioTextMessageSender(from);
+  }
+  if (kind !== "fake") {
+    console.warn(`⚠️ Unknown TEXT_MESSAGE_TRANSPORT '${kind}', using the fake sender`);
+  }
+  return fakeTextMessageSender();
+}
@@ -0,0 +1,115 @@
+import { addMinutes } from "date-fns";
+import { storage } from "./storage";
+import { DEFAULT_APPOINTMENT_DURATION } from "./scheduling";
+import { formatInTimeZone } from "@shared/time-zone";
+
+/**
+ * Waitlist: freed slots are offered to waiting patients one at a time, oldest
+ * entry first. Each offer holds the slot for a limited time; if the patient
+ * passes or lets it lapse, the slot moves on to the next entry.
+ */
+
+// How long a waitlisted patient has to claim an offered slot
+export const WAITLIST_HOLD_MINUTES = 30;
+
+// Slots starting sooner than this are not worth offering
+export const WAITLIST_MIN_LEAD_MINUTES = 15;
+
+/**
+ * Offers a freed slot to the next waitlisted patient and holds it for them.
+ * @param skipEntryIds Entries that already passed on this slot
+ * @returns The entry that received the offer, or null if nobody did
+ */
+export async function offerFreedSlot(
+  doctorId: string,
+  start: Date,
+  durationMinutes = DEFAULT_APPOINTMENT_DURATION,
+  skipEntryIds: string[] = []
+) {
+  const now = new Date();
+  const slotStart = new Date(start);
+  const slotEnd = addMinutes(slotStart, durationMinutes);
+  if (slotStart <= addMinutes(now, WAITLIST_MIN_LEAD_MINUTES)) return null;
+
+  // A slot freed by the doctor's own time-off is not bookable
+  const timeOff = await storage.getDoctorTimeOffInRange(doctorId, slotStart, slotEnd);
+  if (timeOff.length > 0) return null;
+
+  const holdExpiresAt = new Date(
+    Math.min(addMinutes(now, WAITLIST_HOLD_MINUTES).getTime(), slotStart.getTime())
+  );
+  const entry = await storage.offerWaitlistSlot(
+    doctorId,
+    slotStart,
+    durationMinutes,
+    holdExpiresAt,
+    skipEntryIds
+  );
+  if (!entry) return null;
+
+  const entryId = entry._id.toString();
+  const held = await storage.reserveAppointmentSlots(doctorId, entryId, slotStart, durationMinutes);
+  if (!held) {
+    // Someone booked the slot in the meantime; the entry keeps its place in line
+    await storage.closeWaitlistOffer(entryId, "waiting");
+    return null;
+  }
+
+  const doctor = await storage.getUser(doctorId);
+  const timeZone = await storage.getDoctorTimeZone(doctorId);
+  await storage.createNotification({
+    recipientId: entry.patientId,
+    type: "waitlist_slot_offered",
+    title: "A Slot Opened Up",
+    message: `A slot with Dr. ${doctor?.firstName} ${doctor?.lastName} on ${formatInTimeZone(slotStart, timeZone)} is held for you until ${formatInTimeZone(holdExpiresAt, timeZone)}. Book it from your waitlist before the hold runs out.`,
+    appointmentDate: slotStart,
+    doctorId,
+    read: false,
+    createdAt: new Date(),
+    notificationChannels: ["inapp"],
+  });
+
+  console.log(`⏳ Offered slot ${slotStart.toISOString()} with doctor ${doctorId} to waitlist entry ${entryId}`);
+  return entry;
+}
+
+/**
+ * Ends an open offer, frees the held slot and passes it to the next patient.
+ * @param status "waiting" keeps the entry in line (the patient passed on this
+ * slot only); "expired" or "cancelled" take it off the waitlist
+ */
+export async function releaseWaitlistOffer(
+  entryId: string,
+  status: "waiting" | "expired" | "cancelled"
+) {
+  const entry = await storage.getWaitlistEntry(entryId);
+  if (!entry?.offeredStart) return null;
+  const { doctorId, offeredStart, offeredDuration } = entry;
+
+  const closed = await storage.closeWaitlistOffer(entryId, status);
+  if (!closed) return null;
+
+  await storage.releaseAppointmentSlots(entryId);
+  await offerFreedSlot(doctorId, offeredStart, offeredDuration, [entryId]);
+  return closed;
+}
+
+/**
+ * Passes on offers whose hold ran out and retires entries whose range is over.
+ * Run periodically by the scheduler.
+ */
+export async function sweepWaitlist() {
+  const lapsed = await storage.getExpiredWaitlistOffers();
+  for (const entry of lapsed) {
+    try {
+      await releaseWaitlistOffer(entry._id.toString(), "expired");
+    } catch (error: any) {
+      console.error(`❌ Could not expire waitlist offer ${entry._id}:`, error.message);
+    }
+  }
+
+  const retired = await storage.expirePastWaitlistEntries();
+  if (lapsed.length || retired) {
+    console.log(`🧹 Waitlist sweep: ${lapsed.length} lapsed offer(s), ${retired} past entr${retired === 1 ? "y" : "ies"}`);
+  }
+}
@@ -1,5 +1,6 @@
 import { Schema, model, Document } from 'mongoose';
 import { z } from 'zod';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from './time-zone';
 
 // ==========================================
 // USER SCHEMA
@@ -13,6 +14,9 @@ export interface IUser extends Document {
   firstName?: string;
   lastName?: string;
   phone?: string;
+  // Consent to notifications by text message on `phone`
+  smsOptIn: boolean;
+  whatsappOptIn: boolean;
   isVerified: boolean;
   isActive: boolean;
   createdAt: Date;
@@ -38,6 +42,8 @@ const userSchema = new Schema<IUser>({
   firstName: { type: String },
   lastName: { type: String },
   phone: { type: String },
+  smsOptIn: { type: Boolean, default: false },
+  whatsappOptIn: { type: Boolean, default: false },
   isVerified: { type: Boolean, default: false },
   isActive: { type: Boolean, default: true },
   createdAt: { type: Date, default: Date.now },
@@ -58,6 +64,9 @@ const userSchema = new Schema<IUser>({
 // ==========================================
 // DOCTOR PROFILE SCHEMA
 // ==========================================
+// Subscription plan; pricing can set a different platform fee per plan
+export type DoctorPlan = 'basic' | 'plus';
+
 export interface IDoctorProfile extends Document {
   _id: string;
   userId: string;
@@ -74,6 +83,8 @@ export interface IDoctorProfile extends Document {
   profilePicture?: string;
   fundAccountId?: string;
   gender?: 'male' | 'female' | 'other';
+  timeZone: string; // IANA zone the availability windows are written in
+  plan: DoctorPlan;
   clinicAddress?: {
     fullAddress: string;
     city?: string;
@@ -99,6 +110,12 @@ const doctorProfileSchema = new Schema<IDoctorProfile>({
   profilePicture: { type: String },
   fundAccountId: { type: String, trim: true },
   gender: { type: String, enum: ['male', 'female', 'other'] },
+  timeZone: {
+    type: String,
+    default: DEFAULT_TIME_ZONE,
+    validate: { validator: isValidTimeZone, message: 'Invalid IANA time zone' },
+  },
+  plan: { type: String, enum: ['basic', 'plus'], default: 'basic' },
   clinicAddress: {
     fullAddress: { type: String },
     city: { type: String },
@@ -112,6 +129,55 @@ const doctorProfileSchema = new Schema<IDoctorProfile>({
 // ==========================================
 // APPOINTMENT SCHEMA - UPDATED WITH VIDEO CALL FIELDS
 // ==========================================
+export type AppointmentStatus = 'pending' | 'scheduled' | 'completed' | 'cancelled' | 'no-show' | 'awaiting_payment' | 'confirmed' | 'in-progress';
+
+// One entry per status change, appended by the appointment state machine
+export interface IAppointmentStatusChange {
+  from: AppointmentStatus;
+  to: AppointmentStatus;
+  actorId: string;
+  actorRole: 'patient' | 'doctor' | 'admin' | 'system';
+  reason?: string;
+  at: Date;
+}
+
+// Set when the no-show job closes an appointment someone never joined
+export interface IAppointmentNoShow {
+  absentParty: 'patient' | 'doctor' | 'both';
+  refundAmount: number;
+  detectedAt: Date;
+}
+
+// One reminder sent by the reminder job. appointmentDate is the start it was
+// sent for, so a rescheduled appointment gets its reminders again.
+export interface IAppointmentReminder {
+  offsetMinutes: number;
+  appointmentDate: Date;
+  sentAt: Date;
+}
+
+// Refund decided by the cancellation policy when a paid appointment is cancelled
+export interface IAppointmentCancellationRefund {
+  refundPercent: number;
+  refundAmount: number;
+  rule: string;
+}
+
+// A cancellation or no-show refund Razorpay did not take. The refund-retry
+// job keeps trying while it is 'retrying'; after too many attempts it is
+// 'failed' and left to an admin.
+export interface IAppointmentPendingRefund {
+  paymentId: string;
+  amount: number;
+  reasonCode: RefundReasonCode;
+  note?: string;
+  status: 'retrying' | 'failed';
+  attempts: number;
+  lastError: string;
+  lastAttemptAt: Date;
+  createdAt: Date;
+}
+
 export interface IAppointment extends Document {
   _id: string;
   patientId: string;
@@ -119,12 +185,14 @@ export interface IAppointment extends Document {
   appointmentDate: Date;
   duration: number;
   type: 'video' | 'in-person';
-  status: 'pending' | 'scheduled' | 'completed' | 'cancelled' | 'no-show' | 'awaiting_payment' | 'confirmed' | 'in-progress';
+  status: AppointmentStatus;
+  timeZone: string; // Doctor's zone when booked, for rendering appointmentDate
   consultationFee: number;
   notes?: string;
   prescription?: string;
   prescriptionFile?: string;
   createdAt: Date;
+  statusHistory: IAppointmentStatusChange[];
   
   // === VIDEO CALL TRACKING FIELDS ===
   doctorJoinedAt?: Date;
@@ -135,6 +203,22 @@ export interface IAppointment extends Document {
   patientLeftAt?: Date;
   callDuration?: number;
   // ==================================
+
+  // === IN-PERSON VISIT FIELDS ===
+  checkedInAt?: Date;
+  checkInMethod?: 'qr' | 'staff';
+  servingStartedAt?: Date;
+  completedAt?: Date;
+  // ==============================
+
+  noShow?: IAppointmentNoShow;
+  cancellationRefund?: IAppointmentCancellationRefund;
+  pendingRefund?: IAppointmentPendingRefund;
+  remindersSent: IAppointmentReminder[];
+
+  // Follow-up plan this visit belongs to, and its 1-based position in it
+  seriesId?: string;
+  seriesIndex?: number;
 }
 
 const appointmentSchema = new Schema<IAppointment>({
@@ -148,11 +232,21 @@ const appointmentSchema = new Schema<IAppointment>({
     default: 'scheduled', 
     enum: ['pending', 'scheduled', 'completed', 'cancelled', 'no-show', 'awaiting_payment', 'confirmed', 'in-progress'] 
   },
+  timeZone: { type: String, default: DEFAULT_TIME_ZONE },
   consultationFee: { type: Number, required: true },
   notes: { type: String },
   prescription: { type: String },
   prescriptionFile: { type: String },
   createdAt: { type: Date, default: Date.now },
+  statusHistory: [{
+    _id: false,
+    from: { type: String, required: true },
+    to: { type: String, required: true },
+    actorId: { type: String, required: true },
+    actorRole: { type: String, required: true, enum: ['patient', 'doctor', 'admin', 'system'] },
+    reason: { type: String },
+    at: { type: Date, default: Date.now }
+  }],
   
   // === VIDEO CALL TRACKING FIELDS ===
   doctorJoinedAt: { type: Date, default: null },
@@ -163,6 +257,160 @@ const appointmentSchema = new Schema<IAppointment>({
   patientLeftAt: { type: Date, default: null },
   callDuration: { type: Number, default: 0 },
   // ==================================
+
+  // === IN-PERSON VISIT FIELDS ===
+  checkedInAt: { type: Date, default: null },
+  checkInMethod: { type: String, enum: ['qr', 'staff'] },
+  servingStartedAt: { type: Date },
+  completedAt: { type: Date },
+  // ==============================
+
+  noShow: {
+    absentParty: { type: String, enum: ['patient', 'doctor', 'both'] },
+    refundAmount: { type: Number },
+    detectedAt: { type: Date },
+  },
+  cancellationRefund: {
+    refundPercent: { type: Number },
+    refundAmount: { type: Number },
+    rule: { type: String },
+  },
+  pendingRefund: {
+    paymentId: { type: String, ref: 'Payment' },
+    amount: { type: Number },
+    reasonCode: { type: String, enum: ['patient_cancellation', 'doctor_cancellation', 'no_show', 'late_payment', 'service_issue', 'duplicate_payment', 'dispute', 'goodwill', 'other'] },
+    note: { type: String },
+    status: { type: String, enum: ['retrying', 'failed'] },
+    attempts: { type: Number },
+    lastError: { type: String },
+    lastAttemptAt: { type: Date },
+    createdAt: { type: Date },
+  },
+  remindersSent: [{
+    _id: false,
+    offsetMinutes: { type: Number, required: true },
+    appointmentDate: { type: Date, required: true },
+    sentAt: { type: Date, default: Date.now }
+  }],
+  seriesId: { type: String, ref: 'AppointmentSeries', index: true },
+  seriesIndex: { type: Number },
+});
+
+appointmentSchema.index({ 'pendingRefund.status': 1 }, { sparse: true });
+
+// ==========================================
+// APPOINTMENT SERIES SCHEMA
+// ==========================================
+// A follow-up plan a doctor creates for a patient: a set of linked
+// appointments sharing a seriesId. With 'upfront' payment one order covers
+// every visit; with 'per_visit' each appointment is paid on its own.
+export type SeriesPaymentMode = 'per_visit' | 'upfront';
+
+export interface IAppointmentSeries extends Document {
+  _id: string;
+  doctorId: string;
+  patientId: string;
+  sourceAppointmentId?: string;
+  paymentMode: SeriesPaymentMode;
+  visitCount: number;
+  status: 'active' | 'cancelled';
+  notes?: string;
+  createdAt: Date;
+}
+
+const appointmentSeriesSchema = new Schema<IAppointmentSeries>({
+  doctorId: { type: String, required: true, ref: 'User' },
+  patientId: { type: String, required: true, ref: 'User', index: true },
+  sourceAppointmentId: { type: String, ref: 'Appointment' },
+  paymentMode: { type: String, required: true, enum: ['per_visit', 'upfront'] },
+  visitCount: { type: Number, required: true },
+  status: { type: String, default: 'active', enum: ['active', 'cancelled'] },
+  notes: { type: String, trim: true },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// ==========================================
+// WAITLIST SCHEMA
+// ==========================================
+// A patient waiting for a slot with a doctor inside a date range. When a
+// booking in that range is cancelled, the oldest waiting entry is offered the
+// freed slot, which is held for it (via SlotReservation) until holdExpiresAt.
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled';
+
+export interface IWaitlistEntry extends Document {
+  _id: string;
+  doctorId: string;
+  patientId: string;
+  rangeStart: Date;
+  rangeEnd: Date;
+  status: WaitlistStatus;
+  notes?: string;
+  offeredStart?: Date;
+  offeredDuration?: number;
+  holdExpiresAt?: Date;
+  appointmentId?: string;
+  createdAt: Date;
+}
+
+const waitlistEntrySchema = new Schema<IWaitlistEntry>({
+  doctorId: { type: String, required: true, ref: 'User' },
+  patientId: { type: String, required: true, ref: 'User', index: true },
+  rangeStart: { type: Date, required: true },
+  rangeEnd: { type: Date, required: true },
+  status: {
+    type: String,
+    default: 'waiting',
+    enum: ['waiting', 'offered', 'booked', 'expired', 'cancelled']
+  },
+  notes: { type: String, trim: true },
+  offeredStart: { type: Date },
+  offeredDuration: { type: Number },
+  holdExpiresAt: { type: Date },
+  appointmentId: { type: String, ref: 'Appointment' },
+  createdAt: { type: Date, default: Date.now }
+});
+
+waitlistEntrySchema.index({ doctorId: 1, status: 1, createdAt: 1 });
+
+// ==========================================
+// RESCHEDULE REQUEST SCHEMA
+// ==========================================
+// A proposal by the patient or doctor to move an appointment. The other side
+// accepts, declines or counters it; a counter-proposal is a new request that
+// points back at the one it answers.
+export type RescheduleRequestStatus = 'pending' | 'accepted' | 'declined' | 'countered' | 'withdrawn' | 'superseded';
+
+export interface IRescheduleRequest extends Document {
+  _id: string;
+  appointmentId: string;
+  requestedBy: string;
+  requestedByRole: 'patient' | 'doctor';
+  proposedStart: Date;
+  previousStart: Date;
+  message?: string;
+  status: RescheduleRequestStatus;
+  counterOf?: string;
+  respondedBy?: string;
+  respondedAt?: Date;
+  createdAt: Date;
+}
+
+const rescheduleRequestSchema = new Schema<IRescheduleRequest>({
+  appointmentId: { type: String, required: true, ref: 'Appointment', index: true },
+  requestedBy: { type: String, required: true, ref: 'User' },
+  requestedByRole: { type: String, required: true, enum: ['patient', 'doctor'] },
+  proposedStart: { type: Date, required: true },
+  previousStart: { type: Date, required: true },
+  message: { type: String, trim: true },
+  status: {
+    type: String,
+    default: 'pending',
+    enum: ['pending', 'accepted', 'declined', 'countered', 'withdrawn', 'superseded']
+  },
+  counterOf: { type: String, ref: 'RescheduleRequest' },
+  respondedBy: { type: String, ref: 'User' },
+  respondedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now }
 });
 
 // ==========================================
@@ -233,16 +481,105 @@ const doctorAvailabilitySchema = new Schema<IDoctorAvailability>({
   specificDate: { type: String }
 });
 
+// ==========================================
+// DOCTOR TIME-OFF SCHEMA
+// ==========================================
+// Blocked ranges (vacations, holidays, a single blocked hour) that are
+// subtracted from the availability windows when slots are generated.
+export interface IDoctorTimeOff extends Document {
+  _id: string;
+  doctorId: string;
+  startsAt: Date;
+  endsAt: Date;
+  allDay: boolean;
+  reason?: string;
+  createdAt: Date;
+}
+
+const doctorTimeOffSchema = new Schema<IDoctorTimeOff>({
+  doctorId: { type: String, required: true, ref: 'User' },
+  startsAt: { type: Date, required: true },
+  endsAt: { type: Date, required: true },
+  allDay: { type: Boolean, default: false },
+  reason: { type: String, trim: true },
+  createdAt: { type: Date, default: Date.now }
+});
+
+doctorTimeOffSchema.index({ doctorId: 1, startsAt: 1, endsAt: 1 });
+
+// ==========================================
+// SLOT RESERVATION SCHEMA
+// ==========================================
+// One document per grid cell an appointment occupies. The unique index on
+// (doctorId, slotStart) makes reserving a slot atomic across requests.
+export interface ISlotReservation extends Document {
+  _id: string;
+  doctorId: string;
+  slotStart: Date;
+  appointmentId: string;
+  createdAt: Date;
+}
+
+const slotReservationSchema = new Schema<ISlotReservation>({
+  doctorId: { type: String, required: true, ref: 'User' },
+  slotStart: { type: Date, required: true },
+  appointmentId: { type: String, required: true, ref: 'Appointment', index: true },
+  createdAt: { type: Date, default: Date.now }
+});
+
+slotReservationSchema.index({ doctorId: 1, slotStart: 1 }, { unique: true });
+
 // ==========================================
 // PAYMENT SCHEMA
 // ==========================================
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded' | 'partially_refunded';
+
+// How a payment was priced, kept so old payments stay explainable after the
+// pricing changes
+export interface IPaymentPricing {
+  version: number;
+  // Which rule set the rate: the default, the doctor's plan or the doctor
+  rateSource: 'default' | 'plan' | 'doctor';
+  rate: number;
+  feeMode: PlatformFeeMode;
+  // The doctor's fee(s) the split was worked out from
+  consultationFee: number;
+  taxes: (IPricingTaxLine & { amount: number })[];
+  taxAmount: number;
+}
+
+export type RefundReasonCode =
+  | 'patient_cancellation'
+  | 'doctor_cancellation'
+  | 'no_show'
+  | 'late_payment'
+  | 'service_issue'
+  | 'duplicate_payment'
+  | 'dispute'
+  | 'goodwill'
+  | 'other';
+
+// One refund against a payment; a payment can be refunded in several parts
+export interface IPaymentRefund {
+  razorpayRefundId: string;
+  amount: number;
+  reasonCode: RefundReasonCode;
+  note?: string;
+  disputeId?: string;
+  // admin: issued from the dashboard; system: cancellation or no-show rules;
+  // razorpay: made in the Razorpay dashboard and picked up from the webhook
+  source: 'admin' | 'system' | 'razorpay';
+  initiatedBy?: string;
+  createdAt: Date;
+}
+
 export interface IPayment extends Document {
   _id: string;
   appointmentId: string;
   patientId: string;
   doctorId: string;
   amount: number;
-  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  status: PaymentStatus;
   paymentMethod?: string;
   razorpayOrderId?: string;
   razorpayPaymentId?: string;
@@ -250,6 +587,14 @@ export interface IPayment extends Document {
   platformFee: number;
   doctorPayoutAmount: number;
   payoutStatus: 'processed' | 'pending' | 'failed';
+  refundedAmount?: number;
+  razorpayRefundId?: string;
+  refundedAt?: Date;
+  refunds: IPaymentRefund[];
+  // Set when one payment covers every visit of an upfront follow-up plan
+  seriesId?: string;
+  // Missing on payments made before pricing was configurable
+  pricing?: IPaymentPricing;
 }
 
 const paymentSchema = new Schema<IPayment>({
@@ -257,7 +602,7 @@ const paymentSchema = new Schema<IPayment>({
   patientId: { type: String, required: true, ref: 'User' },
   doctorId: { type: String, required: true, ref: 'User' },
   amount: { type: Number, required: true },
-  status: { type: String, default: 'pending', enum: ['pending', 'completed', 'failed', 'refunded'] },
+  status: { type: String, default: 'pending', enum: ['pending', 'completed', 'failed', 'refunded', 'partially_refunded'] },
   paymentMethod: { type: String },
   razorpayOrderId: { type: String },
   razorpayPaymentId: { type: String },
@@ -265,31 +610,133 @@ const paymentSchema = new Schema<IPayment>({
   platformFee: { type: Number, default: 0 },
   doctorPayoutAmount: { type: Number, default: 0 },
   payoutStatus: { type: String, default: 'pending', enum: ['processed', 'pending', 'failed'] },
+  refundedAmount: { type: Number, default: 0 },
+  razorpayRefundId: { type: String },
+  refundedAt: { type: Date },
+  refunds: [{
+    _id: false,
+    razorpayRefundId: { type: String, required: true },
+    amount: { type: Number, required: true, min: 0 },
+    reasonCode: { type: String, required: true, enum: ['patient_cancellation', 'doctor_cancellation', 'no_show', 'late_payment', 'service_issue', 'duplicate_payment', 'dispute', 'goodwill', 'other'] },
+    note: { type: String, trim: true },
+    disputeId: { type: String, ref: 'Dispute' },
+    source: { type: String, required: true, enum: ['admin', 'system', 'razorpay'] },
+    initiatedBy: { type: String, ref: 'User' },
+    createdAt: { type: Date, default: Date.now }
+  }],
+  seriesId: { type: String, ref: 'AppointmentSeries', index: true },
+  pricing: {
+    version: { type: Number },
+    rateSource: { type: String, enum: ['default', 'plan', 'doctor'] },
+    rate: { type: Number },
+    feeMode: { type: String, enum: ['surcharge', 'deduction'] },
+    consultationFee: { type: Number },
+    taxes: [{
+      _id: false,
+      label: { type: String, required: true },
+      rate: { type: Number, required: true },
+      base: { type: String, enum: ['platform_fee', 'consultation_fee'], required: true },
+      amount: { type: Number, required: true }
+    }],
+    taxAmount: { type: Number },
+  },
+});
+
+paymentSchema.index({ razorpayOrderId: 1 });
+paymentSchema.index({ razorpayPaymentId: 1 }, { sparse: true });
+
+// ==========================================
+// PAYMENT WEBHOOK EVENT SCHEMA
+// ==========================================
+// Razorpay webhook events already handled, by event id. Razorpay retries a
+// delivery until it gets a 2xx, so the same event can arrive several times.
+export const PAYMENT_WEBHOOK_EVENT_TTL_DAYS = 30;
+
+export interface IPaymentWebhookEvent extends Document {
+  _id: string;
+  eventId: string;
+  event: string;
+  status: 'processing' | 'processed';
+  // What the event changed, for support
+  outcome?: string;
+  receivedAt: Date;
+  processedAt?: Date;
+}
+
+const paymentWebhookEventSchema = new Schema<IPaymentWebhookEvent>({
+  eventId: { type: String, required: true, unique: true },
+  event: { type: String, required: true },
+  status: { type: String, enum: ['processing', 'processed'], default: 'processing' },
+  outcome: { type: String },
+  receivedAt: { type: Date, default: Date.now },
+  processedAt: { type: Date }
 });
 
+paymentWebhookEventSchema.index(
+  { receivedAt: 1 },
+  { expireAfterSeconds: PAYMENT_WEBHOOK_EVENT_TTL_DAYS * 24 * 60 * 60 }
+);
+
 // ==========================================
 // NOTIFICATION SCHEMA
 // ==========================================
+export type NotificationChannel = 'email' | 'inapp' | 'sms' | 'whatsapp';
+
+// Channels sent by a background job rather than shown in the app
+export type NotificationDeliveryChannel = Exclude<NotificationChannel, 'inapp'>;
+
+// 'digest' = held for the recipient's daily summary email
+export type DeliveryStatus = 'pending' | 'digest' | 'delivered' | 'failed';
+
+// Progress of a notification on one outbound channel (absent when the channel is not used)
+export interface INotificationDelivery {
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
+  deliveredAt?: Date;
+  transport?: string;
+}
+
 export interface INotification extends Document {
   _id: string;
   recipientId: string;
-  type: 'payment_pending' | 'appointment_confirmed' | 'appointment_scheduled' | 'appointment_cancelled' | 'appointment_rejected' | 'consultation_completed';
+  type: 'payment_pending' | 'appointment_confirmed' | 'appointment_scheduled' | 'appointment_cancelled' | 'appointment_rejected' | 'appointment_rescheduled' | 'reschedule_requested' | 'reschedule_declined' | 'waitlist_slot_offered' | 'appointment_no_show' | 'consultation_completed' | 'appointment_reminder' | 'announcement' | 'payment_refunded';
   title: string;
   message: string;
   appointmentId?: string;
   appointmentDate?: Date;
   consultationFee?: number;
   doctorId?: string;
-  notificationChannels: ('email' | 'inapp')[];
+  notificationChannels: NotificationChannel[];
+  emailDelivery?: INotificationDelivery;
+  smsDelivery?: INotificationDelivery;
+  whatsappDelivery?: INotificationDelivery;
   read: boolean;
+  readAt?: Date;
+  // Hidden from the recipient's inbox but kept for the broadcast report
+  archivedAt?: Date;
+  // Admin who sent it by hand; unset for notifications raised by the app itself
+  sentBy?: string;
+  // Set on the copies fanned out by an admin broadcast
+  broadcastId?: string;
   createdAt: Date;
 }
 
+const notificationDeliveryFields = () => ({
+  status: { type: String, enum: ['pending', 'digest', 'delivered', 'failed'] },
+  attempts: { type: Number },
+  nextAttemptAt: { type: Date },
+  lastError: { type: String },
+  deliveredAt: { type: Date },
+  transport: { type: String }
+});
+
 const notificationSchema = new Schema<INotification>({
   recipientId: { type: String, required: true, index: true },
   type: {
     type: String,
-    enum: ['payment_pending', 'appointment_confirmed', 'appointment_scheduled', 'appointment_cancelled', 'appointment_rejected', 'consultation_completed'],
+    enum: ['payment_pending', 'appointment_confirmed', 'appointment_scheduled', 'appointment_cancelled', 'appointment_rejected', 'appointment_rescheduled', 'reschedule_requested', 'reschedule_declined', 'waitlist_slot_offered', 'appointment_no_show', 'consultation_completed', 'appointment_reminder', 'announcement', 'payment_refunded'],
     required: true
   },
   title: { type: String, required: true },
@@ -300,14 +747,297 @@ const notificationSchema = new Schema<INotification>({
   doctorId: { type: String },
   notificationChannels: {
     type: [String],
-    enum: ['email', 'inapp'],
+    enum: ['email', 'inapp', 'sms', 'whatsapp'],
     default: ['email', 'inapp']
   },
+  emailDelivery: notificationDeliveryFields(),
+  smsDelivery: notificationDeliveryFields(),
+  whatsappDelivery: notificationDeliveryFields(),
   read: { type: Boolean, default: false },
+  readAt: { type: Date },
+  archivedAt: { type: Date },
+  sentBy: { type: String, index: { sparse: true } },
+  broadcastId: { type: String, index: { sparse: true } },
   createdAt: { type: Date, default: Date.now, index: true }
 });
 
+// Read notifications leave the inbox this long after being read. They are
+// archived rather than deleted so broadcast read rates do not drift.
+export const NOTIFICATION_ARCHIVE_AFTER_DAYS = 90;
+
 notificationSchema.index({ recipientId: 1, createdAt: -1 });
+notificationSchema.index({ recipientId: 1, read: 1, createdAt: -1 });
+notificationSchema.index({ read: 1, readAt: 1 });
+notificationSchema.index({ 'emailDelivery.status': 1, 'emailDelivery.nextAttemptAt': 1 });
+notificationSchema.index({ 'smsDelivery.status': 1, 'smsDelivery.nextAttemptAt': 1 });
+notificationSchema.index({ 'whatsappDelivery.status': 1, 'whatsappDelivery.nextAttemptAt': 1 });
+
+// ==========================================
+// NOTIFICATION PREFERENCE SCHEMA
+// ==========================================
+// How a user wants to be notified. Types without an entry in `channels` use
+// the channels chosen where the notification is created. In-app delivery is
+// always on, since the inbox is the record of every notification.
+export type DigestMode = 'immediate' | 'daily';
+
+export interface INotificationTypeChannels {
+  type: INotification['type'];
+  channels: NotificationDeliveryChannel[];
+}
+
+export interface INotificationPreference extends Document {
+  _id: string;
+  userId: string;
+  channels: INotificationTypeChannels[];
+  // "HH:mm" in timeZone; outbound messages wait until quiet hours end
+  quietHours: { enabled: boolean; start: string; end: string };
+  timeZone: string;
+  // 'daily' collects emails into one summary sent at digestTime
+  digestMode: DigestMode;
+  digestTime: string;
+  lastDigestAt?: Date;
+  updatedAt: Date;
+}
+
+const notificationPreferenceSchema = new Schema<INotificationPreference>({
+  userId: { type: String, required: true, unique: true, ref: 'User' },
+  channels: [{
+    _id: false,
+    type: { type: String, required: true },
+    channels: { type: [String], enum: ['email', 'sms', 'whatsapp'], default: [] }
+  }],
+  quietHours: {
+    enabled: { type: Boolean, default: false },
+    start: { type: String, default: '22:00' },
+    end: { type: String, default: '07:00' }
+  },
+  timeZone: { type: String, default: DEFAULT_TIME_ZONE },
+  digestMode: { type: String, enum: ['immediate', 'daily'], default: 'immediate' },
+  digestTime: { type: String, default: '08:00' },
+  lastDigestAt: { type: Date },
+  updatedAt: { type: Date, default: Date.now }
+});
+
+// ==========================================
+// BROADCAST SCHEMA
+// ==========================================
+// An announcement from an admin to a group of users, sent as one
+// 'announcement' notification per recipient when scheduledFor arrives
+export type BroadcastStatus = 'scheduled' | 'sending' | 'sent' | 'cancelled';
+
+export interface IBroadcastAudience {
+  kind: 'all' | 'role' | 'specialization' | 'upcoming_patients';
+  role?: 'patient' | 'doctor';
+  specialization?: string;
+  // upcoming_patients: only appointments starting within this many days
+  withinDays?: number;
+}
+
+export interface IBroadcast extends Document {
+  _id: string;
+  title: string;
+  message: string;
+  audience: IBroadcastAudience;
+  channels: ('email' | 'inapp')[];
+  status: BroadcastStatus;
+  scheduledFor: Date;
+  createdBy: string;
+  recipientCount: number;
+  // While sending: when another worker may take over a send that stopped halfway
+  leaseUntil?: Date;
+  sentAt?: Date;
+  cancelledBy?: string;
+  lastError?: string;
+  createdAt: Date;
+}
+
+const broadcastSchema = new Schema<IBroadcast>({
+  title: { type: String, required: true },
+  message: { type: String, required: true },
+  audience: {
+    kind: { type: String, enum: ['all', 'role', 'specialization', 'upcoming_patients'], required: true },
+    role: { type: String, enum: ['patient', 'doctor'] },
+    specialization: { type: String },
+    withinDays: { type: Number }
+  },
+  channels: { type: [String], enum: ['email', 'inapp'], default: ['email', 'inapp'] },
+  status: {
+    type: String,
+    enum: ['scheduled', 'sending', 'sent', 'cancelled'],
+    default: 'scheduled'
+  },
+  scheduledFor: { type: Date, required: true },
+  createdBy: { type: String, required: true, ref: 'User' },
+  recipientCount: { type: Number, default: 0 },
+  leaseUntil: { type: Date },
+  sentAt: { type: Date },
+  cancelledBy: { type: String, ref: 'User' },
+  lastError: { type: String },
+  createdAt: { type: Date, default: Date.now, index: true }
+});
+
+broadcastSchema.index({ status: 1, scheduledFor: 1 });
+
+// ==========================================
+// PRICING CONFIG SCHEMA
+// ==========================================
+// How the platform fee and taxes are worked out. Admins never edit a config
+// in place: every change saves the next version, the latest one is in force
+// and each payment records the version it was priced with.
+export type PlatformFeeMode = 'surcharge' | 'deduction'; // added for the patient, or taken from the doctor's share
+
+export interface IPricingRate {
+  rate: number; // percent of the consultation fee
+  feeMode?: PlatformFeeMode; // falls back to the config's feeMode
+}
+
+export interface IPricingTaxLine {
+  label: string; // e.g. 'GST'
+  rate: number; // percent
+  // A tax on the platform fee is paid by whoever pays the fee; a tax on the
+  // consultation fee is added to the patient's charge
+  base: 'platform_fee' | 'consultation_fee';
+}
+
+export interface IPricingConfig extends Document {
+  _id: string;
+  version: number;
+  defaultRate: number;
+  feeMode: PlatformFeeMode;
+  planRates: (IPricingRate & { plan: DoctorPlan })[];
+  doctorRates: (IPricingRate & { doctorId: string })[];
+  taxLines: IPricingTaxLine[];
+  note?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+const pricingRateFields = {
+  rate: { type: Number, required: true, min: 0, max: 100 },
+  feeMode: { type: String, enum: ['surcharge', 'deduction'] },
+};
+
+const pricingConfigSchema = new Schema<IPricingConfig>({
+  version: { type: Number, required: true, unique: true },
+  defaultRate: { type: Number, required: true, min: 0, max: 100 },
+  feeMode: { type: String, enum: ['surcharge', 'deduction'], default: 'surcharge' },
+  planRates: [{ _id: false, plan: { type: String, enum: ['basic', 'plus'], required: true }, ...pricingRateFields }],
+  doctorRates: [{ _id: false, doctorId: { type: String, required: true, ref: 'User' }, ...pricingRateFields }],
+  taxLines: [{
+    _id: false,
+    label: { type: String, required: true },
+    rate: { type: Number, required: true, min: 0, max: 100 },
+    base: { type: String, enum: ['platform_fee', 'consultation_fee'], required: true }
+  }],
+  note: { type: String },
+  createdBy: { type: String, required: true, ref: 'User' },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// ==========================================
+// PAYOUT LEDGER SCHEMA
+// ==========================================
+// What the platform owes each doctor. A captured payment adds an 'earning'
+// of the doctor's share and a refund takes back the doctor's part of it as a
+// 'clawback'. Entries are paid out by settlement batches: a batch has one
+// Payout per doctor covering their unsettled entries from the period.
+export type PayoutLedgerEntryType = 'earning' | 'clawback';
+
+export interface IPayoutLedgerEntry extends Document {
+  _id: string;
+  doctorId: string;
+  type: PayoutLedgerEntryType;
+  amount: number; // rupees, never negative; clawbacks are subtracted
+  paymentId: string;
+  appointmentId?: string;
+  // The event the entry records, e.g. 'earning:<paymentId>', so it is recorded once
+  sourceKey: string;
+  description: string;
+  // Set while the entry is part of a payout
+  payoutId?: string;
+  createdAt: Date;
+}
+
+const payoutLedgerEntrySchema = new Schema<IPayoutLedgerEntry>({
+  doctorId: { type: String, required: true, ref: 'User' },
+  type: { type: String, enum: ['earning', 'clawback'], required: true },
+  amount: { type: Number, required: true, min: 0 },
+  paymentId: { type: String, required: true, ref: 'Payment' },
+  appointmentId: { type: String, ref: 'Appointment' },
+  sourceKey: { type: String, required: true, unique: true },
+  description: { type: String, required: true },
+  payoutId: { type: String, ref: 'Payout', index: true },
+  createdAt: { type: Date, default: Date.now }
+});
+
+payoutLedgerEntrySchema.index({ doctorId: 1, createdAt: -1 });
+
+export type SettlementBatchStatus = 'open' | 'exported' | 'submitted' | 'closed';
+
+export interface ISettlementBatch extends Document {
+  _id: string;
+  periodStart: Date;
+  periodEnd: Date;
+  // open: created; exported: CSV downloaded for the bank; submitted: sent
+  // through the payout provider; closed: every payout processed or failed
+  status: SettlementBatchStatus;
+  payoutCount: number;
+  totalAmount: number;
+  createdBy: string;
+  exportedAt?: Date;
+  submittedAt?: Date;
+  provider?: string;
+  createdAt: Date;
+}
+
+const settlementBatchSchema = new Schema<ISettlementBatch>({
+  periodStart: { type: Date, required: true },
+  periodEnd: { type: Date, required: true },
+  status: { type: String, enum: ['open', 'exported', 'submitted', 'closed'], default: 'open' },
+  payoutCount: { type: Number, default: 0 },
+  totalAmount: { type: Number, default: 0 },
+  createdBy: { type: String, required: true, ref: 'User' },
+  exportedAt: { type: Date },
+  submittedAt: { type: Date },
+  provider: { type: String },
+  createdAt: { type: Date, default: Date.now, index: true }
+});
+
+export type PayoutStatus = 'pending' | 'processing' | 'processed' | 'failed';
+
+export interface IPayout extends Document {
+  _id: string;
+  batchId: string;
+  doctorId: string;
+  amount: number;
+  entryCount: number;
+  // The doctor's RazorpayX fund account when the batch was created
+  fundAccountId?: string;
+  // pending: not sent yet; processing: accepted by the provider
+  status: PayoutStatus;
+  // Bank UTR or other proof of transfer
+  reference?: string;
+  providerPayoutId?: string;
+  failureReason?: string;
+  processedAt?: Date;
+  updatedBy?: string;
+  createdAt: Date;
+}
+
+const payoutSchema = new Schema<IPayout>({
+  batchId: { type: String, required: true, ref: 'SettlementBatch', index: true },
+  doctorId: { type: String, required: true, ref: 'User', index: true },
+  amount: { type: Number, required: true },
+  entryCount: { type: Number, default: 0 },
+  fundAccountId: { type: String },
+  status: { type: String, enum: ['pending', 'processing', 'processed', 'failed'], default: 'pending' },
+  reference: { type: String },
+  providerPayoutId: { type: String },
+  failureReason: { type: String },
+  processedAt: { type: Date },
+  updatedBy: { type: String, ref: 'User' },
+  createdAt: { type: Date, default: Date.now }
+});
 
 // ==========================================
 // DISPUTE SCHEMA
@@ -322,6 +1052,8 @@ export interface IDispute extends Document {
   status: 'open' | 'in_progress' | 'resolved' | 'closed';
   resolution?: string;
   resolvedBy?: string;
+  // Refunds issued to settle the dispute
+  refundIds: string[];
   createdAt: Date;
   resolvedAt?: Date;
 }
@@ -335,6 +1067,7 @@ const disputeSchema = new Schema<IDispute>({
   status: { type: String, default: 'open', enum: ['open', 'in_progress', 'resolved', 'closed'] },
   resolution: { type: String },
   resolvedBy: { type: String, ref: 'User' },
+  refundIds: [{ type: String }],
   createdAt: { type: Date, default: Date.now },
   resolvedAt: { type: Date }
 });
@@ -345,11 +1078,23 @@ const disputeSchema = new Schema<IDispute>({
 export const User = model<IUser>('User', userSchema);
 export const DoctorProfile = model<IDoctorProfile>('DoctorProfile', doctorProfileSchema);
 export const Appointment = model<IAppointment>('Appointment', appointmentSchema);
+export const AppointmentSeries = model<IAppointmentSeries>('AppointmentSeries', appointmentSeriesSchema);
+export const WaitlistEntry = model<IWaitlistEntry>('WaitlistEntry', waitlistEntrySchema);
+export const RescheduleRequest = model<IRescheduleRequest>('RescheduleRequest', rescheduleRequestSchema);
 export const DoctorDocument = model<IDoctorDocument>('DoctorDocument', doctorDocumentSchema);
 export const PatientRecord = model<IPatientRecord>('PatientRecord', patientRecordSchema);
 export const DoctorAvailability = model<IDoctorAvailability>('DoctorAvailability', doctorAvailabilitySchema);
+export const DoctorTimeOff = model<IDoctorTimeOff>('DoctorTimeOff', doctorTimeOffSchema);
+export const SlotReservation = model<ISlotReservation>('SlotReservation', slotReservationSchema);
 export const Payment = model<IPayment>('Payment', paymentSchema);
+export const PaymentWebhookEvent = model<IPaymentWebhookEvent>('PaymentWebhookEvent', paymentWebhookEventSchema);
 export const Notification = model<INotification>('Notification', notificationSchema);
+export const NotificationPreference = model<INotificationPreference>('NotificationPreference', notificationPreferenceSchema);
+export const Broadcast = model<IBroadcast>('Broadcast', broadcastSchema);
+export const PricingConfig = model<IPricingConfig>('PricingConfig', pricingConfigSchema);
+export const PayoutLedgerEntry = model<IPayoutLedgerEntry>('PayoutLedgerEntry', payoutLedgerEntrySchema);
+export const SettlementBatch = model<ISettlementBatch>('SettlementBatch', settlementBatchSchema);
+export const Payout = model<IPayout>('Payout', payoutSchema);
 export const Dispute = model<IDispute>('Dispute', disputeSchema);
 
 // ==========================================
@@ -364,6 +1109,8 @@ export type InsertUser = {
   firstName?: string;
   lastName?: string;
   phone?: string;
+  smsOptIn?: boolean;
+  whatsappOptIn?: boolean;
   isVerified: boolean;
   isActive: boolean;
 };
@@ -382,6 +1129,7 @@ export type InsertDoctorProfile = {
   totalReviews: number;
   fundAccountId?: string;
   gender?: 'male' | 'female' | 'other';
+  timeZone?: string;
   clinicAddress?: {
     fullAddress: string;
     city?: string;
@@ -399,6 +1147,7 @@ export type InsertAppointment = {
   duration: number;
   type: 'video' | 'in-person';
   status: 'pending' | 'scheduled' | 'completed' | 'cancelled' | 'no-show' | 'awaiting_payment' | 'confirmed' | 'in-progress';
+  timeZone?: string;
   consultationFee: number;
   notes?: string;
   prescription?: string;
@@ -413,6 +1162,36 @@ export type InsertAppointment = {
   patientLeftAt?: Date;
   callDuration?: number;
   // ==========================
+
+  seriesId?: string;
+  seriesIndex?: number;
+};
+
+export type InsertAppointmentSeries = {
+  doctorId: string;
+  patientId: string;
+  sourceAppointmentId?: string;
+  paymentMode: SeriesPaymentMode;
+  visitCount: number;
+  notes?: string;
+};
+
+export type InsertWaitlistEntry = {
+  doctorId: string;
+  patientId: string;
+  rangeStart: Date;
+  rangeEnd: Date;
+  notes?: string;
+};
+
+export type InsertRescheduleRequest = {
+  appointmentId: string;
+  requestedBy: string;
+  requestedByRole: 'patient' | 'doctor';
+  proposedStart: Date;
+  previousStart: Date;
+  message?: string;
+  counterOf?: string;
 };
 
 export type InsertDoctorDocument = {
@@ -441,33 +1220,86 @@ export type InsertDoctorAvailability = {
   specificDate?: string;
 };
 
+export type InsertDoctorTimeOff = {
+  doctorId: string;
+  startsAt: Date;
+  endsAt: Date;
+  allDay: boolean;
+  reason?: string;
+};
+
 export type InsertPayment = {
   appointmentId: string;
   patientId: string;
   doctorId: string;
   amount: number;
-  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  status: PaymentStatus;
   paymentMethod?: string;
   razorpayOrderId?: string;
   razorpayPaymentId?: string;
   platformFee: number;
   doctorPayoutAmount: number;
   payoutStatus: 'processed' | 'pending' | 'failed';
+  seriesId?: string;
+  pricing?: IPaymentPricing;
 };
 
 export type InsertNotification = {
   recipientId: string;
-  type: 'payment_pending' | 'appointment_confirmed' | 'appointment_scheduled' | 'appointment_cancelled' | 'appointment_rejected' | 'consultation_completed';
+  type: 'payment_pending' | 'appointment_confirmed' | 'appointment_scheduled' | 'appointment_cancelled' | 'appointment_rejected' | 'appointment_rescheduled' | 'reschedule_requested' | 'reschedule_declined' | 'waitlist_slot_offered' | 'appointment_no_show' | 'consultation_completed' | 'appointment_reminder' | 'announcement' | 'payment_refunded';
   title: string;
   message: string;
   appointmentId?: string;
   appointmentDate?: Date;
   consultationFee?: number;
   doctorId?: string;
-  notificationChannels?: ('email' | 'inapp')[];
+  notificationChannels?: NotificationChannel[];
   read?: boolean;
 };
 
+export type InsertBroadcast = {
+  title: string;
+  message: string;
+  audience: IBroadcastAudience;
+  channels: ('email' | 'inapp')[];
+  scheduledFor: Date;
+  createdBy: string;
+};
+
+export type InsertPricingConfig = {
+  version: number;
+  defaultRate: number;
+  feeMode: PlatformFeeMode;
+  planRates: (IPricingRate & { plan: DoctorPlan })[];
+  doctorRates: (IPricingRate & { doctorId: string })[];
+  taxLines: IPricingTaxLine[];
+  note?: string;
+  createdBy: string;
+};
+
+export type InsertPayoutLedgerEntry = {
+  doctorId: string;
+  type: PayoutLedgerEntryType;
+  amount: number;
+  paymentId: string;
+  appointmentId?: string;
+  sourceKey: string;
+  description: string;
+};
+
+export type InsertSettlementBatch = {
+  periodStart: Date;
+  periodEnd: Date;
+  createdBy: string;
+};
+
+export type InsertPayout = {
+  batchId: string;
+  doctorId: string;
+  amount: number;
+  fundAccountId?: string;
+};
+
 export type InsertDispute = {
   appointmentId: string;
   patientId: string;
@@ -512,6 +1344,7 @@ export const insertDoctorProfileSchema = z.object({
   totalReviews: z.number().default(0),
   fundAccountId: z.string().optional(),
   gender: z.enum(['male', 'female', 'other']).optional(),
+  timeZone: z.string().refine(isValidTimeZone, 'Invalid IANA time zone').optional(),
   clinicAddress: z.object({
     fullAddress: z.string().optional(),
     city: z.string().optional(),
@@ -573,12 +1406,23 @@ export const insertDoctorAvailabilitySchema = z.object({
   specificDate: z.string().optional(),
 });
 
+export const insertDoctorTimeOffSchema = z.object({
+  doctorId: z.string(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  allDay: z.boolean().default(false),
+  reason: z.string().max(200).optional(),
+}).refine((data) => data.endsAt > data.startsAt, {
+  message: "Time-off must end after it starts",
+  path: ['endsAt'],
+});
+
 export const insertPaymentSchema = z.object({
   appointmentId: z.string(),
   patientId: z.string(),
   doctorId: z.string(),
   amount: z.number().min(0),
-  status: z.enum(['pending', 'completed', 'failed', 'refunded']).default('pending'),
+  status: z.enum(['pending', 'completed', 'failed', 'refunded', 'partially_refunded']).default('pending'),
   paymentMethod: z.string().optional(),
   razorpayOrderId: z.string().optional(),
   razorpayPaymentId: z.string().optional(),
@@ -589,17 +1433,99 @@ export const insertPaymentSchema = z.object({
 
 export const insertNotificationSchema = z.object({
   recipientId: z.string(),
-  type: z.enum(['payment_pending', 'appointment_confirmed', 'appointment_scheduled', 'appointment_cancelled', 'appointment_rejected', 'consultation_completed']),
+  type: z.enum(['payment_pending', 'appointment_confirmed', 'appointment_scheduled', 'appointment_cancelled', 'appointment_rejected', 'appointment_rescheduled', 'reschedule_requested', 'reschedule_declined', 'waitlist_slot_offered', 'appointment_no_show', 'consultation_completed', 'appointment_reminder', 'announcement', 'payment_refunded']),
   title: z.string(),
   message: z.string(),
   appointmentId: z.string().optional(),
   appointmentDate: z.date().optional(),
   consultationFee: z.number().optional(),
   doctorId: z.string().optional(),
-  notificationChannels: z.array(z.enum(['email', 'inapp'])).default(['email', 'inapp']),
+  notificationChannels: z.array(z.enum(['email', 'inapp', 'sms', 'whatsapp'])).default(['email', 'inapp']),
   read: z.boolean().default(false),
 });
 
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be HH:mm');
+
+export const updateNotificationPreferenceSchema = z.object({
+  channels: z.array(z.object({
+    type: insertNotificationSchema.shape.type,
+    channels: z.array(z.enum(['email', 'sms', 'whatsapp'])),
+  })).optional(),
+  quietHours: z.object({
+    enabled: z.boolean(),
+    start: timeOfDay,
+    end: timeOfDay,
+  }).optional(),
+  timeZone: z.string().optional(),
+  digestMode: z.enum(['immediate', 'daily']).optional(),
+  digestTime: timeOfDay.optional(),
+});
+
+export const insertBroadcastSchema = z.object({
+  title: z.string().trim().min(1).max(120),
+  message: z.string().trim().min(1).max(2000),
+  audience: z.discriminatedUnion('kind', [
+    z.object({ kind: z.literal('all') }),
+    z.object({ kind: z.literal('role'), role: z.enum(['patient', 'doctor']) }),
+    z.object({ kind: z.literal('specialization'), specialization: z.string().trim().min(1) }),
+    z.object({ kind: z.literal('upcoming_patients'), withinDays: z.number().int().min(1).max(365).optional() }),
+  ]),
+  // In-app is always included: the inbox is where the read rate is measured
+  channels: z.array(z.enum(['email', 'inapp'])).default(['email', 'inapp']),
+  // Omitted: send right away
+  scheduledFor: z.coerce.date().optional(),
+});
+
+const percent = z.number().min(0).max(100);
+const feeMode = z.enum(['surcharge', 'deduction']);
+
+// A new pricing version; the server assigns the version number
+export const insertPricingConfigSchema = z.object({
+  defaultRate: percent,
+  feeMode: feeMode,
+  planRates: z.array(z.object({ plan: z.enum(['basic', 'plus']), rate: percent, feeMode: feeMode.optional() })).default([]),
+  doctorRates: z.array(z.object({ doctorId: z.string().min(1), rate: percent, feeMode: feeMode.optional() })).default([]),
+  taxLines: z.array(z.object({
+    label: z.string().trim().min(1).max(40),
+    rate: percent,
+    base: z.enum(['platform_fee', 'consultation_fee']),
+  })).max(5).default([]),
+  note: z.string().trim().max(200).optional(),
+});
+
+export const insertSettlementBatchSchema = z.object({
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(),
+}).refine((batch) => batch.periodStart < batch.periodEnd, {
+  message: 'The period must end after it starts',
+  path: ['periodEnd'],
+});
+
+export const updatePayoutStatusSchema = z.object({
+  status: z.enum(['processed', 'failed']),
+  reference: z.string().trim().max(100).optional(),
+  reason: z.string().trim().max(300).optional(),
+}).refine((update) => update.status !== 'processed' || !!update.reference, {
+  message: 'A processed payout needs its bank reference',
+  path: ['reference'],
+});
+
+export const adminRefundSchema = z.object({
+  // Rupees; leave out to refund whatever is left
+  amount: z.number().positive().optional(),
+  reasonCode: z.enum(['patient_cancellation', 'doctor_cancellation', 'no_show', 'late_payment', 'service_issue', 'duplicate_payment', 'dispute', 'goodwill', 'other']),
+  note: z.string().trim().max(500).optional(),
+  disputeId: z.string().optional(),
+  // Marks the linked dispute resolved with this refund
+  resolveDispute: z.boolean().default(false),
+}).refine((refund) => refund.reasonCode !== 'dispute' || !!refund.disputeId, {
+  message: 'Choose the dispute this refund settles',
+  path: ['disputeId'],
+}).refine((refund) => !refund.resolveDispute || !!refund.disputeId, {
+  message: 'Only a linked dispute can be resolved',
+  path: ['resolveDispute'],
+});
+
 export const insertDisputeSchema = z.object({
   appointmentId: z.string(),
   patientId: z.string(),
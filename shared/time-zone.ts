@@ -0,0 +1,170 @@
+// ==========================================
+// TIME ZONE HELPERS
+// ==========================================
+// Availability is stored as wall-clock times ("09:00") in the doctor's IANA
+// zone, while appointments are stored as UTC instants. These helpers convert
+// between the two using Intl only, so they run the same on server and client.
+
+// Zone assumed for doctors who have not picked one yet
+export const DEFAULT_TIME_ZONE = 'Asia/Kolkata';
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Returns true when the value is an IANA zone name the runtime understands
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The zone of the current runtime (the viewer's zone in the browser)
+ */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Wall-clock parts of an instant as seen in the given zone
+ */
+export function zonedParts(instant: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Calendar day ("yyyy-MM-dd") of an instant in the given zone
+ */
+export function zonedDateKey(instant: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(instant, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Time of day ("HH:mm") of an instant in the given zone
+ */
+export function zonedTimeOfDay(instant: Date, timeZone: string): string {
+  const { hour, minute } = zonedParts(instant, timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const zoneOffset = (instant: Date, timeZone: string) => {
+  const p = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+/**
+ * The UTC instant at which the wall clock in `timeZone` reads `minutes` after
+ * midnight on `dateKey`. Times skipped by a DST jump resolve to the later offset.
+ */
+export function zonedTimeToUtc(dateKey: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+  // Guess with the offset at the wall-clock time, then correct once for DST
+  const guess = wallClock - zoneOffset(new Date(wallClock), timeZone);
+  const corrected = wallClock - zoneOffset(new Date(guess), timeZone);
+  return new Date(corrected);
+}
+
+/**
+ * Start of the calendar day containing `instant`, in the given zone
+ */
+export function startOfZonedDay(instant: Date, timeZone: string): Date {
+  return zonedTimeToUtc(zonedDateKey(instant, timeZone), 0, timeZone);
+}
+
+/**
+ * Shifts a "yyyy-MM-dd" key by whole calendar days
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+}
+
+/**
+ * JS day of week (0 = Sunday) of a "yyyy-MM-dd" key
+ */
+export function dayOfWeekForDateKey(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Normalizes a date input to a "yyyy-MM-dd" key. Bare date keys are kept as
+ * they are; full timestamps are read as a calendar day in `timeZone`.
+ * @returns null when the value is not a valid date
+ */
+export function toDateKey(value: string | Date, timeZone: string): string | null {
+  if (typeof value === 'string' && DATE_KEY_PATTERN.test(value)) {
+    return Number.isNaN(new Date(`${value}T00:00:00Z`).getTime()) ? null : value;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : zonedDateKey(parsed, timeZone);
+}
+
+/**
+ * Parses a query/body date: bare "yyyy-MM-dd" keys mean midnight in
+ * `timeZone`, anything else is parsed as an instant.
+ * @returns null when the value is not a valid date
+ */
+export function parseZonedDate(value: string, timeZone: string): Date | null {
+  if (DATE_KEY_PATTERN.test(value)) {
+    return toDateKey(value, timeZone) ? zonedTimeToUtc(value, 0, timeZone) : null;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Human-readable date and time of an instant in the given zone,
+ * e.g. "Dec 12, 2025, 3:30 PM"
+ */
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  return new Date(instant).toLocaleString('en-US', {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}